@@ -0,0 +1,80 @@
+// Script to copy the Tesseract OCR worker, engine and language data from node_modules
+// to the public directory, so that OCR runs without any network access
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createRequire } from 'module';
+
+// ES module equivalent of __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// ES module equivalent of require
+const require = createRequire(import.meta.url);
+const packageJson = require('../package.json');
+
+const nodeModulesPath = path.join(__dirname, '../node_modules');
+const ocrDir = path.join(__dirname, '../public/tesseract');
+const coreDir = path.join(ocrDir, 'core');
+const langDir = path.join(ocrDir, 'lang');
+
+// Only the LSTM engine is used; the worker picks the build matching the browser's SIMD support
+const coreFiles = [
+  'tesseract-core-lstm.wasm.js',
+  'tesseract-core-simd-lstm.wasm.js',
+  'tesseract-core-relaxedsimd-lstm.wasm.js'
+];
+
+// Every @tesseract.js-data package in the dependencies provides one language
+const languages = Object.keys(packageJson.dependencies)
+  .filter(name => name.startsWith('@tesseract.js-data/'))
+  .map(name => name.split('/')[1]);
+
+// Create the output directories if they don't exist
+for (const dir of [ocrDir, coreDir, langDir]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+    console.log(`Created directory: ${dir}`);
+  }
+}
+
+// Copy a file from source to destination
+function copyFile(src, dest) {
+  try {
+    if (!fs.existsSync(src)) {
+      throw new Error(`Source file does not exist: ${src}`);
+    }
+
+    fs.copyFileSync(src, dest);
+    return true;
+  } catch (error) {
+    console.error(`Error copying file ${src} to ${dest}:`, error.message);
+    return false;
+  }
+}
+
+let failed = 0;
+
+// Copy the Tesseract worker
+const workerSrc = path.join(nodeModulesPath, 'tesseract.js/dist/worker.min.js');
+console.log(`Copying Tesseract worker from: ${workerSrc}`);
+if (!copyFile(workerSrc, path.join(ocrDir, 'worker.min.js'))) failed++;
+
+// Copy the engine builds
+for (const file of coreFiles) {
+  if (!copyFile(path.join(nodeModulesPath, 'tesseract.js-core', file), path.join(coreDir, file))) failed++;
+}
+console.log(`${coreFiles.length} Tesseract engine files processed`);
+
+// Copy the language data (integer-quantised LSTM models, which are the smallest)
+for (const language of languages) {
+  const src = path.join(nodeModulesPath, '@tesseract.js-data', language, '4.0.0_best_int', `${language}.traineddata.gz`);
+  if (!copyFile(src, path.join(langDir, `${language}.traineddata.gz`))) failed++;
+}
+console.log(`Language data processed for: ${languages.join(', ')}`);
+
+if (failed > 0) {
+  console.error(`\n${failed} OCR files could not be copied. OCR will not be available.`);
+} else {
+  console.log('\nAll OCR files copied successfully!');
+}
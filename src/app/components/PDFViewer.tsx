@@ -1,10 +1,37 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { usePdfLoader } from '../hooks/usePdfLoader';
-import { RedactionArea } from '../types/pdf';
+import { useDocumentText } from '../hooks/useDocumentText';
+import {
+  OcrOptions,
+  PageWithholding,
+  RasterOptions,
+  RedactionArea,
+  RedactionBoxOptions,
+  RedactionLabel,
+  RedactionShape,
+  RedactionStrategy,
+  TextHighlight
+} from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
 import { PDFCanvas } from './pdf/PDFCanvas';
 import { PDFPageNavigation } from './pdf/PDFPageNavigation';
 import { PDFZoomControls } from './pdf/PDFZoomControls';
+import { RedactionShapeSelector } from './pdf/RedactionShapeSelector';
 import { RedactionAreasList } from './pdf/RedactionAreasList';
+import { RedactionControls } from './pdf/RedactionControls';
+import { RedactionStrategySelector } from './pdf/RedactionStrategySelector';
+import { RasterSettings } from './pdf/RasterSettings';
+import { OcrSettings } from './pdf/OcrSettings';
+import { RedactionLabelSettings } from './pdf/RedactionLabelSettings';
+import { TextSearchPanel } from './pdf/TextSearchPanel';
+import { PiiDetectorPanel } from './pdf/PiiDetectorPanel';
+import { TermListPanel } from './pdf/TermListPanel';
+import { SuggestionReviewPanel } from './pdf/SuggestionReviewPanel';
+import { getAppliedPageStrategy } from '../utils/pdfRedactor';
+import { PageFrame, createLinkId, repeatArea } from '../utils/pdfAreaRepeat';
+import { Matrix, Rect } from '../utils/pdfGeometry';
+import { setAreaBounds } from '../utils/pdfRedactionShape';
+import { estimateRasterBytes, resolveRasterOptions } from '../utils/pdfRasterEncoder';
 import { initPdfWorker, isPdfWorkerInitialized } from '../utils/pdfWorkerLoader';
 import { unlockPdf } from '../utils/pdfUnlocker';
 
@@ -32,6 +59,14 @@ interface PDFViewerProps {
   onSelectionChange?: (selections: RedactionArea[]) => void;
   onApplyRedactions?: () => void;
   onFileUpdate?: (file: File) => void;
+  onStrategyChange?: (
+    strategy: RedactionStrategy,
+    pageStrategies: Partial<Record<number, RedactionStrategy>>
+  ) => void;
+  onRasterOptionsChange?: (options: RasterOptions) => void;
+  onOcrOptionsChange?: (options: OcrOptions) => void;
+  onRedactionOptionsChange?: (options: RedactionBoxOptions) => void;
+  onWithheldPagesChange?: (withheldPages: Partial<Record<number, PageWithholding>>) => void;
 }
 
 const PDFViewer: React.FC<PDFViewerProps> = ({ 
@@ -39,15 +74,64 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
   onPageRendered,
   onSelectionChange,
   onApplyRedactions,
-  onFileUpdate
+  onFileUpdate,
+  onStrategyChange,
+  onRasterOptionsChange,
+  onOcrOptionsChange,
+  onRedactionOptionsChange,
+  onWithheldPagesChange
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const { pdfDocument, totalPages, isLoading, loadingProgress, error, isPdfEncrypted, workerInitError } = usePdfLoader(file);
+  const {
+    pdfDocument,
+    totalPages,
+    isLoading,
+    loadingProgress,
+    error,
+    isPdfEncrypted,
+    workerInitError,
+    importedAreas
+  } = usePdfLoader(file);
+  const {
+    pages: documentText,
+    isLoading: isLoadingText,
+    loadingProgress: textLoadingProgress,
+    error: textError,
+    loadText
+  } = useDocumentText(pdfDocument);
   
   // State for PDF viewing
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [scale, setScale] = useState<number>(1.0); // Default to 100%
   const [redactionAreas, setRedactionAreas] = useState<RedactionArea[]>([]);
+  const [boxOptions, setBoxOptions] = useState<RedactionBoxOptions>({
+    mode: REDACTION_SETTINGS.defaultRedactionMode,
+    color: REDACTION_SETTINGS.defaultRedactionColor,
+    opacity: REDACTION_SETTINGS.defaultRedactionOpacity,
+    removeContent: REDACTION_SETTINGS.removeContent,
+    addAnnotation: REDACTION_SETTINGS.addAnnotation
+  });
+  const [strategy, setStrategy] = useState<RedactionStrategy>(REDACTION_SETTINGS.defaultRedactionStrategy);
+  const [pageStrategies, setPageStrategies] = useState<Partial<Record<number, RedactionStrategy>>>({});
+  // Pages blanked or removed as a whole
+  const [withheldPages, setWithheldPages] = useState<Partial<Record<number, PageWithholding>>>({});
+  const [rasterOptions, setRasterOptions] = useState<RasterOptions>(resolveRasterOptions());
+  const [ocrOptions, setOcrOptions] = useState<OcrOptions>(REDACTION_SETTINGS.defaultOcrOptions);
+  // Overlay text given to new areas, when labelling is switched on
+  const [label, setLabel] = useState<RedactionLabel>(REDACTION_SETTINGS.defaultRedactionLabel);
+  const [labelNewAreas, setLabelNewAreas] = useState<boolean>(false);
+  // Shape drawn on the page
+  const [drawingShape, setDrawingShape] = useState<RedactionShape>('rectangle');
+  // Text is selected on the page instead of shapes drawn
+  const [selectingText, setSelectingText] = useState<boolean>(false);
+  // Page sizes in points and their /UserUnit, for estimating the size of rasterised output
+  const [pageSizes, setPageSizes] = useState<{ width: number; height: number; userUnit: number }[]>([]);
+  // Text search hits shown on the pages
+  const [highlights, setHighlights] = useState<TextHighlight[]>([]);
+  // Suggestion under review, marked on its page
+  const [focusedArea, setFocusedArea] = useState<RedactionArea | null>(null);
+  // Pages as displayed at scale 1, for placing areas repeated on other pages
+  const [pageFrames, setPageFrames] = useState<PageFrame[]>([]);
   
   // Processing state
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
@@ -70,26 +154,269 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     }
   }, [currentPage, totalPages, pdfDocument, onPageRendered]);
 
-  // Reset to the first page when the document changes
+  // Reset to the first page when the document changes, offering the areas
+  // its annotations mark for redaction
   useEffect(() => {
     if (pdfDocument) {
       setCurrentPage(1);
-      setRedactionAreas([]);
+      setRedactionAreas(importedAreas);
+      // Page overrides belong to the previous document
+      setPageStrategies({});
+      setWithheldPages({});
       // Reset scale to 100%
       setScale(1.0);
     }
+  }, [pdfDocument, importedAreas]);
+
+  // Read the page sizes of a new document
+  useEffect(() => {
+    if (!pdfDocument) return;
+    let cancelled = false;
+    
+    const loadPageSizes = async () => {
+      const sizes: { width: number; height: number; userUnit: number }[] = [];
+      const frames: PageFrame[] = [];
+      for (let i = 1; i <= pdfDocument.numPages; i++) {
+        const page = await pdfDocument.getPage(i);
+        // Rasterised at the resolution of the page as printed, /UserUnit included
+        const userUnit = page.userUnit || 1;
+        const { width, height } = page.getViewport({ scale: userUnit });
+        sizes.push({ width, height, userUnit });
+        const frame = page.getViewport({ scale: 1 });
+        frames.push({ width: frame.width, height: frame.height, transform: frame.transform as Matrix });
+      }
+      if (!cancelled) {
+        setPageSizes(sizes);
+        setPageFrames(frames);
+      }
+    };
+    
+    setPageSizes([]);
+    setPageFrames([]);
+    loadPageSizes().catch(error => console.error('Error reading page sizes:', error));
+    return () => {
+      cancelled = true;
+    };
   }, [pdfDocument]);
 
-  // Handle new redaction area creation
-  const handleRedactionAreaCreated = (area: RedactionArea) => {
-    const updatedAreas = [...redactionAreas, area];
+  // Only accepted areas are redacted; suggestions wait for the user
+  const acceptedAreas = redactionAreas.filter(area => !area.suggested);
+  const suggestedCount = redactionAreas.length - acceptedAreas.length;
+  const withheldPageCount = Object.values(withheldPages).filter(Boolean).length;
+
+  // Strategy each page will get, and the sizes of the pages and regions
+  // rasterised; withheld pages are never rasterised
+  const appliedStrategies = pageSizes.map((_, index) =>
+    getAppliedPageStrategy(
+      index + 1,
+      acceptedAreas.filter(area => !withheldPages[area.pageNumber]),
+      { strategy, pageStrategies }
+    )
+  );
+  const rasterPageCount = appliedStrategies.filter(applied => applied !== 'vector').length;
+  const vectorPageCount = appliedStrategies.filter((applied, index) =>
+    applied === 'vector' && acceptedAreas.some(area => area.pageNumber === index + 1 && !withheldPages[area.pageNumber])
+  ).length;
+  const fullPageCount = appliedStrategies.filter(applied => applied === 'page-raster').length;
+  const rasterSizes = pageSizes.flatMap((size, index) => {
+    if (appliedStrategies[index] === 'page-raster') return [size];
+    if (appliedStrategies[index] !== 'region-raster') return [];
+    const padding = REDACTION_SETTINGS.regionRasterPadding * 2;
+    return acceptedAreas
+      .filter(area => area.pageNumber === index + 1)
+      .map(area => ({
+        width: (area.width + padding) * size.userUnit,
+        height: (area.height + padding) * size.userUnit
+      }));
+  });
+  
+  // Images are estimated from their size, the pages kept as their share of the original file
+  const estimatedBytes = file && pageSizes.length > 0
+    ? estimateRasterBytes(rasterSizes, rasterOptions) +
+      file.size * (pageSizes.length - fullPageCount) / pageSizes.length
+    : null;
+
+  // Store the areas and pass the accepted ones on to the parent
+  const updateAreas = (updatedAreas: RedactionArea[]) => {
     setRedactionAreas(updatedAreas);
-    
     if (onSelectionChange) {
-      onSelectionChange(updatedAreas);
+      onSelectionChange(updatedAreas.filter(area => !area.suggested));
     }
   };
 
+  // Handle new redaction area creation
+  const handleRedactionAreaCreated = (area: RedactionArea) => {
+    updateAreas([...redactionAreas, labelNewAreas ? { ...area, label } : area]);
+  };
+
+  // Add the areas covering the selected text search hits or the text selected on the page
+  const handleRedactMatches = (areas: RedactionArea[]) => {
+    updateAreas([...redactionAreas, ...areas.map(area => (labelNewAreas ? { ...area, label } : area))]);
+  };
+
+  // Add automatic detections as suggestions for the user to review, leaving
+  // out those already present from an earlier run
+  const handleSuggestAreas = (areas: RedactionArea[]): number => {
+    const isPresent = (area: RedactionArea) => redactionAreas.some(other =>
+      other.pageNumber === area.pageNumber && other.origin === area.origin && other.category === area.category &&
+      Math.abs(other.x - area.x) < 0.5 && Math.abs(other.y - area.y) < 0.5 &&
+      Math.abs(other.width - area.width) < 0.5 && Math.abs(other.height - area.height) < 0.5
+    );
+    const added = areas
+      .filter(area => !isPresent(area))
+      .map(area => ({ ...area, suggested: true, ...(labelNewAreas ? { label } : {}) }));
+    if (added.length > 0) updateAreas([...redactionAreas, ...added]);
+    return added.length;
+  };
+
+  // Accept suggestions, by index, so that they are applied
+  const handleAcceptAreas = (indices: number[]) => {
+    updateAreas(redactionAreas.map((area, i) => (indices.includes(i) ? { ...area, suggested: false } : area)));
+  };
+
+  // Reject suggestions, by index; they are dropped
+  const handleRejectAreas = (indices: number[]) => {
+    updateAreas(redactionAreas.filter((_, i) => !indices.includes(i)));
+  };
+
+  // Accept one suggestion from the list, or all of them (null)
+  const handleAcceptArea = (index: number | null) => {
+    handleAcceptAreas(index === null
+      ? redactionAreas.flatMap((area, i) => (area.suggested ? [i] : []))
+      : [index]);
+  };
+
+  // Go to the page of an area
+  const handleGotoArea = useCallback((area: RedactionArea) => {
+    setCurrentPage(area.pageNumber);
+  }, []);
+
+  // Repeat an area on other pages as copies linked to it; pages that already
+  // have a copy are skipped
+  const handleRepeatArea = (index: number, pageNumbers: number[]) => {
+    const source = redactionAreas[index];
+    const sourceFrame = pageFrames[source.pageNumber - 1];
+    if (!sourceFrame) return;
+    const linkId = source.linkId ?? createLinkId();
+    const linkedPages = new Set(
+      redactionAreas.filter(area => area.linkId && area.linkId === linkId).map(area => area.pageNumber)
+    );
+    linkedPages.add(source.pageNumber);
+    const copies = pageNumbers
+      .filter(pageNumber => !linkedPages.has(pageNumber) && pageFrames[pageNumber - 1])
+      .map(pageNumber => repeatArea({ ...source, linkId }, sourceFrame, pageFrames[pageNumber - 1], pageNumber));
+    updateAreas([
+      ...redactionAreas.map((area, i) => (i === index ? { ...area, linkId } : area)),
+      ...copies
+    ]);
+  };
+
+  // Move or resize an area; its linked copies follow, each placed on its own page
+  const handleAreaBoundsChange = (index: number, bounds: Rect) => {
+    const edited = setAreaBounds(redactionAreas[index], bounds);
+    const editedFrame = pageFrames[edited.pageNumber - 1];
+    updateAreas(redactionAreas.map((area, i) => {
+      if (i === index) return edited;
+      if (!edited.linkId || area.linkId !== edited.linkId || !editedFrame) return area;
+      const frame = pageFrames[area.pageNumber - 1];
+      if (!frame) return area;
+      const moved = repeatArea(edited, editedFrame, frame, area.pageNumber);
+      return {
+        ...moved,
+        label: area.label,
+        origin: area.origin,
+        suggested: area.suggested,
+        category: area.category,
+        term: area.term
+      };
+    }));
+  };
+
+  // Detach an area from its linked copies
+  const handleUnlinkArea = (index: number) => {
+    updateAreas(redactionAreas.map((area, i) => (i === index ? { ...area, linkId: undefined } : area)));
+  };
+
+  // Handle a change of the label of one area; an empty text removes it
+  const handleAreaLabelChange = (index: number, text: string) => {
+    const updatedAreas = redactionAreas.map((area, i) => {
+      if (i !== index) return area;
+      if (!text) return { ...area, label: undefined };
+      return { ...area, label: { ...(area.label ?? label), text } };
+    });
+    updateAreas(updatedAreas);
+  };
+
+  // Give every area the current label settings
+  const handleApplyLabelToAll = () => {
+    const updatedAreas = redactionAreas.map(area => ({ ...area, label }));
+    updateAreas(updatedAreas);
+  };
+
+  // Remove every redaction area
+  const handleClearRedactions = () => {
+    updateAreas([]);
+  };
+
+  // Apply the redactions, showing progress until the parent has handled them
+  const handleApplyRedactions = () => {
+    if (onApplyRedactions) {
+      setIsProcessing(true);
+      setTimeout(() => {
+        onApplyRedactions();
+        setIsProcessing(false);
+      }, 100);
+    }
+  };
+
+  // Handle a change of the box colour, opacity, content removal or annotation
+  const handleBoxOptionsChange = (newOptions: RedactionBoxOptions) => {
+    setBoxOptions(newOptions);
+    if (onRedactionOptionsChange) onRedactionOptionsChange(newOptions);
+  };
+
+  // Handle a change of the document strategy
+  const handleStrategyChange = (newStrategy: RedactionStrategy) => {
+    setStrategy(newStrategy);
+    if (onStrategyChange) onStrategyChange(newStrategy, pageStrategies);
+  };
+
+  // Handle setting or clearing (null) the strategy override of a page
+  const handlePageStrategyChange = (pageNumber: number, pageStrategy: RedactionStrategy | null) => {
+    const updatedStrategies = { ...pageStrategies };
+    if (pageStrategy) {
+      updatedStrategies[pageNumber] = pageStrategy;
+    } else {
+      delete updatedStrategies[pageNumber];
+    }
+    setPageStrategies(updatedStrategies);
+    if (onStrategyChange) onStrategyChange(strategy, updatedStrategies);
+  };
+
+  // Handle withholding a page in full, or keeping it (null)
+  const handlePageWithholdingChange = (pageNumber: number, action: PageWithholding | null) => {
+    const updatedPages = { ...withheldPages };
+    if (action) {
+      updatedPages[pageNumber] = action;
+    } else {
+      delete updatedPages[pageNumber];
+    }
+    setWithheldPages(updatedPages);
+    if (onWithheldPagesChange) onWithheldPagesChange(updatedPages);
+  };
+
+  // Handle a change of the rasterisation settings
+  const handleRasterOptionsChange = (newOptions: RasterOptions) => {
+    setRasterOptions(newOptions);
+    if (onRasterOptionsChange) onRasterOptionsChange(newOptions);
+  };
+
+  // Handle a change of the OCR settings
+  const handleOcrOptionsChange = (newOptions: OcrOptions) => {
+    setOcrOptions(newOptions);
+    if (onOcrOptionsChange) onOcrOptionsChange(newOptions);
+  };
+
   // Handle canvas ready callback
   const handleCanvasReady = (width: number, height: number) => {
     console.debug(`Canvas dimensions: ${width}x${height} at scale ${scale}`);
@@ -99,11 +426,6 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
       width: width,
       height: height
     });
-    
-    // No auto-scaling, keep at 100%
-    if (scale !== 1.0) {
-      setScale(1.0);
-    }
   };
 
   // Handle unlocking encrypted PDFs
@@ -235,6 +557,9 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                 currentPage={currentPage}
                 totalPages={totalPages}
                 onPageChange={setCurrentPage}
+                withheldPages={withheldPages}
+                onPageWithholdingChange={handlePageWithholdingChange}
+                disabled={isProcessing}
               />
             
               <PDFZoomControls
@@ -256,23 +581,23 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                 minScale={0.5}
                 maxScale={3.0}
               />
+              
+              <RedactionShapeSelector
+                shape={drawingShape}
+                onShapeChange={setDrawingShape}
+                selectingText={selectingText}
+                onSelectingTextChange={setSelectingText}
+                disabled={isProcessing || isPdfEncrypted}
+              />
             </div>
             
             <div>
               {onApplyRedactions && (
                 <button 
-                  onClick={() => {
-                    if (onApplyRedactions) {
-                      setIsProcessing(true);
-                      setTimeout(() => {
-                        onApplyRedactions();
-                        setIsProcessing(false);
-                      }, 100);
-                    }
-                  }}
-                  disabled={isProcessing || redactionAreas.length === 0 || isPdfEncrypted}
+                  onClick={handleApplyRedactions}
+                  disabled={isProcessing || (acceptedAreas.length === 0 && withheldPageCount === 0) || isPdfEncrypted}
                   className={`px-3 py-1 rounded text-xs font-medium flex items-center gap-1 ${
-                    redactionAreas.length > 0 && !isPdfEncrypted
+                    (acceptedAreas.length > 0 || withheldPageCount > 0) && !isPdfEncrypted
                       ? 'bg-red-600 text-white hover:bg-red-700' 
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   }`}
@@ -290,7 +615,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
                       </svg>
-                      Apply Redactions
+                      {boxOptions.mode === 'markup' ? 'Export Mark-up' : 'Apply Redactions'}
                     </>
                   )}
                 </button>
@@ -309,8 +634,13 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
                     currentPage={currentPage}
                     scale={scale}
                     redactionAreas={redactionAreas}
+                    highlights={highlights}
+                    focusedArea={focusedArea}
                     onRedactionAreaCreated={handleRedactionAreaCreated}
                     enableDrawing={!isProcessing && !isPdfEncrypted}
+                    drawingShape={drawingShape}
+                    selectText={selectingText && !isProcessing && !isPdfEncrypted}
+                    onTextSelected={handleRedactMatches}
                     onCanvasReady={handleCanvasReady}
                     onError={handleCanvasError}
                   />
@@ -321,19 +651,144 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
             {/* Sidebar with redaction areas list - reduce width */}
             <div className="redaction-sidebar w-56 border-l border-gray-300 bg-white overflow-y-auto">
               <div className="p-2 border-b border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Redaction Options</h3>
+              </div>
+              <RedactionControls
+                options={boxOptions}
+                onOptionsChange={handleBoxOptionsChange}
+                onApplyRedactions={handleApplyRedactions}
+                onClearRedactions={handleClearRedactions}
+                redactionCount={acceptedAreas.length}
+                areaCount={redactionAreas.length}
+                withheldPageCount={withheldPageCount}
+                vectorPageCount={vectorPageCount}
+                isProcessing={isProcessing || isPdfEncrypted}
+              />
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Find and Redact</h3>
+              </div>
+              <TextSearchPanel
+                pages={documentText}
+                loadText={loadText}
+                isLoadingText={isLoadingText}
+                loadingProgress={textLoadingProgress}
+                textError={textError}
+                onHighlightsChange={setHighlights}
+                onRedactMatches={handleRedactMatches}
+                onGotoPage={setCurrentPage}
+                disabled={isProcessing || isPdfEncrypted}
+              />
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Term List</h3>
+              </div>
+              <TermListPanel
+                pages={documentText}
+                loadText={loadText}
+                isLoadingText={isLoadingText}
+                loadingProgress={textLoadingProgress}
+                textError={textError}
+                onSuggestAreas={handleSuggestAreas}
+                onGotoPage={setCurrentPage}
+                disabled={isProcessing || isPdfEncrypted}
+              />
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Personal Data</h3>
+              </div>
+              <PiiDetectorPanel
+                pages={documentText}
+                loadText={loadText}
+                isLoadingText={isLoadingText}
+                loadingProgress={textLoadingProgress}
+                textError={textError}
+                onSuggestAreas={handleSuggestAreas}
+                disabled={isProcessing || isPdfEncrypted}
+              />
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Redaction Strategy</h3>
+              </div>
+              <RedactionStrategySelector
+                strategy={strategy}
+                pageStrategies={pageStrategies}
+                currentPage={currentPage}
+                onStrategyChange={handleStrategyChange}
+                onPageStrategyChange={handlePageStrategyChange}
+                disabled={isProcessing}
+              />
+              {rasterPageCount > 0 && (
+                <>
+                  <div className="p-2 border-y border-gray-300 bg-gray-100">
+                    <h3 className="font-medium text-black text-sm">Rasterisation</h3>
+                  </div>
+                  <RasterSettings
+                    options={rasterOptions}
+                    onOptionsChange={handleRasterOptionsChange}
+                    rasterPageCount={rasterPageCount}
+                    estimatedBytes={estimatedBytes}
+                    disabled={isProcessing}
+                  />
+                </>
+              )}
+              {fullPageCount > 0 && (
+                <>
+                  <div className="p-2 border-y border-gray-300 bg-gray-100">
+                    <h3 className="font-medium text-black text-sm">Text Recognition</h3>
+                  </div>
+                  <OcrSettings
+                    options={ocrOptions}
+                    onOptionsChange={handleOcrOptionsChange}
+                    pageCount={fullPageCount}
+                    disabled={isProcessing}
+                  />
+                </>
+              )}
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
+                <h3 className="font-medium text-black text-sm">Box Labels</h3>
+              </div>
+              <RedactionLabelSettings
+                label={label}
+                onLabelChange={setLabel}
+                enabled={labelNewAreas}
+                onEnabledChange={setLabelNewAreas}
+                onApplyToAll={handleApplyLabelToAll}
+                areaCount={redactionAreas.length}
+                disabled={isProcessing}
+              />
+              {suggestedCount > 0 && (
+                <>
+                  <div className="p-2 border-y border-gray-300 bg-gray-100">
+                    <h3 className="font-medium text-black text-sm">Review Suggestions</h3>
+                  </div>
+                  <SuggestionReviewPanel
+                    redactionAreas={redactionAreas}
+                    onAcceptAreas={handleAcceptAreas}
+                    onRejectAreas={handleRejectAreas}
+                    onGotoArea={handleGotoArea}
+                    onFocusArea={setFocusedArea}
+                    disabled={isProcessing}
+                  />
+                </>
+              )}
+              <div className="p-2 border-y border-gray-300 bg-gray-100">
                 <h3 className="font-medium text-black text-sm">Redaction Areas</h3>
               </div>
               <RedactionAreasList 
                 redactionAreas={redactionAreas}
                 onRemoveArea={(index) => {
-                  const updatedAreas = redactionAreas.filter((_, i) => i !== index);
-                  setRedactionAreas(updatedAreas);
-                  if (onSelectionChange) onSelectionChange(updatedAreas);
+                  updateAreas(redactionAreas.filter((_, i) => i !== index));
                 }}
+                onAcceptArea={handleAcceptArea}
                 onGotoArea={(area) => {
                   setCurrentPage(area.pageNumber);
                   // Future enhancement: scroll to the area
                 }}
+                onLabelChange={handleAreaLabelChange}
+                withheldPages={withheldPages}
+                onKeepPage={(pageNumber) => handlePageWithholdingChange(pageNumber, null)}
+                onGotoPage={setCurrentPage}
+                onRepeatArea={pageFrames.length > 0 ? handleRepeatArea : undefined}
+                onAreaBoundsChange={handleAreaBoundsChange}
+                onUnlinkArea={handleUnlinkArea}
+                totalPages={totalPages}
                 currentPage={currentPage}
               />
             </div>
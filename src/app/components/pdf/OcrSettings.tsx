@@ -0,0 +1,78 @@
+import React from 'react';
+import { OcrLanguage, OcrOptions } from '../../types/pdf';
+import { OCR_LANGUAGES } from '../../constants/pdf';
+
+interface OcrSettingsProps {
+  options: OcrOptions;
+  onOptionsChange: (options: OcrOptions) => void;
+  pageCount: number;
+  disabled?: boolean;
+}
+
+/**
+ * Component for recognising the text of rasterised pages, so that they stay
+ * searchable without the redacted words
+ */
+export const OcrSettings: React.FC<OcrSettingsProps> = ({
+  options,
+  onOptionsChange,
+  pageCount,
+  disabled = false
+}) => {
+  // Handler for switching OCR on or off
+  const handleEnabledChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onOptionsChange({
+      ...options,
+      enabled: e.target.checked
+    });
+  };
+
+  // Handler for language change
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onOptionsChange({
+      ...options,
+      language: e.target.value as OcrLanguage
+    });
+  };
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <label className="flex items-center gap-2 font-medium">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={handleEnabledChange}
+          disabled={disabled}
+          aria-label="Add a text layer to rasterised pages"
+        />
+        Add searchable text layer
+      </label>
+
+      <div>
+        <label htmlFor="ocr-language" className="block font-medium mb-1">
+          Language
+        </label>
+        <select
+          id="ocr-language"
+          value={options.language}
+          onChange={handleLanguageChange}
+          disabled={disabled || !options.enabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the language of the document text"
+        >
+          {OCR_LANGUAGES.map(language => (
+            <option key={language.value} value={language.value}>
+              {language.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-gray-600">
+        {options.enabled
+          ? <>Text on {pageCount} rasterised page{pageCount !== 1 ? 's' : ''} is recognised on this device; redacted words are left out</>
+          : <>Rasterised pages will contain images only</>}
+      </p>
+    </div>
+  );
+};
@@ -1,19 +1,124 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
-import { RedactionArea } from '../../types/pdf';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { PDFDocumentProxy, PDFPageProxy, RenderTask, TextLayerRenderTask, renderTextLayer } from 'pdfjs-dist';
+import { RedactionArea, RedactionShape, TextHighlight } from '../../types/pdf';
 import { REDACTION_SETTINGS } from '../../constants/pdf';
+import { drawCanvasRedactionLabel } from '../../utils/pdfRedactionLabel';
+import {
+  IDENTITY_MATRIX,
+  Matrix,
+  Point,
+  Rect,
+  applyMatrix,
+  boundsOfPoints,
+  invertMatrix,
+  rectToPolygon,
+  scaleRect,
+  simplifyPolyline
+} from '../../utils/pdfGeometry';
+import { areaOutline } from '../../utils/pdfRedactionShape';
+import { PageText, pageTextFromContent, textRangeAreas } from '../../utils/pdfTextIndex';
 
 interface PDFCanvasProps {
   pdfDocument: PDFDocumentProxy | null;
   currentPage: number;
   scale: number;
   redactionAreas: RedactionArea[];
+  /** Text search hits to show on the page */
+  highlights?: TextHighlight[];
+  /** Suggestion under review, marked on the page */
+  focusedArea?: RedactionArea | null;
   onRedactionAreaCreated: (area: RedactionArea) => void;
   enableDrawing?: boolean;
+  drawingShape?: RedactionShape;
+  /** Select text on the page instead of drawing shapes */
+  selectText?: boolean;
+  /** Areas hugging the glyphs of the text selected on the page, one per line */
+  onTextSelected?: (areas: RedactionArea[]) => void;
   onCanvasReady?: (width: number, height: number) => void;
   onError?: (error: Error) => void;
 }
 
+/**
+ * Closed canvas path through the points of an outline
+ */
+const outlinePath = (points: Point[]): Path2D => {
+  const path = new Path2D();
+  points.forEach(point => path.lineTo(point.x, point.y));
+  path.closePath();
+  return path;
+};
+
+/**
+ * A dragged rectangle with a positive width and height
+ */
+const normalizeRect = (rect: Rect): Rect => ({
+  x: rect.width < 0 ? rect.x + rect.width : rect.x,
+  y: rect.height < 0 ? rect.y + rect.height : rect.y,
+  width: Math.abs(rect.width),
+  height: Math.abs(rect.height)
+});
+
+/**
+ * Path and bounds, in canvas pixels, of the shape being drawn: the dragged
+ * box of a rectangle or ellipse, the points of a lasso, or the corners of a
+ * polygon followed by the pointer
+ */
+const draftShape = (
+  shape: RedactionShape,
+  dragged: Rect | null,
+  points: Point[],
+  pointer: Point | null
+): { path: Path2D; bounds: Rect } | null => {
+  if (shape === 'polygon' || shape === 'freehand') {
+    const outline = shape === 'polygon' && pointer ? [...points, pointer] : points;
+    return outline.length > 0 ? { path: outlinePath(outline), bounds: boundsOfPoints(outline) } : null;
+  }
+  if (!dragged) return null;
+  const bounds = normalizeRect(dragged);
+  const path = new Path2D();
+  if (shape === 'ellipse') {
+    path.ellipse(
+      bounds.x + bounds.width / 2, bounds.y + bounds.height / 2, bounds.width / 2, bounds.height / 2, 0, 0, 2 * Math.PI
+    );
+  } else {
+    path.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+  return { path, bounds };
+};
+
+/**
+ * Offsets in the page text of a selection on the text layer, whose text
+ * elements stand for the runs of the same index
+ */
+const selectedTextRange = (
+  range: Range,
+  textDivs: HTMLElement[],
+  pageText: PageText
+): { start: number; end: number } | null => {
+  // Characters of an element before a boundary of the selection inside it
+  const offsetIn = (element: HTMLElement, node: Node, offset: number) => {
+    const before = document.createRange();
+    before.setStart(element, 0);
+    before.setEnd(node, offset);
+    return before.toString().length;
+  };
+  
+  let start: number | null = null;
+  let end: number | null = null;
+  for (let index = 0; index < textDivs.length && index < pageText.runs.length; index++) {
+    const div = textDivs[index];
+    if (!div.isConnected || !range.intersectsNode(div)) continue;
+    const from = div.contains(range.startContainer) ? offsetIn(div, range.startContainer, range.startOffset) : 0;
+    const to = div.contains(range.endContainer)
+      ? offsetIn(div, range.endContainer, range.endOffset)
+      : pageText.runs[index].str.length;
+    if (from >= to) continue;
+    start = start ?? pageText.runOffsets[index] + from;
+    end = pageText.runOffsets[index] + to;
+  }
+  return start !== null && end !== null ? { start, end } : null;
+};
+
 /**
  * Component for rendering PDF pages with layered canvases for redaction
  */
@@ -22,8 +127,13 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
   currentPage,
   scale,
   redactionAreas,
+  highlights = [],
+  focusedArea = null,
   onRedactionAreaCreated,
   enableDrawing = true,
+  drawingShape = 'rectangle',
+  selectText = false,
+  onTextSelected,
   onCanvasReady,
   onError
 }) => {
@@ -31,6 +141,9 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
   const contentCanvasRef = useRef<HTMLCanvasElement>(null);
   const redactionCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  // Text of the page and the text layer elements of its runs, once laid out
+  const textLayerDataRef = useRef<{ pageText: PageText; textDivs: HTMLElement[] } | null>(null);
   
   // Ref for currently active render task
   const renderTaskRef = useRef<RenderTask | null>(null);
@@ -39,8 +152,17 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
   // State for drawing redaction areas
   const [isDrawing, setIsDrawing] = useState<boolean>(false);
   const [startPos, setStartPos] = useState<{ x: number; y: number } | null>(null);
-  const [currentArea, setCurrentArea] = useState<RedactionArea | null>(null);
-  const [pageViewport, setPageViewport] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  // Selection being drawn, in canvas pixels: the dragged box of a rectangle
+  // or ellipse, or the points of a polygon or lasso and the pointer position
+  const [currentArea, setCurrentArea] = useState<Rect | null>(null);
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [pointerPos, setPointerPos] = useState<Point | null>(null);
+  // Size of the rendered page and the transform from user space to its pixels
+  const [pageViewport, setPageViewport] = useState<{ width: number; height: number; transform: Matrix }>({
+    width: 0,
+    height: 0,
+    transform: IDENTITY_MATRIX
+  });
   const [renderingError, setRenderingError] = useState<Error | null>(null);
   
   // Render the PDF content on the content canvas
@@ -116,10 +238,11 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
           canvas.height = viewport.height;
           canvas.width = viewport.width;
           
-          // Store viewport dimensions
+          // Store viewport dimensions and the transform that places areas on the page
           setPageViewport({ 
             width: viewport.width, 
-            height: viewport.height 
+            height: viewport.height,
+            transform: viewport.transform as Matrix
           });
           
           if (onCanvasReady) {
@@ -242,6 +365,45 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
     };
   }, [pdfDocument, currentPage, scale]);
   
+  // Lay the text of the page over it while text is being selected
+  useEffect(() => {
+    const container = textLayerRef.current;
+    if (!container) return;
+    container.replaceChildren();
+    textLayerDataRef.current = null;
+    if (!selectText || !pdfDocument) return;
+    
+    let cancelled = false;
+    let task: TextLayerRenderTask | null = null;
+    const renderText = async () => {
+      try {
+        const page = await pdfDocument.getPage(currentPage);
+        const content = await page.getTextContent();
+        if (cancelled) return;
+        const textDivs: HTMLElement[] = [];
+        task = renderTextLayer({
+          textContentSource: content,
+          container,
+          viewport: page.getViewport({ scale }),
+          textDivs
+        });
+        await task.promise;
+        if (!cancelled) {
+          textLayerDataRef.current = { pageText: pageTextFromContent(currentPage, content), textDivs };
+        }
+      } catch (error) {
+        // Cancelling the layout rejects it
+        if (!cancelled) console.error('Error laying out the page text:', error);
+      }
+    };
+    renderText();
+    
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdfDocument, currentPage, scale, selectText]);
+  
   // Draw existing redaction areas on the redaction canvas
   useEffect(() => {
     if (!redactionCanvasRef.current || !pageViewport.width || !pageViewport.height) return;
@@ -259,185 +421,312 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
     
     console.log(`Drawing ${currentPageAreas.length} redaction areas on page ${currentPage}`);
     
+    // Fill a shape as a redaction box, with a pattern overlay to ensure text is obscured
+    const fillRedactionShape = (path: Path2D, bounds: Rect) => {
+      context.fillStyle = REDACTION_SETTINGS.fillStyle;
+      context.fill(path);
+      
+      context.save();
+      context.clip(path);
+      context.fillStyle = 'rgba(0, 0, 0, 0.3)';
+      for (let i = 0; i < bounds.width; i += 6) {
+        for (let j = 0; j < bounds.height; j += 6) {
+          context.fillRect(bounds.x + i, bounds.y + j, 3, 3);
+        }
+      }
+      context.restore();
+    };
+    
+    // Mark the text search hits under the areas
+    highlights
+      .filter(({ area }) => area.pageNumber === currentPage)
+      .forEach(({ area, selected }) => {
+        const path = outlinePath(areaOutline(area).map(point => applyMatrix(pageViewport.transform, point)));
+        context.fillStyle = selected
+          ? REDACTION_SETTINGS.selectedHighlightFillStyle
+          : REDACTION_SETTINGS.highlightFillStyle;
+        context.fill(path);
+        if (selected) {
+          context.strokeStyle = REDACTION_SETTINGS.highlightStrokeStyle;
+          context.lineWidth = 1;
+          context.stroke(path);
+        }
+      });
+    
     // Draw all redaction areas for the current page
     currentPageAreas.forEach((area, index) => {
       console.log(`Drawing redaction area ${index+1}: (${area.x}, ${area.y}) - ${area.width}x${area.height}`);
       
-      // Draw the redaction rectangle with more solid fill
-      context.fillStyle = REDACTION_SETTINGS.fillStyle;
-      context.fillRect(area.x, area.y, area.width, area.height);
+      // Areas are in user space; place them on the page as rendered
+      const outline = areaOutline(area).map(point => applyMatrix(pageViewport.transform, point));
+      const path = outlinePath(outline);
+      const bounds = boundsOfPoints(outline);
       
-      // Add a pattern overlay to ensure text is obscured
-      context.fillStyle = 'rgba(0, 0, 0, 0.3)';
-      for (let i = 0; i < area.width; i += 6) {
-        for (let j = 0; j < area.height; j += 6) {
-          context.fillRect(area.x + i, area.y + j, 3, 3);
-        }
+      // Suggestions waiting to be accepted are only outlined
+      if (area.suggested) {
+        context.fillStyle = REDACTION_SETTINGS.suggestedFillStyle;
+        context.fill(path);
+        context.setLineDash(REDACTION_SETTINGS.suggestedLineDash);
+        context.strokeStyle = REDACTION_SETTINGS.strokeStyle;
+        context.lineWidth = REDACTION_SETTINGS.lineWidth;
+        context.stroke(path);
+        context.setLineDash([]);
+        return;
+      }
+      
+      fillRedactionShape(path, bounds);
+      
+      // Preview the label as it will be burned into the box
+      if (area.label) {
+        drawCanvasRedactionLabel(context, area.label, scaleRect(bounds, 1 / scale), scale);
       }
       
       // Add a border to show the selection
       context.strokeStyle = REDACTION_SETTINGS.strokeStyle;
       context.lineWidth = REDACTION_SETTINGS.lineWidth;
-      context.strokeRect(area.x, area.y, area.width, area.height);
+      context.stroke(path);
     });
     
-    // Draw the current area being created
-    if (isDrawing && currentArea) {
-      console.log(`Drawing active selection: (${currentArea.x}, ${currentArea.y}) - ${currentArea.width}x${currentArea.height}`);
-      
-      // Draw the current selection with more solid fill
-      context.fillStyle = REDACTION_SETTINGS.fillStyle;
-      context.fillRect(
-        currentArea.x, 
-        currentArea.y, 
-        currentArea.width, 
-        currentArea.height
-      );
-      
-      // Add a pattern overlay to ensure text is obscured
-      context.fillStyle = 'rgba(0, 0, 0, 0.3)';
-      for (let i = 0; i < Math.abs(currentArea.width); i += 6) {
-        for (let j = 0; j < Math.abs(currentArea.height); j += 6) {
-          context.fillRect(
-            currentArea.x + (currentArea.width > 0 ? i : -Math.abs(currentArea.width) + i), 
-            currentArea.y + (currentArea.height > 0 ? j : -Math.abs(currentArea.height) + j), 
-            3, 3
-          );
-        }
-      }
-      
-      // Add a border
+    // Mark the suggestion under review
+    if (focusedArea && focusedArea.pageNumber === currentPage) {
+      const path = outlinePath(areaOutline(focusedArea).map(point => applyMatrix(pageViewport.transform, point)));
+      context.strokeStyle = REDACTION_SETTINGS.highlightStrokeStyle;
+      context.lineWidth = REDACTION_SETTINGS.focusLineWidth;
+      context.stroke(path);
+    }
+    
+    // Draw the shape being created
+    const draft = draftShape(drawingShape, currentArea, draftPoints, pointerPos);
+    if (isDrawing && draft) {
+      fillRedactionShape(draft.path, draft.bounds);
       context.strokeStyle = REDACTION_SETTINGS.strokeStyle;
       context.lineWidth = REDACTION_SETTINGS.lineWidth;
-      context.strokeRect(
-        currentArea.x, 
-        currentArea.y, 
-        currentArea.width, 
-        currentArea.height
-      );
+      context.stroke(draft.path);
+      
+      // Mark the first corner of a polygon, which closes it when clicked
+      if (drawingShape === 'polygon' && draftPoints.length > 0) {
+        context.beginPath();
+        context.arc(draftPoints[0].x, draftPoints[0].y, REDACTION_SETTINGS.polygonCloseDistance / 2, 0, 2 * Math.PI);
+        context.stroke();
+      }
     }
-  }, [redactionAreas, currentPage, isDrawing, currentArea, pageViewport]);
+  }, [redactionAreas, highlights, focusedArea, currentPage, isDrawing, currentArea, draftPoints, pointerPos, drawingShape, pageViewport, scale]);
   
-  // Mouse handlers for drawing redaction areas
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!enableDrawing || !redactionCanvasRef.current) return;
+  // Store a finished shape, given in canvas pixels, as an area in user space,
+  // independent of the zoom and rotation
+  const addArea = (points: Point[]) => {
+    const toUserSpace = invertMatrix(pageViewport.transform);
+    if (!toUserSpace) return;
+    
+    const userPoints = points.map(point => applyMatrix(toUserSpace, point));
+    const bounds = boundsOfPoints(userPoints);
+    const area: RedactionArea = drawingShape === 'polygon' || drawingShape === 'freehand'
+      ? { pageNumber: currentPage, ...bounds, shape: drawingShape, points: userPoints }
+      : { pageNumber: currentPage, ...bounds, shape: drawingShape };
     
+    console.log(`Adding ${drawingShape} redaction area: (${area.x}, ${area.y}) - ${area.width}x${area.height} on page ${area.pageNumber}`);
+    
+    // Notify parent component
+    onRedactionAreaCreated(area);
+  };
+  
+  // Whether a shape is large enough to be kept
+  const isLargeEnough = (bounds: Rect) => {
+    const minSize = REDACTION_SETTINGS.minSelectionSize;
+    if (bounds.width > minSize && bounds.height > minSize) return true;
+    console.log(`Redaction area too small (${bounds.width}x${bounds.height}), minimum size is ${minSize}px`);
+    return false;
+  };
+  
+  // Abandon the shape being drawn
+  const cancelDrawing = useCallback(() => {
+    setIsDrawing(false);
+    setStartPos(null);
+    setCurrentArea(null);
+    setDraftPoints([]);
+    setPointerPos(null);
+  }, []);
+  
+  // Close the polygon being drawn, without the repeated corners a double click adds
+  const finishPolygon = (points: Point[]) => {
+    const corners = points.filter((point, i) =>
+      i === 0 || Math.hypot(point.x - points[i - 1].x, point.y - points[i - 1].y) > 1
+    );
+    if (corners.length >= 3 && isLargeEnough(boundsOfPoints(corners))) {
+      addArea(corners);
+    }
+    cancelDrawing();
+  };
+  
+  // A polygon in progress is dropped when the page, the shape or the mode changes
+  useEffect(() => {
+    cancelDrawing();
+  }, [currentPage, drawingShape, selectText, cancelDrawing]);
+  
+  // Escape cancels a polygon in progress
+  useEffect(() => {
+    if (!isDrawing || drawingShape !== 'polygon') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelDrawing();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDrawing, drawingShape, cancelDrawing]);
+  
+  // Position of a pointer event on the redaction canvas
+  const canvasPosition = (clientX: number, clientY: number): Point | null => {
+    if (!redactionCanvasRef.current) return null;
     const rect = redactionCanvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+  
+  // Start a shape, or add a corner to the polygon being drawn
+  const pointerDown = (position: Point) => {
+    console.log(`Pointer down at canvas coordinates: (${position.x}, ${position.y})`);
     
-    console.log(`Mouse down at canvas coordinates: (${x}, ${y})`);
+    if (drawingShape === 'polygon') {
+      const first = draftPoints[0];
+      if (!isDrawing) {
+        setIsDrawing(true);
+        setDraftPoints([position]);
+      } else if (draftPoints.length >= 3 &&
+          Math.hypot(position.x - first.x, position.y - first.y) <= REDACTION_SETTINGS.polygonCloseDistance) {
+        finishPolygon(draftPoints);
+      } else {
+        setDraftPoints([...draftPoints, position]);
+      }
+      return;
+    }
     
     setIsDrawing(true);
-    setStartPos({ x, y });
+    if (drawingShape === 'freehand') {
+      setDraftPoints([position]);
+      return;
+    }
+    
+    setStartPos(position);
     
     // Create initial selection point
     setCurrentArea({
-      pageNumber: currentPage,
-      x,
-      y,
+      x: position.x,
+      y: position.y,
       width: 0,
       height: 0
     });
   };
   
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !startPos || !redactionCanvasRef.current) return;
+  // Follow the pointer with the shape being drawn
+  const pointerMove = (position: Point) => {
+    if (!isDrawing) return;
     
-    const rect = redactionCanvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    if (drawingShape === 'polygon') {
+      setPointerPos(position);
+      return;
+    }
+    
+    if (drawingShape === 'freehand') {
+      const last = draftPoints[draftPoints.length - 1];
+      if (!last || Math.hypot(position.x - last.x, position.y - last.y) >= REDACTION_SETTINGS.freehandPointSpacing) {
+        setDraftPoints([...draftPoints, position]);
+      }
+      return;
+    }
+    
+    if (!startPos) return;
     
     // Update current area
     setCurrentArea({
-      pageNumber: currentPage,
       x: startPos.x,
       y: startPos.y,
-      width: x - startPos.x,
-      height: y - startPos.y
+      width: position.x - startPos.x,
+      height: position.y - startPos.y
     });
   };
   
-  const handleMouseUp = () => {
-    if (!isDrawing || !currentArea) {
+  // Finish a dragged shape; polygons are finished by closing them instead
+  const pointerUp = () => {
+    if (drawingShape === 'polygon') return;
+    
+    if (!isDrawing) {
       setIsDrawing(false);
       return;
     }
     
-    console.log(`Mouse up: Selection finished with dimensions: ${Math.abs(currentArea.width)}x${Math.abs(currentArea.height)}`);
-    
-    // Only add if area has some size
-    const minSize = REDACTION_SETTINGS.minSelectionSize;
-    if (Math.abs(currentArea.width) > minSize && 
-        Math.abs(currentArea.height) > minSize) {
+    if (drawingShape === 'freehand') {
+      const points = simplifyPolyline(draftPoints, REDACTION_SETTINGS.freehandTolerance);
+      if (points.length >= 3 && isLargeEnough(boundsOfPoints(points))) {
+        addArea(points);
+      }
+    } else if (currentArea) {
+      console.log(`Selection finished with dimensions: ${Math.abs(currentArea.width)}x${Math.abs(currentArea.height)}`);
       
       // Normalize the area (ensure width/height are positive)
-      const normalizedArea = {
-        ...currentArea,
-        x: currentArea.width < 0 
-          ? currentArea.x + currentArea.width 
-          : currentArea.x,
-        y: currentArea.height < 0 
-          ? currentArea.y + currentArea.height 
-          : currentArea.y,
-        width: Math.abs(currentArea.width),
-        height: Math.abs(currentArea.height)
-      };
-      
-      console.log(`Adding normalized redaction area: (${normalizedArea.x}, ${normalizedArea.y}) - ${normalizedArea.width}x${normalizedArea.height} on page ${normalizedArea.pageNumber}`);
-      
-      // Notify parent component
-      onRedactionAreaCreated(normalizedArea);
-    } else {
-      console.log(`Redaction area too small (${Math.abs(currentArea.width)}x${Math.abs(currentArea.height)}), minimum size is ${minSize}px`);
+      const bounds = normalizeRect(currentArea);
+      if (isLargeEnough(bounds)) {
+        addArea(rectToPolygon(bounds));
+      }
     }
     
-    setIsDrawing(false);
-    setCurrentArea(null);
+    cancelDrawing();
+  };
+  
+  // Mouse handlers for drawing redaction areas
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!enableDrawing) return;
+    const position = canvasPosition(e.clientX, e.clientY);
+    if (position) pointerDown(position);
+  };
+  
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const position = canvasPosition(e.clientX, e.clientY);
+    if (position) pointerMove(position);
+  };
+  
+  const handleMouseUp = () => {
+    pointerUp();
+  };
+  
+  const handleDoubleClick = () => {
+    if (drawingShape === 'polygon' && isDrawing) {
+      finishPolygon(draftPoints);
+    }
   };
 
   // Handle touch events for mobile devices
   const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!enableDrawing || !redactionCanvasRef.current || e.touches.length !== 1) return;
+    if (!enableDrawing || e.touches.length !== 1) return;
     
     e.preventDefault();
     const touch = e.touches[0];
-    const rect = redactionCanvasRef.current.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
-    
-    setIsDrawing(true);
-    setStartPos({ x, y });
-    
-    setCurrentArea({
-      pageNumber: currentPage,
-      x,
-      y,
-      width: 0,
-      height: 0
-    });
+    const position = canvasPosition(touch.clientX, touch.clientY);
+    if (position) pointerDown(position);
   };
   
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !startPos || !redactionCanvasRef.current || e.touches.length !== 1) return;
+    if (e.touches.length !== 1) return;
     
     e.preventDefault();
     const touch = e.touches[0];
-    const rect = redactionCanvasRef.current.getBoundingClientRect();
-    const x = touch.clientX - rect.left;
-    const y = touch.clientY - rect.top;
-    
-    setCurrentArea({
-      pageNumber: currentPage,
-      x: startPos.x,
-      y: startPos.y,
-      width: x - startPos.x,
-      height: y - startPos.y
-    });
+    const position = canvasPosition(touch.clientX, touch.clientY);
+    if (position) pointerMove(position);
   };
   
   const handleTouchEnd = () => {
-    handleMouseUp(); // Reuse the same logic as mouse up
+    pointerUp(); // Reuse the same logic as mouse up
+  };
+  
+  // Turn the text selected on the page into areas hugging its glyphs
+  const handleTextSelection = () => {
+    const data = textLayerDataRef.current;
+    const selection = window.getSelection();
+    if (!data || !selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    
+    const range = selectedTextRange(selection.getRangeAt(0), data.textDivs, data.pageText);
+    selection.removeAllRanges();
+    if (!range || !onTextSelected) return;
+    
+    const areas = textRangeAreas(data.pageText, range.start, range.end, 'text-selection');
+    if (areas.length > 0) onTextSelected(areas);
   };
   
   // Render error message when renderingError exists
@@ -461,17 +750,30 @@ export const PDFCanvas: React.FC<PDFCanvasProps> = ({
         {/* Overlay canvas for redaction areas */}
         <canvas 
           ref={redactionCanvasRef}
-          className={`absolute top-0 left-0 z-10 ${enableDrawing ? 'cursor-crosshair' : 'cursor-default'}`}
+          className={`absolute top-0 left-0 z-10 ${
+            selectText ? 'pointer-events-none' : enableDrawing ? 'cursor-crosshair' : 'cursor-default'
+          }`}
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onMouseLeave={handleMouseUp}
+          onDoubleClick={handleDoubleClick}
           onTouchStart={handleTouchStart}
           onTouchMove={handleTouchMove}
           onTouchEnd={handleTouchEnd}
           role="application"
           aria-label="Redaction drawing area"
         />
+        
+        {/* Text of the page, laid out by pdf.js, for selecting text to redact */}
+        <div
+          ref={textLayerRef}
+          className={`textLayer z-20 ${selectText ? '' : 'hidden'}`}
+          style={{ '--scale-factor': scale } as React.CSSProperties}
+          onMouseUp={handleTextSelection}
+          onTouchEnd={handleTextSelection}
+          aria-label="Page text"
+        />
       </div>
     </div>
   );
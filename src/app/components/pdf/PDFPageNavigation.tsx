@@ -1,9 +1,15 @@
 import React from 'react';
+import { PageWithholding } from '../../types/pdf';
+import { PAGE_WITHHOLDING_ACTIONS } from '../../constants/pdf';
 
 interface PDFPageNavigationProps {
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
+  /** Pages withheld in full, by page number */
+  withheldPages?: Partial<Record<number, PageWithholding>>;
+  /** Withhold a page in full, or keep it (null) */
+  onPageWithholdingChange?: (pageNumber: number, action: PageWithholding | null) => void;
   disabled?: boolean;
 }
 
@@ -14,8 +20,19 @@ export const PDFPageNavigation: React.FC<PDFPageNavigationProps> = ({
   currentPage,
   totalPages,
   onPageChange,
+  withheldPages = {},
+  onPageWithholdingChange,
   disabled = false
 }) => {
+  const currentWithholding = withheldPages[currentPage];
+  const withheldCount = Object.values(withheldPages).filter(Boolean).length;
+
+  // Handler for choosing what happens to the current page as a whole
+  const handleWithholdingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!onPageWithholdingChange) return;
+    onPageWithholdingChange(currentPage, e.target.value ? e.target.value as PageWithholding : null);
+  };
+
   // Handler for manually entering a page number
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseInt(e.target.value);
@@ -135,8 +152,13 @@ export const PDFPageNavigation: React.FC<PDFPageNavigationProps> = ({
           value={currentPage}
           onChange={handleInputChange}
           disabled={disabled}
-          className="w-12 p-1 text-center border border-gray-300 rounded bg-white text-black font-medium"
+          className={`w-12 p-1 text-center border rounded text-black font-medium ${
+            currentWithholding
+              ? 'border-dashed border-red-500 bg-red-50 line-through'
+              : 'border-gray-300 bg-white'
+          }`}
           aria-label="Current page number"
+          title={currentWithholding ? 'This page is withheld' : undefined}
         />
         <span className="text-black font-medium">of {totalPages}</span>
       </div>
@@ -172,6 +194,33 @@ export const PDFPageNavigation: React.FC<PDFPageNavigationProps> = ({
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
         </svg>
       </button>
+
+      {/* Withholding of the current page as a whole */}
+      {onPageWithholdingChange && (
+        <select
+          value={currentWithholding ?? ''}
+          onChange={handleWithholdingChange}
+          disabled={disabled}
+          className={`p-0.5 text-xs border rounded ${
+            currentWithholding ? 'border-red-400 bg-red-50 text-red-800' : 'border-gray-300 bg-white text-black'
+          }`}
+          aria-label="Withhold the current page"
+          title={PAGE_WITHHOLDING_ACTIONS.find(option => option.value === currentWithholding)?.description
+            ?? 'Withhold this page in full'}
+        >
+          <option value="">Keep page</option>
+          {PAGE_WITHHOLDING_ACTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+      {withheldCount > 0 && (
+        <span className="text-xs text-red-700 whitespace-nowrap">
+          {withheldCount} withheld
+        </span>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
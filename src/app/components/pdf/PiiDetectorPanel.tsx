@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { PiiCategory, RedactionArea } from '../../types/pdf';
+import { PII_CATEGORIES } from '../../constants/pdf';
+import { PageText } from '../../utils/pdfTextIndex';
+import { detectPii, piiMatchAreas } from '../../utils/pdfPiiDetectors';
+
+interface PiiDetectorPanelProps {
+  /** Text of the document, null until it is read */
+  pages: PageText[] | null;
+  /** Reads the document text, once; resolves to null if it cannot be read */
+  loadText: () => Promise<PageText[] | null>;
+  isLoadingText: boolean;
+  loadingProgress: number;
+  textError: Error | null;
+  /** Suggest the areas covering the hits; returns how many were not already present */
+  onSuggestAreas: (areas: RedactionArea[]) => number;
+  disabled?: boolean;
+}
+
+/**
+ * Component for scanning the text of every page for personal data, such as
+ * email addresses and card numbers, with a switch for each kind
+ */
+export const PiiDetectorPanel: React.FC<PiiDetectorPanelProps> = ({
+  pages,
+  loadText,
+  isLoadingText,
+  loadingProgress,
+  textError,
+  onSuggestAreas,
+  disabled = false
+}) => {
+  const [enabled, setEnabled] = useState<Set<PiiCategory>>(new Set(PII_CATEGORIES.map(option => option.value)));
+  // Hits of the last scan by category, and how many of their areas were new
+  const [result, setResult] = useState<{ counts: Partial<Record<PiiCategory, number>>; added: number } | null>(null);
+
+  // The result belongs to the text it was found in
+  useEffect(() => {
+    if (!pages) setResult(null);
+  }, [pages]);
+
+  // Handler for switching one detector on or off
+  const handleToggle = (category: PiiCategory) => {
+    const updated = new Set(enabled);
+    if (updated.has(category)) {
+      updated.delete(category);
+    } else {
+      updated.add(category);
+    }
+    setEnabled(updated);
+  };
+
+  // Handler for scanning the document with the enabled detectors
+  const handleScan = async () => {
+    const text = pages ?? await loadText();
+    if (!text) return;
+    const matches = detectPii(text, [...enabled]);
+    const counts = matches.reduce<Partial<Record<PiiCategory, number>>>((acc, match) => {
+      acc[match.category] = (acc[match.category] ?? 0) + 1;
+      return acc;
+    }, {});
+    const added = onSuggestAreas(matches.flatMap(match => piiMatchAreas(text, match)));
+    setResult({ counts, added });
+  };
+
+  const total = result ? Object.values(result.counts).reduce((sum, count) => sum + (count ?? 0), 0) : 0;
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <div className="grid grid-cols-2 gap-1">
+        {PII_CATEGORIES.map(option => (
+          <label key={option.value} className="flex items-center gap-1" title={option.description}>
+            <input
+              type="checkbox"
+              checked={enabled.has(option.value)}
+              onChange={() => handleToggle(option.value)}
+              disabled={disabled}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={handleScan}
+        disabled={disabled || enabled.size === 0 || isLoadingText}
+        className="w-full px-2 py-1 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 disabled:text-gray-400"
+      >
+        Scan document
+      </button>
+
+      {isLoadingText && (
+        <p className="text-gray-600">Reading the document text… {loadingProgress}%</p>
+      )}
+      {textError && (
+        <p className="text-red-600">The document text could not be read: {textError.message}</p>
+      )}
+
+      {result && (
+        total === 0 ? (
+          <p className="text-gray-500 italic">Nothing found</p>
+        ) : (
+          <div className="space-y-1">
+            <ul className="flex flex-wrap gap-1" aria-label="Detected personal data">
+              {PII_CATEGORIES.filter(option => result.counts[option.value]).map(option => (
+                <li key={option.value} className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">
+                  {option.label} {result.counts[option.value]}
+                </li>
+              ))}
+            </ul>
+            <p className="text-gray-600">
+              {result.added > 0
+                ? `${result.added} ${result.added === 1 ? 'area was' : 'areas were'} added to the suggestions to review.`
+                : 'Every hit is already among the redaction areas.'}
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React from 'react';
+import { RasterColorMode, RasterEncoding, RasterOptions } from '../../types/pdf';
+import { RASTER_COLOR_MODES, RASTER_ENCODINGS, REDACTION_SETTINGS } from '../../constants/pdf';
+
+interface RasterSettingsProps {
+  options: RasterOptions;
+  onOptionsChange: (options: RasterOptions) => void;
+  rasterPageCount: number;
+  estimatedBytes: number | null;
+  disabled?: boolean;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Component for the resolution, colour mode and encoding of rasterised
+ * pages and regions, with an estimate of the output size
+ */
+export const RasterSettings: React.FC<RasterSettingsProps> = ({
+  options,
+  onOptionsChange,
+  rasterPageCount,
+  estimatedBytes,
+  disabled = false
+}) => {
+  // Handler for resolution change
+  const handleDpiChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onOptionsChange({
+      ...options,
+      dpi: parseInt(e.target.value, 10)
+    });
+  };
+
+  // Handler for colour mode change; 1-bit pixels need the bilevel encoding
+  const handleColorModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const colorMode = e.target.value as RasterColorMode;
+    onOptionsChange({
+      ...options,
+      colorMode,
+      encoding: colorMode === 'bilevel' ? 'bilevel' : options.encoding === 'bilevel' ? 'png' : options.encoding
+    });
+  };
+
+  // Handler for encoding change; the bilevel encoding needs 1-bit pixels
+  const handleEncodingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const encoding = e.target.value as RasterEncoding;
+    onOptionsChange({
+      ...options,
+      encoding,
+      colorMode: encoding === 'bilevel' ? 'bilevel' : options.colorMode === 'bilevel' ? 'grayscale' : options.colorMode
+    });
+  };
+
+  // Handler for JPEG quality change
+  const handleJpegQualityChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onOptionsChange({
+      ...options,
+      jpegQuality: parseFloat(e.target.value)
+    });
+  };
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <div>
+        <label htmlFor="raster-dpi" className="block font-medium mb-1">
+          Resolution
+        </label>
+        <select
+          id="raster-dpi"
+          value={options.dpi}
+          onChange={handleDpiChange}
+          disabled={disabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the resolution of rasterised pages"
+        >
+          {REDACTION_SETTINGS.rasterDpiLevels.map(dpi => (
+            <option key={dpi} value={dpi}>
+              {dpi} DPI
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="raster-color-mode" className="block font-medium mb-1">
+          Colour
+        </label>
+        <select
+          id="raster-color-mode"
+          value={options.colorMode}
+          onChange={handleColorModeChange}
+          disabled={disabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the colour mode of rasterised pages"
+        >
+          {RASTER_COLOR_MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="raster-encoding" className="block font-medium mb-1">
+          Encoding
+        </label>
+        <select
+          id="raster-encoding"
+          value={options.encoding}
+          onChange={handleEncodingChange}
+          disabled={disabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the encoding of rasterised pages"
+        >
+          {RASTER_ENCODINGS.map(encoding => (
+            <option key={encoding.value} value={encoding.value}>
+              {encoding.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {options.encoding === 'jpeg' && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label htmlFor="raster-jpeg-quality" className="block font-medium">
+              JPEG quality
+            </label>
+            <span>{Math.round(options.jpegQuality * 100)}%</span>
+          </div>
+          <input
+            id="raster-jpeg-quality"
+            type="range"
+            min="0.3"
+            max="1"
+            step="0.05"
+            value={options.jpegQuality}
+            onChange={handleJpegQualityChange}
+            disabled={disabled}
+            className="w-full"
+            aria-label="Set the JPEG quality of rasterised pages"
+          />
+        </div>
+      )}
+
+      <p className="text-gray-600">
+        {rasterPageCount} page{rasterPageCount !== 1 ? 's' : ''} with rasterised content
+        {estimatedBytes !== null && <>, estimated output about {formatBytes(estimatedBytes)}</>}
+      </p>
+    </div>
+  );
+};
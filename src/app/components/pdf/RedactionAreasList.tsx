@@ -1,10 +1,29 @@
-import React from 'react';
-import { RedactionArea } from '../../types/pdf';
+import React, { useState } from 'react';
+import { PageWithholding, PiiCategory, RedactionArea } from '../../types/pdf';
+import { PAGE_WITHHOLDING_ACTIONS, PII_CATEGORIES, REDACTION_AREA_ORIGINS, REDACTION_SHAPES } from '../../constants/pdf';
+import { listWithheldPages } from '../../utils/pdfPageWithholding';
+import { Rect } from '../../utils/pdfGeometry';
+import { RedactionRepeatForm } from './RedactionRepeatForm';
 
 interface RedactionAreasListProps {
   redactionAreas: RedactionArea[];
   onRemoveArea: (index: number) => void;
   onGotoArea?: (area: RedactionArea) => void;
+  onLabelChange?: (index: number, text: string) => void;
+  /** Accept a suggested area so that it is applied; null accepts all of them */
+  onAcceptArea?: (index: number | null) => void;
+  /** Pages withheld in full, by page number; their areas are not applied */
+  withheldPages?: Partial<Record<number, PageWithholding>>;
+  /** Keep a withheld page after all */
+  onKeepPage?: (pageNumber: number) => void;
+  onGotoPage?: (pageNumber: number) => void;
+  /** Repeat an area on other pages as linked copies */
+  onRepeatArea?: (index: number, pageNumbers: number[]) => void;
+  /** Move or resize an area, and its linked copies with it */
+  onAreaBoundsChange?: (index: number, bounds: Rect) => void;
+  /** Detach an area from its linked copies */
+  onUnlinkArea?: (index: number) => void;
+  totalPages?: number;
   currentPage?: number;
 }
 
@@ -15,27 +34,55 @@ export const RedactionAreasList: React.FC<RedactionAreasListProps> = ({
   redactionAreas,
   onRemoveArea,
   onGotoArea,
+  onLabelChange,
+  onAcceptArea,
+  withheldPages = {},
+  onKeepPage,
+  onGotoPage,
+  onRepeatArea,
+  onAreaBoundsChange,
+  onUnlinkArea,
+  totalPages = 0,
   currentPage
 }) => {
+  // Kind of detected personal data to list, if any
+  const [categoryFilter, setCategoryFilter] = useState<PiiCategory | null>(null);
+
   // Sort areas by page number
   const sortedAreas = [...redactionAreas].sort((a, b) => {
     if (a.pageNumber !== b.pageNumber) {
       return a.pageNumber - b.pageNumber;
     }
-    // If on the same page, sort by position (top to bottom, left to right)
-    if (Math.abs(a.y - b.y) > 20) {
-      return a.y - b.y;
+    // If on the same page, sort by position (top to bottom, left to right);
+    // y grows upwards in user space
+    const aTop = a.y + a.height;
+    const bTop = b.y + b.height;
+    if (Math.abs(aTop - bTop) > 20) {
+      return bTop - aTop;
     }
     return a.x - b.x;
   });
 
+  // Number of detected areas of each kind of personal data
+  const categoryCounts = redactionAreas.reduce<Partial<Record<PiiCategory, number>>>((acc, area) => {
+    if (area.category) acc[area.category] = (acc[area.category] ?? 0) + 1;
+    return acc;
+  }, {});
+  const presentCategories = PII_CATEGORIES.filter(option => categoryCounts[option.value]);
+
+  // Kind of personal data to list the areas of, on every page; none once its areas are gone
+  const activeCategory = categoryFilter && categoryCounts[categoryFilter] ? categoryFilter : null;
+  const filteredAreas = activeCategory
+    ? sortedAreas.filter(area => area.category === activeCategory)
+    : sortedAreas;
+
   // Filter areas to show all or only current page
   const areasToShow = currentPage 
-    ? sortedAreas.filter(area => area.pageNumber === currentPage)
-    : sortedAreas;
+    ? filteredAreas.filter(area => area.pageNumber === currentPage)
+    : filteredAreas;
 
   // Group areas by page
-  const areasByPage = sortedAreas.reduce<Record<number, RedactionArea[]>>((acc, area) => {
+  const areasByPage = filteredAreas.reduce<Record<number, RedactionArea[]>>((acc, area) => {
     const page = area.pageNumber;
     if (!acc[page]) {
       acc[page] = [];
@@ -45,7 +92,19 @@ export const RedactionAreasList: React.FC<RedactionAreasListProps> = ({
   }, {});
 
   // Get number of pages with redactions
-  const pagesWithRedactions = Object.keys(areasByPage).length;
+  const pagesWithRedactions = new Set(redactionAreas.map(area => area.pageNumber)).size;
+
+  // Suggestions the user has not accepted yet
+  const suggestedCount = redactionAreas.filter(area => area.suggested).length;
+
+  // Number of areas in each group of linked copies
+  const linkCounts = redactionAreas.reduce<Record<string, number>>((acc, area) => {
+    if (area.linkId) acc[area.linkId] = (acc[area.linkId] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  // Pages withheld in full, in page order
+  const withheldList = listWithheldPages(withheldPages);
 
   // Handle clicking on an area to navigate to it
   const handleAreaClick = (area: RedactionArea) => {
@@ -56,6 +115,44 @@ export const RedactionAreasList: React.FC<RedactionAreasListProps> = ({
 
   return (
     <div className="p-2">
+      {withheldList.length > 0 && (
+        <div className="mb-3 space-y-1">
+          <div className="text-sm text-gray-600 px-2 font-semibold">
+            {withheldList.length} {withheldList.length === 1 ? 'page' : 'pages'} withheld
+          </div>
+          {withheldList.map(({ pageNumber, action }) => (
+            <div
+              key={pageNumber}
+              className={`flex justify-between items-center p-2 rounded border border-dashed border-red-400 ${
+                currentPage === pageNumber ? 'bg-red-100' : 'bg-red-50'
+              }`}
+              role="listitem"
+            >
+              <span
+                className={`text-xs font-medium text-black ${onGotoPage ? 'cursor-pointer hover:underline' : ''}`}
+                onClick={onGotoPage ? () => onGotoPage(pageNumber) : undefined}
+                title={PAGE_WITHHOLDING_ACTIONS.find(option => option.value === action)?.description}
+              >
+                Page {pageNumber}
+                <span className="text-red-700 ml-1">
+                  {PAGE_WITHHOLDING_ACTIONS.find(option => option.value === action)?.label}
+                </span>
+              </span>
+              {onKeepPage && (
+                <button
+                  onClick={() => onKeepPage(pageNumber)}
+                  className="text-red-500 hover:text-red-700 p-1 ml-1 flex-shrink-0"
+                  aria-label={`Keep page ${pageNumber}`}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
       {redactionAreas.length === 0 ? (
         <p className="text-sm text-gray-500 italic p-2">
           No redaction areas selected. Draw on the document to add redactions.
@@ -65,34 +162,83 @@ export const RedactionAreasList: React.FC<RedactionAreasListProps> = ({
           <div className="text-sm text-gray-600 px-2 font-semibold">
             {redactionAreas.length} {redactionAreas.length === 1 ? 'area' : 'areas'} on {pagesWithRedactions} {pagesWithRedactions === 1 ? 'page' : 'pages'}
           </div>
-          {currentPage ? (
+          {suggestedCount > 0 && (
+            <div className="flex items-center justify-between gap-2 px-2 text-xs text-amber-800">
+              <span>
+                {suggestedCount} suggested {suggestedCount === 1 ? 'area is' : 'areas are'} not applied until accepted
+              </span>
+              {onAcceptArea && (
+                <button
+                  onClick={() => onAcceptArea(null)}
+                  className="flex-shrink-0 px-2 py-0.5 rounded border border-amber-300 bg-amber-50 hover:bg-amber-100"
+                >
+                  Accept all
+                </button>
+              )}
+            </div>
+          )}
+          {presentCategories.length > 0 && (
+            <div className="flex flex-wrap gap-1 px-2 text-xs" role="group" aria-label="Show detected areas of one kind">
+              {[{ value: null, label: 'All areas' }, ...presentCategories].map(option => (
+                <button
+                  key={option.value ?? 'all'}
+                  onClick={() => setCategoryFilter(option.value)}
+                  className={`px-1.5 py-0.5 rounded border ${
+                    activeCategory === option.value
+                      ? 'border-amber-400 bg-amber-100 text-amber-900'
+                      : 'border-gray-300 bg-white text-black hover:bg-gray-100'
+                  }`}
+                  aria-pressed={activeCategory === option.value}
+                >
+                  {option.label}{option.value && ` ${categoryCounts[option.value]}`}
+                </button>
+              ))}
+            </div>
+          )}
+          {currentPage && !activeCategory ? (
             // Show only areas on current page
-            areasToShow.map((area, index) => (
+            areasToShow.map(area => (
               <RedactionAreaItem
-                key={`${area.pageNumber}-${area.x}-${area.y}-${index}`}
+                key={redactionAreas.indexOf(area)}
                 area={area}
                 index={redactionAreas.indexOf(area)}
                 onRemove={onRemoveArea}
+                onLabelChange={onLabelChange}
+                onAccept={onAcceptArea}
                 onClick={onGotoArea ? handleAreaClick : undefined}
                 isCurrentPage={true}
+                isPageWithheld={Boolean(withheldPages[area.pageNumber])}
+                linkedCount={area.linkId ? linkCounts[area.linkId] : 0}
+                onRepeat={onRepeatArea && totalPages > 1 ? onRepeatArea : undefined}
+                onBoundsChange={onAreaBoundsChange}
+                onUnlink={onUnlinkArea}
+                totalPages={totalPages}
               />
             ))
           ) : (
-            // Show by page number
+            // Show by page number, such as every area of the chosen kind
             Object.entries(areasByPage).map(([pageNum, areas]: [string, RedactionArea[]]) => (
               <div key={pageNum} className="mb-3">
                 <h4 className="text-sm font-semibold mb-2 text-black px-2">
                   Page {pageNum} ({areas.length} {areas.length === 1 ? 'area' : 'areas'})
                 </h4>
                 <div className="space-y-2">
-                  {areas.map((area: RedactionArea, index: number) => (
+                  {areas.map((area: RedactionArea) => (
                     <RedactionAreaItem
-                      key={`${area.pageNumber}-${area.x}-${area.y}-${index}`}
+                      key={redactionAreas.indexOf(area)}
                       area={area}
                       index={redactionAreas.indexOf(area)}
                       onRemove={onRemoveArea}
+                      onLabelChange={onLabelChange}
+                      onAccept={onAcceptArea}
                       onClick={onGotoArea ? handleAreaClick : undefined}
                       isCurrentPage={currentPage === area.pageNumber}
+                      isPageWithheld={Boolean(withheldPages[area.pageNumber])}
+                      linkedCount={area.linkId ? linkCounts[area.linkId] : 0}
+                      onRepeat={onRepeatArea && totalPages > 1 ? onRepeatArea : undefined}
+                      onBoundsChange={onAreaBoundsChange}
+                      onUnlink={onUnlinkArea}
+                      totalPages={totalPages}
                     />
                   ))}
                 </div>
@@ -110,47 +256,206 @@ interface RedactionAreaItemProps {
   area: RedactionArea;
   index: number;
   onRemove: (index: number) => void;
+  onLabelChange?: (index: number, text: string) => void;
+  onAccept?: (index: number) => void;
   onClick?: (area: RedactionArea) => void;
   isCurrentPage: boolean;
+  /** The page of the area is withheld in full, so the area itself is not applied */
+  isPageWithheld?: boolean;
+  /** Number of linked copies including this one, 0 when the area is not linked */
+  linkedCount?: number;
+  onRepeat?: (index: number, pageNumbers: number[]) => void;
+  onBoundsChange?: (index: number, bounds: Rect) => void;
+  onUnlink?: (index: number) => void;
+  totalPages?: number;
 }
 
+// Fields of the bounding box editor, in points
+const BOUNDS_FIELDS: { key: keyof Rect; label: string }[] = [
+  { key: 'x', label: 'X' },
+  { key: 'y', label: 'Y' },
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' }
+];
+
 const RedactionAreaItem: React.FC<RedactionAreaItemProps> = ({
   area,
   index,
   onRemove,
+  onLabelChange,
+  onAccept,
   onClick,
-  isCurrentPage
+  isCurrentPage,
+  isPageWithheld = false,
+  linkedCount = 0,
+  onRepeat,
+  onBoundsChange,
+  onUnlink,
+  totalPages = 0
 }) => {
+  // Inline editor that is open, if any
+  const [editor, setEditor] = useState<'repeat' | 'bounds' | null>(null);
+
+  // Areas other than rectangles are named by their shape, polygons with their corner count
+  const shapeLabel = area.shape && area.shape !== 'rectangle'
+    ? REDACTION_SHAPES.find(option => option.value === area.shape)?.label
+    : null;
+  const shapeDetail = area.shape === 'polygon' || area.shape === 'freehand'
+    ? `${shapeLabel}, ${area.points.length} points`
+    : shapeLabel;
+  const position = `(${Math.round(area.x)}, ${Math.round(area.y)}) - ${Math.round(area.width)} × ${Math.round(area.height)}`;
+
+  // Handler for a change of one side of the bounding box; sizes must stay positive
+  const handleBoundsChange = (key: keyof Rect, e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!onBoundsChange || !Number.isFinite(value)) return;
+    if ((key === 'width' || key === 'height') && value <= 0) return;
+    onBoundsChange(index, { x: area.x, y: area.y, width: area.width, height: area.height, [key]: value });
+  };
+
   return (
     <div 
-      className={`flex justify-between items-center p-2 rounded ${
-        isCurrentPage 
-          ? 'bg-blue-50 border border-blue-200' 
-          : 'bg-gray-50 border border-gray-200'
+      className={`p-2 rounded ${isPageWithheld ? 'opacity-60 ' : ''}${
+        area.suggested
+          ? 'bg-amber-50 border border-dashed border-amber-400'
+          : isCurrentPage 
+            ? 'bg-blue-50 border border-blue-200' 
+            : 'bg-gray-50 border border-gray-200'
       }`}
       role="listitem"
     >
-      <div className="flex items-center overflow-hidden">
-        <span className="w-6 h-6 flex-shrink-0 flex items-center justify-center rounded-full bg-gray-200 mr-2 text-xs font-medium text-black">
-          {index + 1}
-        </span>
-        <span 
-          className={`text-xs font-medium text-black ${onClick ? 'cursor-pointer hover:underline' : ''}`}
-          onClick={onClick ? () => onClick(area) : undefined}
-          title={`(${Math.round(area.x)}, ${Math.round(area.y)}) - ${Math.round(area.width)} × ${Math.round(area.height)}`}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center overflow-hidden">
+          <span className="w-6 h-6 flex-shrink-0 flex items-center justify-center rounded-full bg-gray-200 mr-2 text-xs font-medium text-black">
+            {index + 1}
+          </span>
+          <span 
+            className={`text-xs font-medium text-black ${onClick ? 'cursor-pointer hover:underline' : ''}`}
+            onClick={onClick ? () => onClick(area) : undefined}
+            title={shapeDetail ? `${shapeDetail}: ${position}` : position}
+          >
+            {shapeLabel && <span className="text-gray-500 mr-1">{shapeLabel}</span>}
+            {position}
+          </span>
+        </div>
+        <button
+          onClick={() => onRemove(index)}
+          className="text-red-500 hover:text-red-700 p-1 ml-1 flex-shrink-0"
+          aria-label={`Remove redaction area ${index + 1}`}
         >
-          ({Math.round(area.x)}, {Math.round(area.y)}) - {Math.round(area.width)} × {Math.round(area.height)}
-        </span>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
       </div>
-      <button
-        onClick={() => onRemove(index)}
-        className="text-red-500 hover:text-red-700 p-1 ml-1 flex-shrink-0"
-        aria-label={`Remove redaction area ${index + 1}`}
-      >
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
-          <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
-        </svg>
-      </button>
+      {((area.origin && area.origin !== 'drawn') || area.category || area.suggested || isPageWithheld || linkedCount > 1) && (
+        <div className="mt-1 flex flex-wrap items-center justify-between gap-2">
+          {linkedCount > 1 && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-blue-100 text-[10px] text-blue-800"
+              title="Moving or resizing this area changes its copies on other pages too"
+            >
+              Linked · {linkedCount} pages
+              {onUnlink && (
+                <button
+                  onClick={() => onUnlink(index)}
+                  className="ml-1 underline hover:text-blue-600"
+                  aria-label={`Unlink redaction area ${index + 1} from its copies`}
+                >
+                  unlink
+                </button>
+              )}
+            </span>
+          )}
+          {isPageWithheld && (
+            <span className="px-1.5 py-0.5 rounded bg-red-100 text-[10px] text-red-700">
+              Page withheld
+            </span>
+          )}
+          {area.origin && area.origin !== 'drawn' && (
+            <span className="px-1.5 py-0.5 rounded bg-gray-200 text-[10px] text-gray-700">
+              {REDACTION_AREA_ORIGINS[area.origin]}
+            </span>
+          )}
+          {area.category && (
+            <span className="px-1.5 py-0.5 rounded bg-amber-100 text-[10px] text-amber-800">
+              {PII_CATEGORIES.find(option => option.value === area.category)?.label}
+            </span>
+          )}
+          {area.suggested && onAccept && (
+            <button
+              onClick={() => onAccept(index)}
+              className="ml-auto px-2 py-0.5 rounded border border-amber-300 bg-white text-xs text-amber-800 hover:bg-amber-100"
+              aria-label={`Accept redaction area ${index + 1}`}
+            >
+              Accept
+            </button>
+          )}
+        </div>
+      )}
+      {(onRepeat || onBoundsChange) && (
+        <div className="mt-1 flex gap-1 text-xs">
+          {onBoundsChange && (
+            <button
+              onClick={() => setEditor(editor === 'bounds' ? null : 'bounds')}
+              className={`px-2 py-0.5 rounded border border-gray-300 ${editor === 'bounds' ? 'bg-gray-200' : 'bg-white hover:bg-gray-100'} text-black`}
+              aria-expanded={editor === 'bounds'}
+            >
+              Resize
+            </button>
+          )}
+          {onRepeat && (
+            <button
+              onClick={() => setEditor(editor === 'repeat' ? null : 'repeat')}
+              className={`px-2 py-0.5 rounded border border-gray-300 ${editor === 'repeat' ? 'bg-gray-200' : 'bg-white hover:bg-gray-100'} text-black`}
+              aria-expanded={editor === 'repeat'}
+            >
+              Repeat…
+            </button>
+          )}
+        </div>
+      )}
+      {editor === 'bounds' && onBoundsChange && (
+        <div className="mt-1 grid grid-cols-4 gap-1 text-xs text-black">
+          {BOUNDS_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col">
+              <span className="text-gray-500">{field.label}</span>
+              <input
+                type="number"
+                step="1"
+                min={field.key === 'width' || field.key === 'height' ? '1' : undefined}
+                value={Math.round(area[field.key] * 10) / 10}
+                onChange={e => handleBoundsChange(field.key, e)}
+                className="w-full border border-gray-300 rounded px-0.5 py-0.5 bg-white"
+                aria-label={`${field.label} of redaction area ${index + 1} in points`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      {editor === 'repeat' && onRepeat && (
+        <RedactionRepeatForm
+          areaNumber={index + 1}
+          pageNumber={area.pageNumber}
+          totalPages={totalPages}
+          onRepeat={pageNumbers => {
+            onRepeat(index, pageNumbers);
+            setEditor(null);
+          }}
+          onCancel={() => setEditor(null)}
+        />
+      )}
+      {onLabelChange && (
+        <input
+          type="text"
+          list="redaction-label-presets"
+          value={area.label?.text ?? ''}
+          onChange={e => onLabelChange(index, e.target.value)}
+          placeholder="No label"
+          className="mt-1 w-full border border-gray-300 rounded px-1 py-0.5 bg-white text-xs text-black"
+          aria-label={`Label of redaction area ${index + 1}`}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,17 +1,26 @@
 import React from 'react';
-import { RedactionOptions } from '../../types/pdf';
+import { RedactionBoxOptions, RedactionMode } from '../../types/pdf';
+import { REDACTION_MODES } from '../../constants/pdf';
 
 interface RedactionControlsProps {
-  options: RedactionOptions;
-  onOptionsChange: (options: RedactionOptions) => void;
+  options: RedactionBoxOptions;
+  onOptionsChange: (options: RedactionBoxOptions) => void;
   onApplyRedactions: () => void;
   onClearRedactions: () => void;
   redactionCount: number;
+  /** All areas, suggestions included, which Clear All removes */
+  areaCount?: number;
+  /** Pages withheld in full, which can be applied without any areas */
+  withheldPageCount?: number;
+  /** Pages with areas that are redacted in place, which keep their content when removal is off */
+  vectorPageCount?: number;
   isProcessing?: boolean;
 }
 
 /**
- * Component for controlling PDF redaction options
+ * Component for controlling PDF redaction options: the colour and opacity of
+ * the boxes, whether the content underneath is removed and whether each box
+ * is recorded as an annotation
  */
 export const RedactionControls: React.FC<RedactionControlsProps> = ({
   options,
@@ -19,8 +28,19 @@ export const RedactionControls: React.FC<RedactionControlsProps> = ({
   onApplyRedactions,
   onClearRedactions,
   redactionCount,
+  areaCount = redactionCount,
+  withheldPageCount = 0,
+  vectorPageCount = 0,
   isProcessing = false
 }) => {
+  // Handler for export mode change
+  const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onOptionsChange({
+      ...options,
+      mode: e.target.value as RedactionMode
+    });
+  };
+
   // Handler for color change
   const handleColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onOptionsChange({
@@ -53,24 +73,56 @@ export const RedactionControls: React.FC<RedactionControlsProps> = ({
     });
   };
 
+  const markup = options.mode === 'markup';
+  const nothingToApply = redactionCount === 0 && withheldPageCount === 0;
+  const modeDescription = REDACTION_MODES.find(mode => mode.value === options.mode)?.description;
+  // Content left on vector pages stays in the file, and under a see-through box stays readable
+  const contentKept = !markup && !options.removeContent && vectorPageCount > 0;
+  const contentVisible = !markup && !options.removeContent && options.opacity < 1;
+
   return (
-    <div className="bg-white p-4 rounded shadow-md">
-      <h3 className="text-lg font-medium mb-3">Redaction Options</h3>
-      
-      <div className="space-y-4">
+    <div className="p-2 text-xs text-black">
+      <div className="space-y-2">
         {/* Display number of redaction areas */}
-        <div className="text-sm">
+        <div>
           <span className="font-medium">
             {redactionCount === 0 
               ? 'No redaction areas selected' 
               : `${redactionCount} redaction area${redactionCount !== 1 ? 's' : ''} selected`}
           </span>
+          {withheldPageCount > 0 && (
+            <span className="block text-red-700">
+              {withheldPageCount} page{withheldPageCount !== 1 ? 's' : ''} withheld in full
+            </span>
+          )}
+        </div>
+        
+        {/* Export mode */}
+        <div>
+          <label htmlFor="redaction-mode" className="block font-medium mb-1">
+            Export:
+          </label>
+          <select
+            id="redaction-mode"
+            value={options.mode}
+            onChange={handleModeChange}
+            disabled={isProcessing}
+            className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+            aria-label="Select whether redactions are applied or only marked up"
+          >
+            {REDACTION_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>
+                {mode.label}
+              </option>
+            ))}
+          </select>
+          {modeDescription && <p className="text-gray-600 mt-1">{modeDescription}</p>}
         </div>
         
         {/* Redaction color picker */}
         <div className="flex items-center justify-between">
-          <label htmlFor="redaction-color" className="block text-sm font-medium">
-            Redaction Color:
+          <label htmlFor="redaction-color" className="block font-medium">
+            {markup ? 'Fill when applied:' : 'Redaction Color:'}
           </label>
           <div className="flex items-center">
             <input
@@ -79,85 +131,108 @@ export const RedactionControls: React.FC<RedactionControlsProps> = ({
               value={options.color}
               onChange={handleColorChange}
               disabled={isProcessing}
-              className="w-8 h-8 border border-gray-300 rounded"
+              className="w-8 h-6 border border-gray-300 rounded"
               aria-label="Select redaction color"
             />
-            <span className="ml-2 text-sm">{options.color}</span>
-          </div>
-        </div>
-        
-        {/* Opacity slider */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <label htmlFor="redaction-opacity" className="block text-sm font-medium">
-              Opacity:
-            </label>
-            <span className="text-sm">{Math.round(options.opacity * 100)}%</span>
+            <span className="ml-2">{options.color}</span>
           </div>
-          <input
-            id="redaction-opacity"
-            type="range"
-            min="0"
-            max="1"
-            step="0.05"
-            value={options.opacity}
-            onChange={handleOpacityChange}
-            disabled={isProcessing}
-            className="w-full"
-            aria-label="Set redaction opacity"
-          />
         </div>
         
-        {/* Remove content checkbox */}
-        <div className="flex items-center">
-          <input
-            id="remove-content"
-            type="checkbox"
-            checked={options.removeContent}
-            onChange={handleRemoveContentChange}
-            disabled={isProcessing}
-            className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
-          />
-          <label htmlFor="remove-content" className="ml-2 block text-sm">
-            Remove underlying content
-          </label>
-        </div>
+        {/* Only applied redactions have an opacity, content removal and record annotations */}
+        {!markup && (
+          <>
+            {/* Opacity slider */}
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <label htmlFor="redaction-opacity" className="block font-medium">
+                  Opacity:
+                </label>
+                <span>{Math.round(options.opacity * 100)}%</span>
+              </div>
+              <input
+                id="redaction-opacity"
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={options.opacity}
+                onChange={handleOpacityChange}
+                disabled={isProcessing}
+                className="w-full"
+                aria-label="Set redaction opacity"
+              />
+            </div>
+          
+            {/* Remove content checkbox */}
+            <div className="flex items-center">
+              <input
+                id="remove-content"
+                type="checkbox"
+                checked={options.removeContent}
+                onChange={handleRemoveContentChange}
+                disabled={isProcessing}
+                className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              <label htmlFor="remove-content" className="ml-2 block">
+                Remove underlying content
+              </label>
+            </div>
+            {!options.removeContent && (
+              <p className="text-gray-600">
+                Pages using region rasterisation always have the content under their boxes removed
+              </p>
+            )}
+          
+            {/* Add annotation checkbox */}
+            <div className="flex items-center">
+              <input
+                id="add-annotation"
+                type="checkbox"
+                checked={options.addAnnotation}
+                onChange={handleAddAnnotationChange}
+                disabled={isProcessing}
+                className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              <label htmlFor="add-annotation" className="ml-2 block">
+                Add redaction annotation
+              </label>
+            </div>
+          
+          </>
+        )}
         
-        {/* Add annotation checkbox */}
-        <div className="flex items-center">
-          <input
-            id="add-annotation"
-            type="checkbox"
-            checked={options.addAnnotation}
-            onChange={handleAddAnnotationChange}
-            disabled={isProcessing}
-            className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
-          />
-          <label htmlFor="add-annotation" className="ml-2 block text-sm">
-            Add redaction annotation
-          </label>
-        </div>
+        {contentKept && (
+          <p className="text-red-600">
+            The text and images under the boxes on {vectorPageCount} page{vectorPageCount !== 1 ? 's' : ''} using
+            vector removal stay in the file and can still be selected, copied and searched
+          </p>
+        )}
+        {contentVisible && (
+          <p className="text-red-600">
+            The content under the boxes is kept and shows through them
+          </p>
+        )}
         
         {/* Action buttons */}
-        <div className="flex space-x-2 pt-2">
+        <div className="flex space-x-2 pt-1">
           <button
             onClick={onApplyRedactions}
-            disabled={redactionCount === 0 || isProcessing}
-            className={`px-4 py-2 rounded text-white ${
-              redactionCount === 0 || isProcessing
+            disabled={nothingToApply || isProcessing}
+            className={`px-2 py-1 rounded text-white ${
+              nothingToApply || isProcessing
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-blue-600 hover:bg-blue-700'
             }`}
             aria-label="Apply redactions"
           >
-            {isProcessing ? 'Processing...' : 'Apply Redactions'}
+            {isProcessing ? 'Processing...' : markup ? 'Export Mark-up' : 'Apply Redactions'}
           </button>
           
           <button
             onClick={onClearRedactions}
-            disabled={redactionCount === 0 || isProcessing}
-            className={`px-4 py-2 rounded ${
-              redactionCount === 0 || isProcessing
+            disabled={areaCount === 0 || isProcessing}
+            className={`px-2 py-1 rounded ${
+              areaCount === 0 || isProcessing
                 ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
                 : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
             }`}
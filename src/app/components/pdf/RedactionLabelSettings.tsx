@@ -0,0 +1,182 @@
+import React from 'react';
+import { RedactionLabel, RedactionLabelFont } from '../../types/pdf';
+import { REDACTION_LABEL_FONTS, REDACTION_LABEL_PRESETS } from '../../constants/pdf';
+
+interface RedactionLabelSettingsProps {
+  label: RedactionLabel;
+  onLabelChange: (label: RedactionLabel) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onApplyToAll: () => void;
+  areaCount: number;
+  disabled?: boolean;
+}
+
+/**
+ * Component for the overlay text given to new redaction boxes: the text,
+ * such as an exemption code, and its font, size, colour and fitting
+ */
+export const RedactionLabelSettings: React.FC<RedactionLabelSettingsProps> = ({
+  label,
+  onLabelChange,
+  enabled,
+  onEnabledChange,
+  onApplyToAll,
+  areaCount,
+  disabled = false
+}) => {
+  const fieldsDisabled = disabled || !enabled;
+
+  // Handler for text change
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onLabelChange({
+      ...label,
+      text: e.target.value
+    });
+  };
+
+  // Handler for font change
+  const handleFontChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onLabelChange({
+      ...label,
+      font: e.target.value as RedactionLabelFont
+    });
+  };
+
+  // Handler for font size change; empty or invalid input is ignored
+  const handleFontSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fontSize = parseFloat(e.target.value);
+    if (!Number.isFinite(fontSize) || fontSize <= 0) return;
+    onLabelChange({
+      ...label,
+      fontSize
+    });
+  };
+
+  // Handler for colour change
+  const handleColorChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onLabelChange({
+      ...label,
+      color: e.target.value
+    });
+  };
+
+  // Handler for switching fitting on or off
+  const handleAutoFitChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onLabelChange({
+      ...label,
+      autoFit: e.target.checked
+    });
+  };
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <label className="flex items-center gap-2 font-medium">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={e => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          aria-label="Label new redaction boxes"
+        />
+        Label new boxes
+      </label>
+
+      <div>
+        <label htmlFor="redaction-label-text" className="block font-medium mb-1">
+          Text
+        </label>
+        <input
+          id="redaction-label-text"
+          type="text"
+          list="redaction-label-presets"
+          value={label.text}
+          onChange={handleTextChange}
+          disabled={fieldsDisabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Label text or exemption code"
+        />
+        <datalist id="redaction-label-presets">
+          {REDACTION_LABEL_PRESETS.map(preset => (
+            <option key={preset} value={preset} />
+          ))}
+        </datalist>
+      </div>
+
+      <div>
+        <label htmlFor="redaction-label-font" className="block font-medium mb-1">
+          Font
+        </label>
+        <select
+          id="redaction-label-font"
+          value={label.font}
+          onChange={handleFontChange}
+          disabled={fieldsDisabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the font of the label"
+        >
+          {REDACTION_LABEL_FONTS.map(font => (
+            <option key={font.value} value={font.value}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <label htmlFor="redaction-label-size" className="block font-medium mb-1">
+            {label.autoFit ? 'Max size' : 'Size'}
+          </label>
+          <input
+            id="redaction-label-size"
+            type="number"
+            min="1"
+            max="72"
+            step="0.5"
+            value={label.fontSize}
+            onChange={handleFontSizeChange}
+            disabled={fieldsDisabled}
+            className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+            aria-label="Font size of the label in points"
+          />
+        </div>
+        <div>
+          <label htmlFor="redaction-label-color" className="block font-medium mb-1">
+            Colour
+          </label>
+          <input
+            id="redaction-label-color"
+            type="color"
+            value={label.color}
+            onChange={handleColorChange}
+            disabled={fieldsDisabled}
+            className="w-10 h-6 border border-gray-300 rounded"
+            aria-label="Colour of the label"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={label.autoFit}
+          onChange={handleAutoFitChange}
+          disabled={fieldsDisabled}
+          aria-label="Shrink the label to fit its box"
+        />
+        Shrink to fit the box
+      </label>
+
+      {areaCount > 0 && (
+        <button
+          onClick={onApplyToAll}
+          disabled={fieldsDisabled}
+          className="w-full px-2 py-1 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 disabled:text-gray-400"
+        >
+          Apply to all {areaCount} area{areaCount !== 1 ? 's' : ''}
+        </button>
+      )}
+    </div>
+  );
+};
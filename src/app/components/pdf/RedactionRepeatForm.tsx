@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { RepeatScope } from '../../types/pdf';
+import { REPEAT_SCOPES } from '../../constants/pdf';
+import { selectRepeatPages } from '../../utils/pdfAreaRepeat';
+
+interface RedactionRepeatFormProps {
+  /** Number of the area, for labelling the fields */
+  areaNumber: number;
+  /** Page the area is on, which is not repeated onto */
+  pageNumber: number;
+  totalPages: number;
+  onRepeat: (pageNumbers: number[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Component for choosing the pages an area is repeated on: all pages, a
+ * range such as "2-40", or the odd or even pages
+ */
+export const RedactionRepeatForm: React.FC<RedactionRepeatFormProps> = ({
+  areaNumber,
+  pageNumber,
+  totalPages,
+  onRepeat,
+  onCancel
+}) => {
+  const [scope, setScope] = useState<RepeatScope>('all');
+  const [range, setRange] = useState<string>('');
+  const selectedPages = selectRepeatPages(scope, range, totalPages);
+  const pageNumbers = selectedPages?.filter(page => page !== pageNumber) ?? null;
+
+  // Handler for repeating the area on the selected pages
+  const handleRepeat = () => {
+    if (pageNumbers && pageNumbers.length > 0) onRepeat(pageNumbers);
+  };
+
+  return (
+    <div className="mt-1 p-1 space-y-1 rounded border border-gray-300 bg-white text-xs text-black">
+      <select
+        value={scope}
+        onChange={e => setScope(e.target.value as RepeatScope)}
+        className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+        aria-label={`Pages to repeat redaction area ${areaNumber} on`}
+      >
+        {REPEAT_SCOPES.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {scope === 'range' && (
+        <input
+          type="text"
+          value={range}
+          onChange={e => setRange(e.target.value)}
+          placeholder={`e.g. 2-${totalPages}`}
+          className={`w-full border rounded px-1 py-0.5 bg-white ${
+            range && !selectedPages ? 'border-red-400' : 'border-gray-300'
+          }`}
+          aria-label={`Page range to repeat redaction area ${areaNumber} on`}
+          aria-invalid={Boolean(range) && !selectedPages}
+        />
+      )}
+      {scope === 'range' && range && !selectedPages && (
+        <p className="text-red-600">Use page numbers from 1 to {totalPages}, such as 2-40, 45</p>
+      )}
+      <div className="flex gap-1">
+        <button
+          onClick={handleRepeat}
+          disabled={!pageNumbers || pageNumbers.length === 0}
+          className="flex-1 px-2 py-0.5 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 disabled:text-gray-400"
+        >
+          Repeat{pageNumbers && pageNumbers.length > 0 ? ` on ${pageNumbers.length} page${pageNumbers.length !== 1 ? 's' : ''}` : ''}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
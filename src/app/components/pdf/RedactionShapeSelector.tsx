@@ -0,0 +1,80 @@
+import React from 'react';
+import { RedactionShape } from '../../types/pdf';
+import { REDACTION_SHAPES } from '../../constants/pdf';
+
+interface RedactionShapeSelectorProps {
+  shape: RedactionShape;
+  onShapeChange: (shape: RedactionShape) => void;
+  /** Whether text is selected on the page instead of shapes drawn */
+  selectingText?: boolean;
+  onSelectingTextChange?: (selecting: boolean) => void;
+  disabled?: boolean;
+}
+
+// Outline icon of each shape, in a 24×24 view box
+const SHAPE_ICONS: Record<RedactionShape, React.ReactNode> = {
+  rectangle: <rect x="4" y="6" width="16" height="12" rx="1" />,
+  ellipse: <ellipse cx="12" cy="12" rx="8" ry="6" />,
+  polygon: <path d="M5 18 L8 5 L19 8 L16 19 Z" />,
+  freehand: <path d="M6 15 C3 9 9 4 14 6 C20 8 21 14 16 17 C12 20 8 19 6 15 Z" />
+};
+
+/**
+ * Component for choosing the shape drawn on the page, or selecting text to
+ * redact instead
+ */
+export const RedactionShapeSelector: React.FC<RedactionShapeSelectorProps> = ({
+  shape,
+  onShapeChange,
+  selectingText = false,
+  onSelectingTextChange,
+  disabled = false
+}) => {
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Redaction shape">
+        {REDACTION_SHAPES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => {
+              onShapeChange(option.value);
+              onSelectingTextChange?.(false);
+            }}
+            disabled={disabled}
+            className={`p-1.5 rounded border disabled:opacity-50 ${
+              shape === option.value && !selectingText
+                ? 'bg-blue-100 border-blue-400 text-blue-800'
+                : 'bg-white hover:bg-gray-100 border-gray-300 text-gray-700'
+            }`}
+            role="radio"
+            aria-checked={shape === option.value && !selectingText}
+            aria-label={option.label}
+            title={`${option.label}: ${option.description}`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              {SHAPE_ICONS[option.value]}
+            </svg>
+          </button>
+        ))}
+      </div>
+      {onSelectingTextChange && (
+        <button
+          onClick={() => onSelectingTextChange(!selectingText)}
+          disabled={disabled}
+          className={`ml-1 p-1.5 rounded border disabled:opacity-50 ${
+            selectingText
+              ? 'bg-blue-100 border-blue-400 text-blue-800'
+              : 'bg-white hover:bg-gray-100 border-gray-300 text-gray-700'
+          }`}
+          aria-pressed={selectingText}
+          aria-label="Select text"
+          title="Select text: drag across words to redact them, line by line."
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path d="M9 4 H15 M12 4 V20 M9 20 H15" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { RedactionStrategy } from '../../types/pdf';
+import { REDACTION_STRATEGIES } from '../../constants/pdf';
+
+interface RedactionStrategySelectorProps {
+  strategy: RedactionStrategy;
+  pageStrategies: Partial<Record<number, RedactionStrategy>>;
+  currentPage: number;
+  onStrategyChange: (strategy: RedactionStrategy) => void;
+  onPageStrategyChange: (pageNumber: number, strategy: RedactionStrategy | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Component for choosing the redaction strategy of the document and
+ * overriding it for the current page
+ */
+export const RedactionStrategySelector: React.FC<RedactionStrategySelectorProps> = ({
+  strategy,
+  pageStrategies,
+  currentPage,
+  onStrategyChange,
+  onPageStrategyChange,
+  disabled = false
+}) => {
+  const pageOverride = pageStrategies[currentPage];
+  const effectiveStrategy = pageOverride ?? strategy;
+  const description = REDACTION_STRATEGIES.find(option => option.value === effectiveStrategy)?.description;
+  const overriddenPages = Object.keys(pageStrategies)
+    .map(Number)
+    .filter(pageNumber => pageStrategies[pageNumber] !== undefined)
+    .sort((a, b) => a - b);
+
+  // Handler for the document strategy
+  const handleStrategyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onStrategyChange(e.target.value as RedactionStrategy);
+  };
+
+  // Handler for the current page override; an empty value clears it
+  const handlePageStrategyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    onPageStrategyChange(currentPage, value ? value as RedactionStrategy : null);
+  };
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <div>
+        <label htmlFor="redaction-strategy" className="block font-medium mb-1">
+          Document strategy
+        </label>
+        <select
+          id="redaction-strategy"
+          value={strategy}
+          onChange={handleStrategyChange}
+          disabled={disabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Select the redaction strategy for the document"
+        >
+          {REDACTION_STRATEGIES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="page-redaction-strategy" className="block font-medium mb-1">
+          Page {currentPage}
+        </label>
+        <select
+          id="page-redaction-strategy"
+          value={pageOverride ?? ''}
+          onChange={handlePageStrategyChange}
+          disabled={disabled}
+          className="w-full border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label={`Override the redaction strategy for page ${currentPage}`}
+        >
+          <option value="">Document default</option>
+          {REDACTION_STRATEGIES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {description && <p className="text-gray-600">{description}</p>}
+
+      {overriddenPages.length > 0 && (
+        <p className="text-gray-600">
+          Overridden on page{overriddenPages.length !== 1 ? 's' : ''} {overriddenPages.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
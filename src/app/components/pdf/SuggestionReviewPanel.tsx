@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { RedactionArea } from '../../types/pdf';
+import { PII_CATEGORIES, REDACTION_AREA_ORIGINS } from '../../constants/pdf';
+
+interface SuggestionReviewPanelProps {
+  redactionAreas: RedactionArea[];
+  /** Accept suggestions, by index, so that they are applied */
+  onAcceptAreas: (indices: number[]) => void;
+  /** Reject suggestions, by index, which removes them */
+  onRejectAreas: (indices: number[]) => void;
+  /** Go to the page of a suggestion */
+  onGotoArea: (area: RedactionArea) => void;
+  /** Mark the suggestion under review on the page; null when there is none */
+  onFocusArea: (area: RedactionArea | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Group a suggestion is rejected with: its kind of personal data, or where it
+ * came from when it has none
+ */
+const groupOf = (area: RedactionArea): { key: string; label: string } | null => {
+  if (area.category) {
+    return {
+      key: `category:${area.category}`,
+      label: PII_CATEGORIES.find(option => option.value === area.category)?.label ?? area.category
+    };
+  }
+  return area.origin ? { key: `origin:${area.origin}`, label: REDACTION_AREA_ORIGINS[area.origin] } : null;
+};
+
+/**
+ * Component for stepping through the suggested areas in page order and
+ * accepting or rejecting each, or all those of the same term or kind at once
+ */
+export const SuggestionReviewPanel: React.FC<SuggestionReviewPanelProps> = ({
+  redactionAreas,
+  onAcceptAreas,
+  onRejectAreas,
+  onGotoArea,
+  onFocusArea,
+  disabled = false
+}) => {
+  // Position in the queue of the suggestion under review
+  const [position, setPosition] = useState<number>(0);
+
+  // Indices of the suggestions, top to bottom on each page; y grows upwards in user space
+  const queue = redactionAreas
+    .map((area, index) => ({ area, index }))
+    .filter(({ area }) => area.suggested)
+    .sort((a, b) =>
+      a.area.pageNumber - b.area.pageNumber ||
+      (b.area.y + b.area.height) - (a.area.y + a.area.height) ||
+      a.area.x - b.area.x
+    )
+    .map(({ index }) => index);
+  const current = Math.min(position, Math.max(queue.length - 1, 0));
+  const area = queue.length > 0 ? redactionAreas[queue[current]] : null;
+
+  // Mark the suggestion under review on the page, and nothing once the panel goes
+  useEffect(() => {
+    onFocusArea(area);
+  }, [area, onFocusArea]);
+  useEffect(() => () => onFocusArea(null), [onFocusArea]);
+
+  if (!area) {
+    return <p className="text-sm text-gray-500 italic p-2">No suggestions to review.</p>;
+  }
+
+  const term = area.term;
+  const sameTerm = term
+    ? queue.filter(index => redactionAreas[index].term?.toLowerCase() === term.toLowerCase())
+    : [];
+  const group = groupOf(area);
+  const sameGroup = group ? queue.filter(index => groupOf(redactionAreas[index])?.key === group.key) : [];
+
+  // Show the suggestion at a position of the queue
+  const show = (nextPosition: number) => {
+    setPosition(nextPosition);
+    onGotoArea(redactionAreas[queue[nextPosition]]);
+  };
+
+  // Act on suggestions, then go on to the first one left after the current position
+  const review = (indices: number[], accept: boolean) => {
+    const remaining = queue.filter(index => !indices.includes(index));
+    const next = remaining.length > 0
+      ? Math.min(queue.slice(0, current).filter(index => !indices.includes(index)).length, remaining.length - 1)
+      : 0;
+    if (accept) {
+      onAcceptAreas(indices);
+    } else {
+      onRejectAreas(indices);
+    }
+    setPosition(next);
+    if (remaining.length > 0) onGotoArea(redactionAreas[remaining[next]]);
+  };
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => show(current - 1)}
+          disabled={current === 0}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400"
+          aria-label="Previous suggestion"
+        >
+          ‹
+        </button>
+        <button onClick={() => onGotoArea(area)} className="font-medium hover:underline">
+          Suggestion {current + 1} of {queue.length} · page {area.pageNumber}
+        </button>
+        <button
+          onClick={() => show(current + 1)}
+          disabled={current >= queue.length - 1}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400"
+          aria-label="Next suggestion"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {group && (
+          <span className="px-1.5 py-0.5 rounded bg-amber-100 text-[10px] text-amber-800">{group.label}</span>
+        )}
+        {term && <span className="truncate text-gray-700" title={term}>“{term}”</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <button
+          onClick={() => review([queue[current]], true)}
+          disabled={disabled}
+          className="px-2 py-1 rounded text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+        >
+          Accept
+        </button>
+        <button
+          onClick={() => review([queue[current]], false)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400"
+        >
+          Reject
+        </button>
+        {term && sameTerm.length > 1 && (
+          <button
+            onClick={() => review(sameTerm, true)}
+            disabled={disabled}
+            className="col-span-2 px-2 py-0.5 rounded border border-red-300 bg-red-50 text-red-800 hover:bg-red-100 disabled:text-gray-400"
+          >
+            Accept all {sameTerm.length} of “{term}”
+          </button>
+        )}
+        {group && sameGroup.length > 1 && (
+          <button
+            onClick={() => review(sameGroup, false)}
+            disabled={disabled}
+            className="col-span-2 px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400"
+          >
+            Reject all {sameGroup.length} {group.label}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { RedactionArea, TermMatches } from '../../types/pdf';
+import { PageText } from '../../utils/pdfTextIndex';
+import { matchAreas } from '../../utils/pdfTextSearch';
+import { findTermMatches, parseTermList } from '../../utils/pdfTermList';
+
+interface TermListPanelProps {
+  /** Text of the document, null until it is read */
+  pages: PageText[] | null;
+  /** Reads the document text, once; resolves to null if it cannot be read */
+  loadText: () => Promise<PageText[] | null>;
+  isLoadingText: boolean;
+  loadingProgress: number;
+  textError: Error | null;
+  /** Suggest the areas covering every occurrence of the terms; returns how many were not already present */
+  onSuggestAreas: (areas: RedactionArea[]) => number;
+  onGotoPage: (pageNumber: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Component for suggesting every occurrence of the terms of an uploaded CSV
+ * or text file for redaction, with the number of occurrences of each term so
+ * that terms without any can be looked into
+ */
+export const TermListPanel: React.FC<TermListPanelProps> = ({
+  pages,
+  loadText,
+  isLoadingText,
+  loadingProgress,
+  textError,
+  onSuggestAreas,
+  onGotoPage,
+  disabled = false
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [results, setResults] = useState<TermMatches[] | null>(null);
+  const [onlyMissing, setOnlyMissing] = useState<boolean>(false);
+  // Number of areas the occurrences found added to the suggestions, once they are suggested
+  const [addedCount, setAddedCount] = useState<number | null>(null);
+
+  // Occurrences belong to the text they were found in
+  useEffect(() => {
+    if (!pages) setResults(null);
+  }, [pages]);
+
+  // Match the terms against the text of every page
+  const matchTerms = async (termList: string[]) => {
+    const text = pages ?? await loadText();
+    if (!text) return;
+    setResults(findTermMatches(text, termList));
+    setAddedCount(null);
+  };
+
+  // Handler for choosing a term list; the terms are matched straight away
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setResults(null);
+    try {
+      const format = /\.csv$/i.test(file.name) || file.type === 'text/csv' ? 'csv' : 'text';
+      const parsed = parseTermList(await file.text(), format);
+      setFileName(file.name);
+      setTerms(parsed);
+      setFileError(parsed.length === 0 ? 'The file does not contain any terms' : null);
+      if (parsed.length > 0) await matchTerms(parsed);
+    } catch (err) {
+      console.error('Error reading the term list:', err);
+      setFileError('The file could not be read as text');
+    }
+  };
+
+  // Handler for suggesting every occurrence of every term, marked with its term
+  const handleSuggest = () => {
+    if (!pages || !results) return;
+    setAddedCount(onSuggestAreas(results.flatMap(result =>
+      result.matches.flatMap(match => matchAreas(pages, match, 'term-list').map(area => ({ ...area, term: result.term })))
+    )));
+  };
+
+  const occurrenceCount = results ? results.reduce((sum, result) => sum + result.matches.length, 0) : 0;
+  const missingCount = results ? results.filter(result => result.matches.length === 0).length : 0;
+  const shownResults = results && onlyMissing ? results.filter(result => result.matches.length === 0) : results;
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <label className="block">
+        <span className="sr-only">Term list file</span>
+        <input
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={handleFileChange}
+          disabled={disabled}
+          className="w-full text-xs"
+        />
+      </label>
+      <p className="text-gray-500">
+        A CSV file, or a text file with one term per line. Accents, case and words broken across lines are ignored.
+      </p>
+
+      {fileError && <p className="text-red-600">{fileError}</p>}
+      {fileName && terms.length > 0 && !results && (
+        <button
+          onClick={() => matchTerms(terms)}
+          disabled={disabled || isLoadingText}
+          className="w-full px-2 py-1 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 disabled:text-gray-400"
+        >
+          Match {terms.length} {terms.length === 1 ? 'term' : 'terms'} from {fileName}
+        </button>
+      )}
+
+      {isLoadingText && (
+        <p className="text-gray-600">Reading the document text… {loadingProgress}%</p>
+      )}
+      {textError && (
+        <p className="text-red-600">The document text could not be read: {textError.message}</p>
+      )}
+
+      {results && shownResults && (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">
+              {occurrenceCount} {occurrenceCount === 1 ? 'occurrence' : 'occurrences'} of {results.length} {results.length === 1 ? 'term' : 'terms'}
+            </span>
+            {missingCount > 0 && (
+              <label className="flex items-center gap-1 text-red-700">
+                <input
+                  type="checkbox"
+                  checked={onlyMissing}
+                  onChange={e => setOnlyMissing(e.target.checked)}
+                />
+                {missingCount} without hits
+              </label>
+            )}
+          </div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100" aria-label="Terms and their occurrences">
+            {shownResults.map(result => (
+              <li key={result.term} className="flex items-center justify-between gap-2 py-0.5">
+                {result.matches.length > 0 ? (
+                  <button
+                    onClick={() => onGotoPage(result.matches[0].pageNumber)}
+                    className="text-left truncate hover:underline"
+                    title={`First on page ${result.matches[0].pageNumber}: ${result.matches[0].context}`}
+                  >
+                    {result.term}
+                  </button>
+                ) : (
+                  <span className="truncate text-red-700">{result.term}</span>
+                )}
+                <span className={`flex-shrink-0 tabular-nums ${result.matches.length === 0 ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+                  {result.matches.length}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleSuggest}
+            disabled={disabled || occurrenceCount === 0 || addedCount !== null}
+            className="w-full px-2 py-1 rounded text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+          >
+            {addedCount !== null
+              ? `${addedCount} ${addedCount === 1 ? 'area' : 'areas'} added to the suggestions to review`
+              : `Suggest ${occurrenceCount} ${occurrenceCount === 1 ? 'occurrence' : 'occurrences'} for redaction`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
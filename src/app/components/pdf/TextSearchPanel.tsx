@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { RedactionArea, TextHighlight, TextMatch, TextSearchOptions } from '../../types/pdf';
+import { PageText } from '../../utils/pdfTextIndex';
+import { findTextMatches, matchAreas } from '../../utils/pdfTextSearch';
+
+interface TextSearchPanelProps {
+  /** Text of the document, null until it is read */
+  pages: PageText[] | null;
+  /** Reads the document text, once; resolves to null if it cannot be read */
+  loadText: () => Promise<PageText[] | null>;
+  isLoadingText: boolean;
+  loadingProgress: number;
+  textError: Error | null;
+  /** Hits to show on the pages, with whether each is selected */
+  onHighlightsChange: (highlights: TextHighlight[]) => void;
+  /** Add the areas covering the selected hits */
+  onRedactMatches: (areas: RedactionArea[]) => void;
+  onGotoPage: (pageNumber: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Component for finding a phrase in the text of every page and redacting the
+ * hits, with boxes fitted to their glyphs
+ */
+export const TextSearchPanel: React.FC<TextSearchPanelProps> = ({
+  pages,
+  loadText,
+  isLoadingText,
+  loadingProgress,
+  textError,
+  onHighlightsChange,
+  onRedactMatches,
+  onGotoPage,
+  disabled = false
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [options, setOptions] = useState<TextSearchOptions>({ caseSensitive: false, wholeWord: false });
+  const [matches, setMatches] = useState<TextMatch[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // Hits belong to the text they were found in
+  useEffect(() => {
+    if (!pages) setMatches(null);
+  }, [pages]);
+
+  // Show the hits on the pages whenever they or the selection change
+  useEffect(() => {
+    if (!pages || !matches) {
+      onHighlightsChange([]);
+      return;
+    }
+    onHighlightsChange(matches.flatMap((match, index) =>
+      matchAreas(pages, match).map(area => ({ area, selected: selected.has(index) }))
+    ));
+  }, [pages, matches, selected, onHighlightsChange]);
+
+  // Handler for running the search; every hit starts selected
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = pages ?? await loadText();
+    if (!text) return;
+    const found = findTextMatches(text, query, options);
+    setMatches(found);
+    setSelected(new Set(found.map((_, index) => index)));
+  };
+
+  // Handler for a change of a search option, which clears the results
+  const handleOptionChange = (key: keyof TextSearchOptions, value: boolean) => {
+    setOptions({ ...options, [key]: value });
+    setMatches(null);
+  };
+
+  // Handler for selecting or deselecting one hit
+  const handleToggle = (index: number) => {
+    const updated = new Set(selected);
+    if (updated.has(index)) {
+      updated.delete(index);
+    } else {
+      updated.add(index);
+    }
+    setSelected(updated);
+  };
+
+  // Handler for selecting all hits, or none
+  const handleToggleAll = () => {
+    setSelected(matches && selected.size < matches.length
+      ? new Set(matches.map((_, index) => index))
+      : new Set());
+  };
+
+  // Handler for redacting the selected hits; the results are cleared
+  const handleRedact = () => {
+    if (!pages || !matches) return;
+    onRedactMatches(matches.filter((_, index) => selected.has(index)).flatMap(match => matchAreas(pages, match)));
+    setMatches(null);
+    setSelected(new Set());
+  };
+
+  const pageCount = matches ? new Set(matches.map(match => match.pageNumber)).size : 0;
+
+  return (
+    <div className="p-2 space-y-2 text-xs text-black">
+      <form onSubmit={handleSearch} className="flex gap-1">
+        <input
+          type="search"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setMatches(null);
+          }}
+          placeholder="Name or phrase"
+          disabled={disabled}
+          className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 bg-white"
+          aria-label="Text to find"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !query.trim() || isLoadingText}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 hover:bg-gray-100 disabled:text-gray-400"
+        >
+          Find
+        </button>
+      </form>
+
+      <div className="flex gap-3">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.caseSensitive}
+            onChange={e => handleOptionChange('caseSensitive', e.target.checked)}
+            disabled={disabled}
+          />
+          Match case
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.wholeWord}
+            onChange={e => handleOptionChange('wholeWord', e.target.checked)}
+            disabled={disabled}
+          />
+          Whole words
+        </label>
+      </div>
+
+      {isLoadingText && (
+        <p className="text-gray-600">Reading the document text… {loadingProgress}%</p>
+      )}
+      {textError && (
+        <p className="text-red-600">The document text could not be read: {textError.message}</p>
+      )}
+
+      {matches && (
+        matches.length === 0 ? (
+          <p className="text-gray-500 italic">No matches</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {matches.length} {matches.length === 1 ? 'match' : 'matches'} on {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+              </span>
+              <button onClick={handleToggleAll} className="underline hover:text-blue-600">
+                {selected.size < matches.length ? 'Select all' : 'Select none'}
+              </button>
+            </div>
+            <ul className="max-h-48 overflow-y-auto space-y-1" aria-label="Search results">
+              {matches.map((match, index) => (
+                <li key={`${match.pageNumber}-${match.start}`} className="flex items-start gap-1">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => handleToggle(index)}
+                    aria-label={`Redact match ${index + 1} on page ${match.pageNumber}`}
+                  />
+                  <button
+                    onClick={() => onGotoPage(match.pageNumber)}
+                    className="text-left hover:underline"
+                  >
+                    <span className="text-gray-500 mr-1">p.{match.pageNumber}</span>
+                    {match.context}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleRedact}
+              disabled={disabled || selected.size === 0}
+              className="w-full px-2 py-1 rounded text-white bg-red-600 hover:bg-red-700 disabled:bg-gray-400"
+            >
+              Redact {selected.size} selected
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,3 +1,23 @@
+import {
+  AnnotationPolicy,
+  HiddenContentOptions,
+  MetadataOptions,
+  OcrLanguage,
+  OcrOptions,
+  PageWithholding,
+  PiiCategory,
+  RasterColorMode,
+  RasterEncoding,
+  RasterOptions,
+  RedactionAreaOrigin,
+  RedactionLabel,
+  RedactionLabelFont,
+  RedactionShape,
+  RedactionMode,
+  RepeatScope,
+  RedactionStrategy
+} from '../types/pdf';
+
 /**
  * Constants for PDF handling and redaction
  */
@@ -10,14 +30,108 @@ export const REDACTION_SETTINGS = {
   fillStyle: 'rgba(0, 0, 0, 0.9)', // More opaque black fill to better hide text
   strokeStyle: '#ff0000', // Red border for selection
   lineWidth: 2, // Border width in pixels
+  suggestedFillStyle: 'rgba(255, 0, 0, 0.15)', // Light tint over suggestions not yet accepted
+  suggestedLineDash: [6, 4], // Dashed border of suggestions not yet accepted
+  highlightFillStyle: 'rgba(255, 214, 0, 0.35)', // Text search hits
+  selectedHighlightFillStyle: 'rgba(255, 140, 0, 0.45)', // Text search hits selected for redaction
+  highlightStrokeStyle: '#d97706', // Border of selected text search hits
+  focusLineWidth: 3, // Border width of the suggestion under review
   
   // Minimum size required for a valid redaction area (in pixels)
   minSelectionSize: 10,
   
+  // Drawing of polygon and lasso shapes (in pixels)
+  polygonCloseDistance: 8, // Clicking this close to the first corner closes a polygon
+  freehandPointSpacing: 3, // Lasso points closer than this to the last one are skipped
+  freehandTolerance: 1.5, // Lasso points within this of a straight line are dropped
+  
+  // Text search
+  searchContextLength: 30, // Characters shown on either side of a hit
+  
   // Default redaction options
+  defaultRedactionMode: 'apply' as RedactionMode,
   defaultRedactionColor: '#000000', // Black
   defaultRedactionOpacity: 1.0,     // Fully opaque
   removeContent: true,              // By default, remove underlying content
+  addAnnotation: false,             // No annotations recording the redactions
+  
+  // Strategy for pages without an override of their own
+  defaultRedactionStrategy: 'page-raster' as RedactionStrategy,
+  
+  // Fraction of a glyph's box that must be covered before it is removed
+  glyphCoverageThreshold: 0.3,
+  
+  // What happens to annotations under a redaction area when their subtype
+  // has no policy of its own
+  defaultAnnotationPolicy: 'remove' as AnnotationPolicy,
+  
+  // Metadata sanitisation applied unless overridden by the redaction options
+  defaultMetadataOptions: {
+    info: 'clear',
+    infoOverrides: {},
+    xmp: 'remove',
+    regenerateId: true,
+    stripPieceInfo: true
+  } as MetadataOptions,
+  
+  // Hidden content removed by the sanitisation pass unless overridden
+  defaultHiddenContentOptions: {
+    removeJavaScript: true,
+    removeEmbeddedFiles: true,
+    removeThumbnails: true,
+    removeHiddenLayers: true,
+    removePrivateData: true
+  } as HiddenContentOptions,
+  
+  // Rendering of pages and regions using the raster strategies unless overridden
+  defaultRasterOptions: {
+    dpi: 144,
+    colorMode: 'color',
+    encoding: 'png',
+    jpegQuality: 0.92
+  } as RasterOptions,
+  
+  // OCR applied to pages rasterised in full unless overridden
+  defaultOcrOptions: {
+    enabled: false,
+    language: 'eng'
+  } as OcrOptions,
+  
+  // Overlay text given to new redaction areas when labelling is switched on
+  defaultRedactionLabel: {
+    text: 'REDACTED',
+    font: 'helvetica-bold',
+    fontSize: 10,
+    color: '#FFFFFF',
+    autoFit: true
+  } as RedactionLabel,
+  
+  // Label of the blank page that replaces a page withheld in full
+  withheldPageLabel: {
+    text: 'Page withheld',
+    font: 'helvetica-bold',
+    fontSize: 36,
+    color: '#000000',
+    autoFit: true
+  } as RedactionLabel,
+  
+  // Fitted labels smaller than this (in points) are left out as illegible
+  minLabelFontSize: 4,
+  
+  // Space in points between a label and the edges of its box
+  labelPadding: 2,
+  
+  // Margin in points around each area that the region-raster strategy
+  // rasterises along with it, so that glyphs cut by the box stay visible
+  regionRasterPadding: 4,
+  
+  // Resolutions offered for rasterised pages, and the limits accepted
+  rasterDpiLevels: [72, 96, 144, 200, 300, 400, 600],
+  minRasterDpi: 36,
+  maxRasterDpi: 600,
+  
+  // JPEG quality used when re-encoding images whose pixels were scrubbed
+  scrubbedJpegQuality: 0.92,
   
   // Zoom settings
   minScale: 0.25,
@@ -38,6 +152,195 @@ export const REDACTION_SETTINGS = {
   ]
 };
 
+/**
+ * Redaction strategies offered to the user, in display order
+ */
+export const REDACTION_STRATEGIES: {
+  value: RedactionStrategy;
+  label: string;
+  description: string;
+  // What the redacted page consists of, as reported after export
+  output: string;
+}[] = [
+  {
+    value: 'vector',
+    label: 'Vector removal',
+    description: 'Removes the content under each box; the rest of the page stays searchable text',
+    output: 'searchable text'
+  },
+  {
+    value: 'page-raster',
+    label: 'Full-page rasterisation',
+    description: 'Replaces the page with an image; nothing on it remains searchable',
+    output: 'images only'
+  },
+  {
+    value: 'region-raster',
+    label: 'Region rasterisation',
+    description: 'Replaces only the area around each box with an image; the rest of the page stays searchable text',
+    output: 'searchable text with image regions'
+  }
+];
+
+/**
+ * Colour modes offered for rasterised pages
+ */
+export const RASTER_COLOR_MODES: { value: RasterColorMode; label: string }[] = [
+  { value: 'color', label: 'Colour' },
+  { value: 'grayscale', label: 'Greyscale' },
+  { value: 'bilevel', label: 'Black and white (1-bit)' }
+];
+
+/**
+ * Encodings offered for rasterised pages
+ */
+export const RASTER_ENCODINGS: { value: RasterEncoding; label: string }[] = [
+  { value: 'png', label: 'PNG (lossless)' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'bilevel', label: 'Bilevel (lossless, 1-bit)' }
+];
+
+/**
+ * Export modes, with what each one does to the document
+ */
+export const REDACTION_MODES: { value: RedactionMode; label: string; description: string }[] = [
+  {
+    value: 'apply',
+    label: 'Apply redactions',
+    description: 'Removes the content under each box and draws the boxes.'
+  },
+  {
+    value: 'markup',
+    label: 'Mark up only',
+    description: 'Adds a /Redact annotation for each box and removes nothing, ' +
+      'so that the redactions can be reviewed and applied later in Acrobat or here.'
+  }
+];
+
+/**
+ * Page-level actions offered for withholding a page in full
+ */
+export const PAGE_WITHHOLDING_ACTIONS: { value: PageWithholding; label: string; description: string }[] = [
+  {
+    value: 'redact',
+    label: 'Blank page',
+    description: 'Replaces the page with a blank "Page withheld" page, so later pages keep their numbers.'
+  },
+  {
+    value: 'remove',
+    label: 'Remove page',
+    description: 'Leaves the page out; later pages are labelled with their original numbers.'
+  }
+];
+
+/**
+ * How the origin of a redaction area is shown in the list of areas
+ */
+export const REDACTION_AREA_ORIGINS: Record<RedactionAreaOrigin, string> = {
+  'drawn': 'Drawn',
+  'redact-annotation': 'Redact annotation',
+  'highlight-annotation': 'Highlight',
+  'search': 'Text search',
+  'detector': 'Detected',
+  'term-list': 'Term list',
+  'text-selection': 'Text selection'
+};
+
+/**
+ * Personal data detectors, in display order, with what each one finds
+ */
+export const PII_CATEGORIES: { value: PiiCategory; label: string; description: string }[] = [
+  { value: 'ssn', label: 'SSN', description: 'US Social Security numbers such as 123-45-6789.' },
+  { value: 'email', label: 'Email', description: 'Email addresses.' },
+  {
+    value: 'phone',
+    label: 'Phone',
+    description: 'Phone numbers starting with + or 00, or with the area code in brackets.'
+  },
+  { value: 'payment-card', label: 'Card number', description: 'Payment card numbers that pass the Luhn check.' },
+  { value: 'iban', label: 'IBAN', description: 'Bank account numbers (IBAN) that pass the mod-97 check.' },
+  { value: 'uk-ni-number', label: 'NI number', description: 'UK National Insurance numbers such as QQ 12 34 56 C.' },
+  {
+    value: 'date-of-birth',
+    label: 'Date of birth',
+    description: 'Dates after "DOB", "date of birth" or "born".'
+  }
+];
+
+/**
+ * Shapes offered for drawing redaction areas, with how each is drawn
+ */
+export const REDACTION_SHAPES: { value: RedactionShape; label: string; description: string }[] = [
+  { value: 'rectangle', label: 'Rectangle', description: 'Drag to draw a box.' },
+  { value: 'ellipse', label: 'Ellipse', description: 'Drag to draw the ellipse inside a box.' },
+  {
+    value: 'polygon',
+    label: 'Polygon',
+    description: 'Click each corner, then double-click or click the first corner to close. Escape cancels.'
+  },
+  { value: 'freehand', label: 'Lasso', description: 'Drag around the content to redact.' }
+];
+
+/**
+ * Page selections offered for repeating an area on other pages
+ */
+export const REPEAT_SCOPES: { value: RepeatScope; label: string }[] = [
+  { value: 'all', label: 'All pages' },
+  { value: 'range', label: 'Page range' },
+  { value: 'odd', label: 'Odd pages' },
+  { value: 'even', label: 'Even pages' }
+];
+
+/**
+ * Fonts offered for redaction labels
+ */
+export const REDACTION_LABEL_FONTS: { value: RedactionLabelFont; label: string }[] = [
+  { value: 'helvetica', label: 'Helvetica' },
+  { value: 'helvetica-bold', label: 'Helvetica Bold' },
+  { value: 'times', label: 'Times' },
+  { value: 'courier', label: 'Courier' }
+];
+
+/**
+ * Common label texts: a plain marker and the FOIA exemptions of 5 U.S.C. 552(b)
+ */
+export const REDACTION_LABEL_PRESETS: string[] = [
+  'REDACTED',
+  'WITHHELD',
+  '(b)(1)',
+  '(b)(2)',
+  '(b)(3)',
+  '(b)(4)',
+  '(b)(5)',
+  '(b)(6)',
+  '(b)(7)(A)',
+  '(b)(7)(C)',
+  '(b)(7)(D)',
+  '(b)(7)(E)',
+  '(b)(7)(F)',
+  '(b)(8)',
+  '(b)(9)'
+];
+
+/**
+ * Languages offered for OCR; each needs its language data in `OCR_SETTINGS.langPath`
+ */
+export const OCR_LANGUAGES: { value: OcrLanguage; label: string }[] = [
+  { value: 'eng', label: 'English' },
+  { value: 'deu', label: 'German' },
+  { value: 'fra', label: 'French' },
+  { value: 'spa', label: 'Spanish' }
+];
+
+/**
+ * Location of the bundled OCR engine, copied into public by scripts/copy-ocr-files.js
+ */
+export const OCR_SETTINGS = {
+  workerPath: '/tesseract/worker.min.js', // Tesseract worker script
+  corePath: '/tesseract/core',            // Directory of the engine builds
+  langPath: '/tesseract/lang'             // Directory of the gzipped language data
+};
+
 /**
  * PDF.js worker configuration
  */
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { PageText, extractDocumentText } from '../utils/pdfTextIndex';
+
+// Interface for the hook result
+interface UseDocumentTextResult {
+  pages: PageText[] | null;
+  isLoading: boolean;
+  loadingProgress: number; // 0-100
+  error: Error | null;
+  /** Read the text of every page, once per document; resolves to null if it fails */
+  loadText: () => Promise<PageText[] | null>;
+}
+
+/**
+ * Hook for the text of a loaded PDF, read on first use and kept until the
+ * document changes
+ *
+ * @param pdfDocument The loaded document, or null
+ * @returns The page texts and a method to load them
+ */
+export function useDocumentText(pdfDocument: PDFDocumentProxy | null): UseDocumentTextResult {
+  const [pages, setPages] = useState<PageText[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [loadingProgress, setLoadingProgress] = useState<number>(0);
+  const [error, setError] = useState<Error | null>(null);
+
+  // The text being read or read for the current document
+  const pendingRef = useRef<{ document: PDFDocumentProxy; promise: Promise<PageText[] | null> } | null>(null);
+
+  // The text belongs to the previous document
+  useEffect(() => {
+    pendingRef.current = null;
+    setPages(null);
+    setIsLoading(false);
+    setLoadingProgress(0);
+    setError(null);
+  }, [pdfDocument]);
+
+  const loadText = useCallback(async (): Promise<PageText[] | null> => {
+    if (!pdfDocument) return null;
+    if (pendingRef.current?.document === pdfDocument) return pendingRef.current.promise;
+
+    setIsLoading(true);
+    setError(null);
+    const promise = extractDocumentText(pdfDocument, (pagesDone, totalPages) => {
+      if (pendingRef.current?.document === pdfDocument) {
+        setLoadingProgress(Math.round((pagesDone / totalPages) * 100));
+      }
+    })
+      .then(result => {
+        if (pendingRef.current?.document === pdfDocument) setPages(result);
+        return result;
+      })
+      .catch(err => {
+        console.error('Error reading the document text:', err);
+        if (pendingRef.current?.document === pdfDocument) {
+          setError(err instanceof Error ? err : new Error('Failed to read the document text'));
+          // Let the next attempt try again
+          pendingRef.current = null;
+        }
+        return null;
+      })
+      .finally(() => {
+        if (!pendingRef.current || pendingRef.current.document === pdfDocument) setIsLoading(false);
+      });
+    pendingRef.current = { document: pdfDocument, promise };
+    return promise;
+  }, [pdfDocument]);
+
+  return { pages, isLoading, loadingProgress, error, loadText };
+}
@@ -2,6 +2,8 @@ import { useState, useEffect, useRef } from 'react';
 import { PDFDocumentProxy } from 'pdfjs-dist';
 import { initPdfWorker, isPdfWorkerInitialized, safeGetDocument } from '../utils/pdfWorkerLoader';
 import { PdfLoadError } from '../utils/errors';
+import { readAnnotatedAreas } from '../utils/pdfAnnotationImporter';
+import { RedactionArea } from '../types/pdf';
 
 // Interface for the hook result
 interface UsePdfLoaderResult {
@@ -12,6 +14,7 @@ interface UsePdfLoaderResult {
   error: Error | null;
   isPdfEncrypted: boolean;
   workerInitError: Error | null;
+  importedAreas: RedactionArea[]; // From /Redact and Highlight annotations, suggested until accepted
 }
 
 // Initialize worker at module level to ensure it's only done once
@@ -34,6 +37,7 @@ export function usePdfLoader(file: File | null): UsePdfLoaderResult {
   const [error, setError] = useState<Error | null>(null);
   const [isPdfEncrypted, setIsPdfEncrypted] = useState<boolean>(false);
   const [workerInitError, setWorkerInitError] = useState<Error | null>(null);
+  const [importedAreas, setImportedAreas] = useState<RedactionArea[]>([]);
   
   // Use a ref to track the current file to prevent loading canceled files
   const currentFileRef = useRef<File | null>(null);
@@ -63,6 +67,7 @@ export function usePdfLoader(file: File | null): UsePdfLoaderResult {
       setError(null);
       setLoadingProgress(0);
       setIsPdfEncrypted(false);
+      setImportedAreas([]);
       return;
     }
 
@@ -155,8 +160,21 @@ export function usePdfLoader(file: File | null): UsePdfLoaderResult {
         // Load the document
         const pdf = await loadingTask.promise;
         
+        // Existing redaction mark-up is offered as areas; a document whose
+        // annotations cannot be read still opens
+        let annotatedAreas: RedactionArea[] = [];
+        try {
+          annotatedAreas = await readAnnotatedAreas(pdf);
+          if (annotatedAreas.length > 0) {
+            console.log(`Found ${annotatedAreas.length} areas marked by annotations`);
+          }
+        } catch (annotationErr) {
+          console.warn('Could not read annotations:', annotationErr);
+        }
+        
         // Only update state if this is still the current file
         if (currentFileRef.current === file) {
+          setImportedAreas(annotatedAreas);
           setPdfDocument(pdf);
           setTotalPages(pdf.numPages);
           setLoadingProgress(100);
@@ -209,6 +227,7 @@ export function usePdfLoader(file: File | null): UsePdfLoaderResult {
     loadingProgress, 
     error, 
     isPdfEncrypted,
-    workerInitError
+    workerInitError,
+    importedAreas
   };
 } 
\ No newline at end of file
@@ -3,16 +3,104 @@
 import { useState, useEffect } from 'react';
 import PDFUploader from './components/PDFUploader';
 import PDFViewer from './components/PDFViewer';
-import { RedactionArea } from './types/pdf';
+import {
+  OcrOptions,
+  PageWithholding,
+  RasterOptions,
+  RedactionArea,
+  RedactionBoxOptions,
+  RedactionOptions,
+  RedactionResult,
+  RedactionStrategy
+} from './types/pdf';
+import { REDACTION_SETTINGS, REDACTION_STRATEGIES } from './constants/pdf';
 import { downloadRedactedPDF } from './utils/pdfRedactor';
+import { PdfRedactionError } from './utils/errors';
 import { initPdfWorker, isPdfWorkerInitialized } from './utils/pdfWorkerLoader';
 
+// Compact list of page numbers, e.g. "1-3, 5"
+const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(start === pages[i] ? `${start}` : `${start}-${pages[i]}`);
+  }
+  return ranges.join(', ');
+};
+
+// Which pages stayed searchable text and which became images; without content
+// removal the vector pages only had boxes drawn over their content
+const describePageStrategies = (result: RedactionResult, contentRemoved: boolean): string => {
+  const pagesByStrategy = new Map<RedactionStrategy, number[]>();
+  for (const [pageNumber, strategy] of Object.entries(result.pageStrategies)) {
+    pagesByStrategy.set(strategy, [...(pagesByStrategy.get(strategy) ?? []), Number(pageNumber)]);
+  }
+  return REDACTION_STRATEGIES
+    .filter(option => pagesByStrategy.has(option.value))
+    .map(option => {
+      const pages = pagesByStrategy.get(option.value)!.sort((a, b) => a - b);
+      const label = !contentRemoved && option.value === 'vector'
+        ? 'Boxes only (content not removed)'
+        : `${option.label} (${option.output})`;
+      return `${label}: page${pages.length !== 1 ? 's' : ''} ${formatPageRanges(pages)}.`;
+    })
+    .join(' ');
+};
+
+// Why pages without redactions were rasterised too
+const describeEncryptedFallback = (result: RedactionResult): string =>
+  result.encryptedFallback
+    ? ' The PDF is encrypted, so its pages could not be copied and every page was rasterised; unlock it first to keep pages as text.'
+    : '';
+
+// Pages with areas whose content was left in place under the boxes; withheld
+// pages lose their content either way
+const keptContentPages = (result: RedactionResult, redactionAreas: RedactionArea[]): number[] =>
+  [...new Set(redactionAreas.map(area => area.pageNumber))]
+    .filter(pageNumber =>
+      result.pageStrategies[pageNumber] === 'vector' &&
+      !result.withholdingIndex.some(entry => entry.pageNumber === pageNumber)
+    )
+    .sort((a, b) => a - b);
+
+// Recognition confidence of each page that got an OCR text layer
+const describeOcrPages = (result: RedactionResult): string => {
+  if (result.ocrPages.length === 0) return '';
+  const pages = result.ocrPages
+    .map(page => `page ${page.pageNumber} ${Math.round(page.confidence)}%`)
+    .join(', ');
+  return ` Text recognised with confidence: ${pages}.`;
+};
+
+// Which pages were withheld in full, and how that changes the page numbers
+const describeWithheldPages = (result: RedactionResult): string => {
+  const blanked = result.withholdingIndex.filter(entry => entry.action === 'redact').map(entry => entry.pageNumber);
+  const removed = result.withholdingIndex.filter(entry => entry.action === 'remove').map(entry => entry.pageNumber);
+  const parts = [];
+  if (blanked.length > 0) {
+    parts.push(`page${blanked.length !== 1 ? 's' : ''} ${formatPageRanges(blanked)} replaced by "Page withheld" pages`);
+  }
+  if (removed.length > 0) {
+    parts.push(
+      `page${removed.length !== 1 ? 's' : ''} ${formatPageRanges(removed)} removed, ` +
+      'so later pages move up and are labelled with their original numbers'
+    );
+  }
+  return parts.length > 0 ? ` Withheld: ${parts.join('; ')}.` : '';
+};
+
 export default function Home() {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [redactionAreas, setRedactionAreas] = useState<RedactionArea[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [redactionOptions, setRedactionOptions] = useState<Partial<RedactionOptions>>({
+    strategy: REDACTION_SETTINGS.defaultRedactionStrategy,
+    pageStrategies: {},
+    withheldPages: {}
+  });
 
   // Initialize PDF worker on page load
   useEffect(() => {
@@ -32,6 +120,7 @@ export default function Home() {
   const handleFileUpload = (file: File) => {
     setUploadedFile(file);
     setRedactionAreas([]);
+    setRedactionOptions(prev => ({ ...prev, pageStrategies: {}, withheldPages: {} }));
     setError(null);
     setSuccessMessage(null);
   };
@@ -40,9 +129,33 @@ export default function Home() {
     setRedactionAreas(selections);
   };
 
+  const handleStrategyChange = (
+    strategy: RedactionStrategy,
+    pageStrategies: Partial<Record<number, RedactionStrategy>>
+  ) => {
+    setRedactionOptions(prev => ({ ...prev, strategy, pageStrategies }));
+  };
+
+  const handleWithheldPagesChange = (withheldPages: Partial<Record<number, PageWithholding>>) => {
+    setRedactionOptions(prev => ({ ...prev, withheldPages }));
+  };
+
+  const handleRasterOptionsChange = (raster: RasterOptions) => {
+    setRedactionOptions(prev => ({ ...prev, raster }));
+  };
+
+  const handleOcrOptionsChange = (ocr: OcrOptions) => {
+    setRedactionOptions(prev => ({ ...prev, ocr }));
+  };
+
+  const handleBoxOptionsChange = (boxOptions: RedactionBoxOptions) => {
+    setRedactionOptions(prev => ({ ...prev, ...boxOptions }));
+  };
+
   const handleRedact = async () => {
-    if (!uploadedFile || redactionAreas.length === 0) {
-      setError('Please upload a PDF and select areas to redact');
+    const withheldPageCount = Object.values(redactionOptions.withheldPages ?? {}).filter(Boolean).length;
+    if (!uploadedFile || (redactionAreas.length === 0 && withheldPageCount === 0)) {
+      setError('Please upload a PDF and select areas or pages to redact');
       return;
     }
 
@@ -57,8 +170,17 @@ export default function Home() {
       await new Promise((resolve) => {
         setTimeout(async () => {
           try {
-            await downloadRedactedPDF(uploadedFile, redactionAreas);
-            setSuccessMessage('PDF redacted successfully! Download complete.');
+            const result = await downloadRedactedPDF(uploadedFile, redactionAreas, redactionOptions);
+            const contentRemoved = redactionOptions.removeContent ?? REDACTION_SETTINGS.removeContent;
+            const keptPages = contentRemoved ? [] : keptContentPages(result, redactionAreas);
+            const details = `${describePageStrategies(result, contentRemoved)}${describeEncryptedFallback(result)}${describeWithheldPages(result)}${describeOcrPages(result)}`;
+            if (result.method === 'markup') {
+              setSuccessMessage(`Mark-up PDF downloaded with ${redactionAreas.length} proposed redaction${redactionAreas.length !== 1 ? 's' : ''}${withheldPageCount > 0 ? ` and ${withheldPageCount} withheld page${withheldPageCount !== 1 ? 's' : ''}` : ''}. Nothing was removed; apply the redactions before sharing the document.`);
+            } else if (keptPages.length > 0) {
+              setSuccessMessage(`PDF downloaded, but the content under the boxes on page${keptPages.length !== 1 ? 's' : ''} ${formatPageRanges(keptPages)} was not removed and can still be selected, copied and searched. ${details}`);
+            } else {
+              setSuccessMessage(`PDF redacted successfully! Download complete. ${details}`);
+            }
             resolve(null);
           } catch (err) {
             console.error('Error in PDF redaction:', err);
@@ -66,7 +188,14 @@ export default function Home() {
             // Determine the appropriate error message
             let errorMessage = 'An error occurred while redacting the PDF. Please try again.';
             
-            if (err instanceof Error) {
+            if (err instanceof PdfRedactionError) {
+              // Nothing was downloaded; say which pages could not be redacted
+              const failedPages = [...new Set(err.details.failedPages.map(page => page.pageNumber))]
+                .sort((a, b) => a - b);
+              errorMessage = failedPages.length > 0
+                ? `Redaction could not be completed for page(s) ${failedPages.join(', ')}, so no file was downloaded. ${err.message}`
+                : `Redaction could not be completed, so no file was downloaded. ${err.message}`;
+            } else if (err instanceof Error) {
               if (err.message.includes('encrypted')) {
                 errorMessage = 'This PDF is encrypted and cannot be redacted. Please try a different PDF or remove the encryption first.';
               } else if (err.message.includes('invalid') || err.message.includes('corrupted') || err.message.includes('damaged')) {
@@ -97,6 +226,7 @@ export default function Home() {
     console.log('Received updated file:', updatedFile.name);
     setUploadedFile(updatedFile);
     setRedactionAreas([]);
+    setRedactionOptions(prev => ({ ...prev, pageStrategies: {}, withheldPages: {} }));
     setError(null);
     setSuccessMessage('PDF successfully unlocked! You can now apply redactions.');
   };
@@ -171,6 +301,11 @@ export default function Home() {
                 onSelectionChange={handleSelectionChange}
                 onApplyRedactions={handleRedact}
                 onFileUpdate={handleFileUpdate}
+                onStrategyChange={handleStrategyChange}
+                onRasterOptionsChange={handleRasterOptionsChange}
+                onOcrOptionsChange={handleOcrOptionsChange}
+                onRedactionOptionsChange={handleBoxOptionsChange}
+                onWithheldPagesChange={handleWithheldPagesChange}
               />
             </>
           )}
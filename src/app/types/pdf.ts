@@ -1,23 +1,416 @@
 /**
- * Represents a rectangular area in a PDF for redaction
+ * Fields shared by every redaction area. The bounding box is in the user
+ * space of the page (points, bottom-left origin, in the coordinates of the
+ * MediaBox), so it does not depend on the zoom, the page rotation or the crop
+ * box the page is displayed with.
  */
-export interface RedactionArea {
+interface RedactionAreaBase {
   /** Page number (1-indexed) */
   pageNumber: number;
-  /** X-coordinate from left edge */
+  /** X-coordinate of the left edge in user space */
   x: number;
-  /** Y-coordinate from top edge */
+  /** Y-coordinate of the bottom edge in user space */
   y: number;
-  /** Width of the redaction area */
+  /** Width of the redaction area in user space units */
   width: number;
-  /** Height of the redaction area */
+  /** Height of the redaction area in user space units */
   height: number;
+  /** Text drawn inside the box, such as "REDACTED" or an exemption code */
+  label?: RedactionLabel;
+  /** Where the area came from; drawn by the user when absent */
+  origin?: RedactionAreaOrigin;
+  /** Suggestions, such as imported annotations and detector hits, wait for the user to accept them before they are applied */
+  suggested?: boolean;
+  /** What a suggestion was found for: the term of a term list, or the text a detector matched */
+  term?: string;
+  /** Shared by an area and the copies repeated from it on other pages, which move and resize together */
+  linkId?: string;
+  /** Kind of personal data covered, for areas proposed by a detector */
+  category?: PiiCategory;
+}
+
+/**
+ * A rectangle covering its whole bounding box
+ */
+export interface RectangleRedactionArea extends RedactionAreaBase {
+  shape?: 'rectangle';
+}
+
+/**
+ * The ellipse inscribed in the bounding box
+ */
+export interface EllipseRedactionArea extends RedactionAreaBase {
+  shape: 'ellipse';
+}
+
+/**
+ * A closed outline drawn point by point (polygon) or freehand (lasso)
+ */
+export interface PolygonRedactionArea extends RedactionAreaBase {
+  shape: 'polygon' | 'freehand';
+  /** Vertices in user space; the bounding box encloses them */
+  points: { x: number; y: number }[];
+}
+
+/**
+ * Represents an area in a PDF for redaction, of any shape
+ */
+export type RedactionArea = RectangleRedactionArea | EllipseRedactionArea | PolygonRedactionArea;
+
+/**
+ * Shapes a redaction area can have
+ */
+export type RedactionShape = NonNullable<RedactionArea['shape']>;
+
+/**
+ * Pages an area is repeated on
+ * - all: every page
+ * - range: the pages of a list such as "2-40, 45"
+ * - odd, even: every odd or even page
+ */
+export type RepeatScope = 'all' | 'range' | 'odd' | 'even';
+
+/**
+ * Source of a redaction area
+ * - drawn: drawn on the page by the user
+ * - redact-annotation: a /Redact annotation already in the document
+ * - highlight-annotation: a Highlight annotation, used to mark text to redact
+ * - search: a hit of the text search
+ * - detector: personal data found by a pattern detector
+ * - term-list: an occurrence of a term from an uploaded list
+ * - text-selection: text selected on the page
+ */
+export type RedactionAreaOrigin =
+  | 'drawn'
+  | 'redact-annotation'
+  | 'highlight-annotation'
+  | 'search'
+  | 'detector'
+  | 'term-list'
+  | 'text-selection';
+
+/**
+ * Kinds of personal data found by the pattern detectors
+ * - ssn: US Social Security number
+ * - email: email address
+ * - phone: phone number in international or bracketed area code form
+ * - payment-card: card number passing the Luhn check
+ * - iban: IBAN passing the mod-97 check
+ * - uk-ni-number: UK National Insurance number
+ * - date-of-birth: date following a label such as "DOB" or "born"
+ */
+export type PiiCategory =
+  | 'ssn'
+  | 'email'
+  | 'phone'
+  | 'payment-card'
+  | 'iban'
+  | 'uk-ni-number'
+  | 'date-of-birth';
+
+/**
+ * How the text search matches a phrase
+ */
+export interface TextSearchOptions {
+  /** Match upper and lower case exactly */
+  caseSensitive: boolean;
+  /** Only match the phrase as whole words */
+  wholeWord: boolean;
+}
+
+/**
+ * An occurrence of a searched phrase in the text of a page
+ */
+export interface TextMatch {
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Range of the match in the page text */
+  start: number;
+  end: number;
+  /** The matched text */
+  text: string;
+  /** The match with some of the text around it, for listing */
+  context: string;
+}
+
+/**
+ * The occurrences of one term of an uploaded list
+ */
+export interface TermMatches {
+  /** The term as written in the list */
+  term: string;
+  matches: TextMatch[];
+}
+
+/**
+ * Personal data found by a detector in the text of a page
+ */
+export interface PiiMatch extends TextMatch {
+  category: PiiCategory;
+}
+
+/**
+ * A text search hit shown on the page, with whether it is selected for redaction
+ */
+export interface TextHighlight {
+  area: RedactionArea;
+  selected: boolean;
+}
+
+/**
+ * Standard PDF fonts available for redaction labels
+ */
+export type RedactionLabelFont = 'helvetica' | 'helvetica-bold' | 'times' | 'courier';
+
+/**
+ * Overlay text of a redaction box
+ */
+export interface RedactionLabel {
+  /** Text to draw, e.g. "REDACTED" or "(b)(6)" */
+  text: string;
+  /** Font of the text */
+  font: RedactionLabelFont;
+  /** Font size in points; the largest size used when fitting */
+  fontSize: number;
+  /** Text colour as a hex string */
+  color: string;
+  /** Shrink the text until it fits inside the box */
+  autoFit: boolean;
+}
+
+/**
+ * What to do with an annotation whose rectangle intersects a redaction area
+ * - remove: delete the annotation
+ * - keep: leave the annotation untouched
+ * - flatten: draw its appearance into the page, where it is redacted like
+ *   the rest of the content, then delete the annotation
+ */
+export type AnnotationPolicy = 'remove' | 'keep' | 'flatten';
+
+/**
+ * Info dictionary fields that can be rewritten on export
+ */
+export type DocumentInfoField = 'Title' | 'Author' | 'Subject' | 'Keywords' | 'Creator' | 'Producer';
+
+/**
+ * How document metadata is sanitised on export
+ */
+export interface MetadataOptions {
+  /** Keep the Info dictionary, remove it, or replace it with `infoOverrides` */
+  info: 'keep' | 'clear' | 'rewrite';
+  /** Values written when the Info dictionary or XMP packet is rewritten */
+  infoOverrides: Partial<Record<DocumentInfoField, string>>;
+  /** Keep the XMP metadata, remove it, or replace it with one built from `infoOverrides` */
+  xmp: 'keep' | 'remove' | 'rewrite';
+  /** Whether to write a new document /ID */
+  regenerateId: boolean;
+  /** Whether to strip /PieceInfo (private application data) from pages and forms */
+  stripPieceInfo: boolean;
+}
+
+/**
+ * Which kinds of hidden content the sanitisation pass removes
+ */
+export interface HiddenContentOptions {
+  /** Document, page, annotation and form JavaScript, OpenAction and /AA actions */
+  removeJavaScript: boolean;
+  /** Embedded files, file attachment annotations and associated files */
+  removeEmbeddedFiles: boolean;
+  /** Page thumbnail images (/Thumb) */
+  removeThumbnails: boolean;
+  /** Optional-content layers hidden by default, together with the content they mark */
+  removeHiddenLayers: boolean;
+  /** Private application data (/PieceInfo) and XFA form data */
+  removePrivateData: boolean;
+}
+
+/**
+ * What the hidden-content sanitisation pass removed
+ */
+export interface HiddenContentReport {
+  /** JavaScript actions and name-tree entries removed */
+  javaScriptActions: number;
+  /** Whether a document OpenAction was removed */
+  openAction: boolean;
+  /** Embedded files and file attachment annotations removed */
+  embeddedFiles: number;
+  /** Page thumbnails removed */
+  thumbnails: number;
+  /** Hidden optional-content groups removed */
+  hiddenLayers: number;
+  /** Content stream sections, XObject uses and annotations removed with hidden layers */
+  hiddenLayerContent: number;
+  /** Private data dictionaries and XFA packets removed */
+  privateData: number;
+}
+
+/**
+ * Output of the hidden-content sanitisation pass
+ */
+export interface SanitizationResult {
+  /** The sanitised document */
+  pdfBytes: Uint8Array;
+  /** What was removed */
+  report: HiddenContentReport;
+}
+
+/**
+ * How the content under the redaction areas of a page is removed
+ * - vector: the content is cut out of the page, which stays searchable text
+ * - page-raster: the page is replaced by an image with the boxes burned in
+ * - region-raster: only the rectangle around each area is replaced by an
+ *   image with the box burned in; the rest of the page stays searchable text
+ */
+export type RedactionStrategy = 'vector' | 'page-raster' | 'region-raster';
+
+/**
+ * What happens to a page withheld in full
+ * - redact: the page is replaced by a blank page of the same size with a
+ *   "Page withheld" label, so the pages after it keep their numbers
+ * - remove: the page is left out of the output
+ */
+export type PageWithholding = 'redact' | 'remove';
+
+/**
+ * Where a withheld page went, to explain the page numbering of the output
+ */
+export interface WithheldPage {
+  /** Page number in the original document (1-indexed) */
+  pageNumber: number;
+  /** What was done to the page */
+  action: PageWithholding;
+  /** Page number in the output, null when the page was removed */
+  outputPage: number | null;
+}
+
+/**
+ * Pixel format of rasterised pages
+ * - color: 8-bit RGB
+ * - grayscale: 8-bit grey
+ * - bilevel: 1-bit black and white
+ */
+export type RasterColorMode = 'color' | 'grayscale' | 'bilevel';
+
+/**
+ * Compression of rasterised pages
+ * - png: lossless Flate compression, as used by PNG
+ * - jpeg: lossy JPEG at `jpegQuality`
+ * - bilevel: lossless Flate compression of 1-bit samples
+ */
+export type RasterEncoding = 'png' | 'jpeg' | 'bilevel';
+
+/**
+ * How pages and regions using the raster strategies are turned into images.
+ * The bilevel colour mode and the bilevel encoding always go together.
+ */
+export interface RasterOptions {
+  /** Resolution of the page images in dots per inch */
+  dpi: number;
+  /** Pixel format of the page images */
+  colorMode: RasterColorMode;
+  /** Compression of the page images */
+  encoding: RasterEncoding;
+  /** JPEG quality (0-1) used by the jpeg encoding */
+  jpegQuality: number;
+}
+
+/**
+ * Languages of the bundled OCR engine (Tesseract language codes)
+ */
+export type OcrLanguage = 'eng' | 'deu' | 'fra' | 'spa';
+
+/**
+ * Optional OCR pass that adds an invisible text layer to pages rasterised
+ * in full, so that they stay searchable
+ */
+export interface OcrOptions {
+  /** Whether the OCR pass runs */
+  enabled: boolean;
+  /** Language of the document text */
+  language: OcrLanguage;
+}
+
+/**
+ * Outcome of the OCR pass on one page
+ */
+export interface OcrPageResult {
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Mean word confidence reported by the engine (0-100) */
+  confidence: number;
+  /** Words added to the text layer */
+  wordCount: number;
+  /** Words left out because they touch a redaction area */
+  skippedWords: number;
+}
+
+/**
+ * Implementation that produced a redacted document
+ * - vector: every page was redacted in place
+ * - screenshot: rasterised pages were rendered with hatched boxes
+ * - canvas: rasterised pages were rendered with plain boxes
+ * - markup: /Redact annotations were added and nothing was removed
+ */
+export type RedactionMethod = 'vector' | 'screenshot' | 'canvas' | 'markup';
+
+/**
+ * What the export does with the redaction areas
+ * - apply: remove what the areas cover and draw the boxes
+ * - markup: only propose the redactions, as /Redact annotations for another
+ *   reviewer or tool to apply
+ */
+export type RedactionMode = 'apply' | 'markup';
+
+/**
+ * A page that a redaction method could not process
+ */
+export interface PageFailure {
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Why the page failed */
+  reason: string;
+}
+
+/**
+ * A redaction method that was tried and failed
+ */
+export interface RedactionAttempt {
+  /** Method that was tried */
+  method: RedactionMethod;
+  /** Why the method failed */
+  reason: string;
+  /** Pages that could not be redacted, if the failure was page specific */
+  failedPages: PageFailure[];
+}
+
+/**
+ * Output of a successful redaction
+ */
+export interface RedactionResult {
+  /** The redacted document */
+  pdfBytes: Uint8Array;
+  /** Method that produced the document */
+  method: RedactionMethod;
+  /** Strategy applied to each page that was not withheld (1-indexed, original numbering) */
+  pageStrategies: Record<number, RedactionStrategy>;
+  /** Pages withheld in full, in original page order */
+  withholdingIndex: WithheldPage[];
+  /** Methods tried before it, and why they failed */
+  failedAttempts: RedactionAttempt[];
+  /** What the hidden-content pass removed, null in mark-up mode where it does not run */
+  hiddenContent: HiddenContentReport | null;
+  /** OCR outcome per rasterised page, empty when OCR did not run */
+  ocrPages: OcrPageResult[];
+  /** Whether every page was rasterised because the pages of the encrypted input could not be copied */
+  encryptedFallback: boolean;
 }
 
 /**
  * Options for configuring redaction appearance and behavior
  */
 export interface RedactionOptions {
+  /** Whether the redactions are applied or only marked up */
+  mode: RedactionMode;
   /** Color to use for redaction (hex format) */
   color: string;
   /** Opacity of the redaction (0-1) */
@@ -26,8 +419,32 @@ export interface RedactionOptions {
   removeContent: boolean;
   /** Whether to add a redaction annotation */
   addAnnotation: boolean;
+  /** Strategy for pages without an override */
+  strategy: RedactionStrategy;
+  /** Strategy overrides per page number (1-indexed) */
+  pageStrategies: Partial<Record<number, RedactionStrategy>>;
+  /** Pages withheld in full, by page number (1-indexed); their redaction areas are ignored */
+  withheldPages: Partial<Record<number, PageWithholding>>;
+  /** How rasterised pages are rendered and compressed */
+  raster: Partial<RasterOptions>;
+  /** OCR text layer for pages rasterised in full */
+  ocr: Partial<OcrOptions>;
+  /** Policy per annotation subtype (e.g. Link, Text, Widget) for annotations under an area */
+  annotationPolicies: Partial<Record<string, AnnotationPolicy>>;
+  /** How document metadata is sanitised */
+  metadata: Partial<MetadataOptions>;
+  /** Which hidden content is removed by the sanitisation pass */
+  hiddenContent: Partial<HiddenContentOptions>;
 }
 
+/**
+ * Appearance and effect of the redaction boxes, as set in the redaction controls
+ */
+export type RedactionBoxOptions = Pick<
+  RedactionOptions,
+  'mode' | 'color' | 'opacity' | 'removeContent' | 'addAnnotation'
+>;
+
 /**
  * PDF document information
  */
@@ -1,3 +1,5 @@
+import { PageFailure, RedactionAttempt, RedactionMethod } from '../types/pdf';
+
 /**
  * Base error class for PDF-related errors
  */
@@ -43,12 +45,27 @@ export class PdfWorkerError extends PdfError {
   }
 }
 
+/**
+ * Details of a failed redaction
+ */
+export interface RedactionFailureDetails {
+  /** Method that failed, when the error comes from a single method */
+  method?: RedactionMethod;
+  /** Pages that could not be redacted */
+  failedPages: PageFailure[];
+  /** Every method that was tried, when all of them failed */
+  attempts: RedactionAttempt[];
+}
+
 /**
  * Error thrown when redacting a PDF fails
  */
 export class PdfRedactionError extends PdfError {
-  constructor(message: string, originalError?: Error) {
+  public readonly details: RedactionFailureDetails;
+
+  constructor(message: string, originalError?: Error, details: Partial<RedactionFailureDetails> = {}) {
     super(message, originalError);
     this.name = 'PdfRedactionError';
+    this.details = { failedPages: [], attempts: [], ...details };
   }
 } 
\ No newline at end of file
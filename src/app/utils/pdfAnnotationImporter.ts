@@ -0,0 +1,60 @@
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RedactionArea, RedactionAreaOrigin } from '../types/pdf';
+
+/**
+ * The parts of pdf.js annotation data used here
+ */
+interface AnnotationData {
+  subtype?: string;
+  rect?: number[];
+  /** One quadrilateral per marked line, set for Highlight annotations */
+  quadPoints?: { x: number; y: number }[][] | null;
+}
+
+// Annotation subtypes that mark content to redact
+const IMPORTED_SUBTYPES: Partial<Record<string, RedactionAreaOrigin>> = {
+  Redact: 'redact-annotation',
+  Highlight: 'highlight-annotation'
+};
+
+/**
+ * Read the /Redact and Highlight annotations of the document as suggested
+ * redaction areas. Annotation rectangles are in user space already. Highlights
+ * give an area per marked line. pdf.js does not expose the QuadPoints of
+ * /Redact annotations, so they give one area covering their rectangle.
+ */
+export const readAnnotatedAreas = async (pdfDocument: PDFDocumentProxy): Promise<RedactionArea[]> => {
+  const areas: RedactionArea[] = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const page = await pdfDocument.getPage(pageNumber);
+    const annotations: AnnotationData[] = await page.getAnnotations({ intent: 'display' });
+
+    for (const annotation of annotations) {
+      const origin = annotation.subtype ? IMPORTED_SUBTYPES[annotation.subtype] : undefined;
+      if (!origin || !annotation.rect) continue;
+
+      const rects = annotation.quadPoints?.length
+        ? annotation.quadPoints.map(quad => [
+            Math.min(...quad.map(point => point.x)),
+            Math.min(...quad.map(point => point.y)),
+            Math.max(...quad.map(point => point.x)),
+            Math.max(...quad.map(point => point.y))
+          ])
+        : [annotation.rect];
+
+      for (const [x1, y1, x2, y2] of rects) {
+        const area: RedactionArea = {
+          pageNumber,
+          x: Math.min(x1, x2),
+          y: Math.min(y1, y2),
+          width: Math.abs(x2 - x1),
+          height: Math.abs(y2 - y1),
+          origin,
+          suggested: true
+        };
+        if (area.width > 0 && area.height > 0) areas.push(area);
+      }
+    }
+  }
+  return areas;
+};
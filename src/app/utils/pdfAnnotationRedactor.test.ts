@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { rectToPolygon } from './pdfGeometry';
+import { redactPageAnnotations } from './pdfAnnotationRedactor';
+import { removeUnreachableObjects } from './pdfObjectCollector';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('redactPageAnnotations', () => {
+  // A page with a link, a form field widget and a note with its popup in
+  // the lower left corner, and a link in the upper right one
+  const documentWithAnnotations = async (): Promise<PDFDocument> => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([600, 800]);
+    const { context } = pdfDoc;
+
+    const link = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [10, 10, 100, 30],
+      A: { S: 'URI', URI: PDFString.of('https://example.com/SecretLink') }
+    }));
+    const widget = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Tx',
+      T: PDFString.of('SecretField'),
+      V: PDFString.of('SecretValue'),
+      Rect: [10, 40, 100, 60],
+      P: page.ref
+    }));
+    const note = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Text',
+      Rect: [10, 70, 30, 90],
+      Contents: PDFString.of('SecretNote')
+    }));
+    const popup = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Popup',
+      Rect: [300, 300, 400, 400],
+      Parent: note,
+      Contents: PDFString.of('SecretPopup')
+    }));
+    context.lookup(note, PDFDict).set(PDFName.of('Popup'), popup);
+    const keptLink = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [500, 700, 590, 790],
+      A: { S: 'URI', URI: PDFString.of('https://example.com/KeptLink') }
+    }));
+
+    page.node.set(PDFName.of('Annots'), context.obj([link, widget, note, popup, keptLink]));
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), context.obj({ Fields: [widget] }));
+    return pdfDoc;
+  };
+
+  it('removes links, form fields and popups under a region', async () => {
+    const pdfDoc = await documentWithAnnotations();
+    const page = pdfDoc.getPage(0);
+    const stats = redactPageAnnotations(page, [rectToPolygon({ x: 0, y: 0, width: 200, height: 200 })]);
+    expect(stats).toEqual({ removedAnnotations: 3, flattenedAnnotations: 0, keptAnnotations: 0 });
+
+    removeUnreachableObjects(pdfDoc.context);
+    const pdfBytes = await pdfDoc.save({ useObjectStreams: false });
+    const text = latin1(pdfBytes);
+    ['SecretLink', 'SecretField', 'SecretValue', 'SecretNote', 'SecretPopup'].forEach(secret => {
+      expect(text).not.toContain(secret);
+    });
+    expect(text).toContain('KeptLink');
+
+    const saved = await PDFDocument.load(pdfBytes);
+    expect(saved.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray).size()).toBe(1);
+    const fields = saved.catalog.lookup(PDFName.of('AcroForm'), PDFDict).lookup(PDFName.of('Fields'), PDFArray);
+    expect(fields.size()).toBe(0);
+  });
+
+  it('keeps annotations of kinds whose policy says so', async () => {
+    const pdfDoc = await documentWithAnnotations();
+    const stats = redactPageAnnotations(
+      pdfDoc.getPage(0),
+      [rectToPolygon({ x: 0, y: 0, width: 200, height: 35 })],
+      { Link: 'keep' }
+    );
+    expect(stats).toEqual({ removedAnnotations: 0, flattenedAnnotations: 0, keptAnnotations: 1 });
+    expect(pdfDoc.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray).size()).toBe(5);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFStream,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState
+} from 'pdf-lib';
+import { AnnotationPolicy } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import { readMatrix, readRect } from './pdfContentStream';
+import { Point, Rect, applyMatrix, boundsOfPoints, coveredFraction, rectToPolygon } from './pdfGeometry';
+
+/**
+ * Counts of the annotations handled on a page
+ */
+export interface AnnotationRedactionStats {
+  /** Annotations deleted from the page */
+  removedAnnotations: number;
+  /** Annotations drawn into the page content and then deleted */
+  flattenedAnnotations: number;
+  /** Annotations intersecting a region that were left in place */
+  keptAnnotations: number;
+}
+
+// Annotation flags that keep an annotation from being displayed
+const FLAG_HIDDEN = 1 << 1;
+const FLAG_NO_VIEW = 1 << 5;
+
+const subtypeOf = (annotation: PDFDict): string => {
+  const subtype = annotation.lookup(PDFName.of('Subtype'));
+  return subtype instanceof PDFName ? subtype.decodeText() : '';
+};
+
+const isDisplayed = (annotation: PDFDict): boolean => {
+  const flags = annotation.lookup(PDFName.of('F'));
+  const value = flags instanceof PDFNumber ? flags.asNumber() : 0;
+  return (value & (FLAG_HIDDEN | FLAG_NO_VIEW)) === 0;
+};
+
+const intersectsRegions = (rect: Rect, regions: Point[][]): boolean => {
+  const polygon = rectToPolygon(rect);
+  return regions.some(region => coveredFraction(polygon, region) > 0);
+};
+
+/**
+ * The annotation's normal appearance stream, as a reference that can be
+ * drawn with `Do`. Appearance state dictionaries are resolved through /AS.
+ */
+const normalAppearance = (context: PDFContext, annotation: PDFDict): PDFRef | null => {
+  const appearances = annotation.lookup(PDFName.of('AP'));
+  if (!(appearances instanceof PDFDict)) return null;
+
+  let entry: PDFObject | undefined = appearances.get(PDFName.of('N'));
+  let resolved = entry && context.lookup(entry);
+  if (resolved instanceof PDFDict && !(resolved instanceof PDFStream)) {
+    const state = annotation.lookup(PDFName.of('AS'));
+    if (!(state instanceof PDFName)) return null;
+    entry = resolved.get(state);
+    resolved = entry && context.lookup(entry);
+  }
+  if (!(resolved instanceof PDFStream)) return null;
+  return entry instanceof PDFRef ? entry : context.register(resolved);
+};
+
+/**
+ * Draw an annotation's appearance into the page content, mapping its
+ * bounding box onto the annotation rectangle. Returns false when the
+ * annotation has nothing that can be drawn.
+ */
+const flattenAnnotation = (page: PDFPage, annotation: PDFDict, rect: Rect): boolean => {
+  const context = page.doc.context;
+  const appearanceRef = normalAppearance(context, annotation);
+  if (!appearanceRef) return false;
+  const appearance = context.lookup(appearanceRef, PDFStream);
+
+  const bbox = readRect(appearance.dict.lookup(PDFName.of('BBox')));
+  if (!bbox || bbox.width === 0 || bbox.height === 0) return false;
+  const matrix = readMatrix(appearance.dict.lookup(PDFName.of('Matrix')));
+  const box = boundsOfPoints(rectToPolygon(bbox).map(p => applyMatrix(matrix, p)));
+  if (box.width === 0 || box.height === 0) return false;
+
+  // Appearance streams may omit /Subtype, which a painted XObject needs
+  if (!appearance.dict.has(PDFName.of('Subtype'))) {
+    appearance.dict.set(PDFName.of('Subtype'), PDFName.of('Form'));
+  }
+
+  const scaleX = rect.width / box.width;
+  const scaleY = rect.height / box.height;
+  const name = page.node.newXObject('FlatAnnot', appearanceRef);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(scaleX, 0, 0, scaleY, rect.x - box.x * scaleX, rect.y - box.y * scaleY),
+    drawObject(name),
+    popGraphicsState()
+  );
+  return true;
+};
+
+/**
+ * Remove a widget from the interactive form, so that its field value does
+ * not survive the widget. Parent fields left without kids are removed too.
+ */
+const detachWidget = (context: PDFContext, acroForm: PDFObject | undefined, widgetRef: PDFRef): void => {
+  let childRef = widgetRef;
+  for (;;) {
+    const child = context.lookup(childRef);
+    const parentRef = child instanceof PDFDict ? child.get(PDFName.of('Parent')) : undefined;
+    const container = parentRef instanceof PDFRef
+      ? context.lookup(parentRef, PDFDict).lookup(PDFName.of('Kids'))
+      : acroForm instanceof PDFDict ? acroForm.lookup(PDFName.of('Fields')) : undefined;
+    if (!(container instanceof PDFArray)) return;
+
+    const index = container.indexOf(childRef);
+    if (index !== undefined) container.remove(index);
+    if (!(parentRef instanceof PDFRef) || container.size() > 0) return;
+    childRef = parentRef;
+  }
+};
+
+/**
+ * Apply the annotation policies to the annotations of a page whose /Rect
+ * intersects one of the regions.
+ *
+ * Regions are convex polygons in the page's default user space. Subtypes
+ * without a policy get `REDACTION_SETTINGS.defaultAnnotationPolicy`.
+ * Flattened appearances become part of the page content, so they must be
+ * drawn before the content under the regions is removed. Popups belonging to
+ * a removed or flattened annotation are removed with it.
+ */
+export const redactPageAnnotations = (
+  page: PDFPage,
+  regions: Point[][],
+  policies: Partial<Record<string, AnnotationPolicy>> = {}
+): AnnotationRedactionStats => {
+  const stats: AnnotationRedactionStats = { removedAnnotations: 0, flattenedAnnotations: 0, keptAnnotations: 0 };
+  const annots = page.node.Annots();
+  if (!annots || regions.length === 0) return stats;
+
+  const context = page.doc.context;
+  const acroForm = page.doc.catalog.lookup(PDFName.of('AcroForm'));
+  const dropped = new Set<PDFObject>();
+
+  for (let i = 0; i < annots.size(); i++) {
+    const entry = annots.get(i);
+    const annotation = annots.lookup(i);
+    if (!(annotation instanceof PDFDict)) continue;
+    const rect = readRect(annotation.lookup(PDFName.of('Rect')));
+    if (!rect || !intersectsRegions(rect, regions)) continue;
+
+    const subtype = subtypeOf(annotation);
+    const policy = policies[subtype] ?? REDACTION_SETTINGS.defaultAnnotationPolicy;
+    if (policy === 'keep') {
+      stats.keptAnnotations++;
+      continue;
+    }
+
+    if (policy === 'flatten' && isDisplayed(annotation) && flattenAnnotation(page, annotation, rect)) {
+      stats.flattenedAnnotations++;
+    } else {
+      stats.removedAnnotations++;
+    }
+    dropped.add(entry);
+    const popup = annotation.get(PDFName.of('Popup'));
+    if (popup) dropped.add(popup);
+    if (subtype === 'Widget' && entry instanceof PDFRef) {
+      detachWidget(context, acroForm, entry);
+    }
+  }
+
+  if (dropped.size > 0) {
+    // Build a new array rather than editing one that may be shared
+    const remaining = context.obj([]);
+    for (let i = 0; i < annots.size(); i++) {
+      const entry = annots.get(i);
+      if (!dropped.has(entry)) remaining.push(entry);
+    }
+    page.node.set(PDFName.of('Annots'), remaining);
+  }
+
+  return stats;
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parsePageRange, selectRepeatPages } from './pdfAreaRepeat';
+
+describe('parsePageRange', () => {
+  it('reads single pages and ranges', () => {
+    expect(parsePageRange('2-4, 7', 10)).toEqual([2, 3, 4, 7]);
+    expect(parsePageRange(' 3 - 3 ', 10)).toEqual([3]);
+  });
+
+  it('sorts the pages and drops duplicates', () => {
+    expect(parsePageRange('8, 2-4, 3', 10)).toEqual([2, 3, 4, 8]);
+  });
+
+  it('ignores empty entries', () => {
+    expect(parsePageRange('1,, 2,', 10)).toEqual([1, 2]);
+  });
+
+  it('rejects empty and malformed lists', () => {
+    ['', ' , ', 'a', '1-', '-3', '2-4-6', '1.5', '1 2'].forEach(range => {
+      expect(parsePageRange(range, 10)).toBeNull();
+    });
+  });
+
+  it('rejects pages outside the document and reversed ranges', () => {
+    expect(parsePageRange('0', 10)).toBeNull();
+    expect(parsePageRange('5-11', 10)).toBeNull();
+    expect(parsePageRange('4-2', 10)).toBeNull();
+  });
+});
+
+describe('selectRepeatPages', () => {
+  it('selects odd, even or all pages', () => {
+    expect(selectRepeatPages('odd', '', 5)).toEqual([1, 3, 5]);
+    expect(selectRepeatPages('even', '', 5)).toEqual([2, 4]);
+    expect(selectRepeatPages('all', '', 3)).toEqual([1, 2, 3]);
+  });
+
+  it('reads the range only for the range scope', () => {
+    expect(selectRepeatPages('range', '2-3', 5)).toEqual([2, 3]);
+    expect(selectRepeatPages('all', 'nonsense', 2)).toEqual([1, 2]);
+  });
+});
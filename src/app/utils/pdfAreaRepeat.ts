@@ -0,0 +1,93 @@
+import { RedactionArea, RepeatScope } from '../types/pdf';
+import { Matrix, invertMatrix, multiplyMatrices, transformRect } from './pdfGeometry';
+import { transformArea } from './pdfRedactionShape';
+
+/**
+ * A page as displayed at scale 1: its size in points after the crop box and
+ * rotation are applied, and the pdf.js viewport transform from user space
+ */
+export interface PageFrame {
+  width: number;
+  height: number;
+  transform: Matrix;
+}
+
+let linkCounter = 0;
+
+/**
+ * A new id linking an area with its repeated copies
+ */
+export const createLinkId = (): string =>
+  `link-${Date.now().toString(36)}-${(++linkCounter).toString(36)}`;
+
+/**
+ * Page numbers of a list such as "2-40, 45", in ascending order without
+ * duplicates. Returns null when the list is empty, malformed or names a page
+ * outside 1..totalPages.
+ */
+export const parsePageRange = (range: string, totalPages: number): number[] | null => {
+  const pages = new Set<number>();
+  const parts = range.split(',').map(part => part.trim()).filter(Boolean);
+  for (const part of parts) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const first = Number(match[1]);
+    const last = match[2] === undefined ? first : Number(match[2]);
+    if (first < 1 || last > totalPages || first > last) return null;
+    for (let page = first; page <= last; page++) pages.add(page);
+  }
+  return pages.size > 0 ? [...pages].sort((a, b) => a - b) : null;
+};
+
+/**
+ * Page numbers selected by a repeat scope; `range` is only read for the
+ * range scope. Returns null when the range is invalid.
+ */
+export const selectRepeatPages = (
+  scope: RepeatScope,
+  range: string,
+  totalPages: number
+): number[] | null => {
+  if (scope === 'range') return parsePageRange(range, totalPages);
+  const pages = Array.from({ length: totalPages }, (_, index) => index + 1);
+  switch (scope) {
+    case 'odd':
+      return pages.filter(page => page % 2 === 1);
+    case 'even':
+      return pages.filter(page => page % 2 === 0);
+    default:
+      return pages;
+  }
+};
+
+/**
+ * Shift along one axis of the displayed page that keeps an area at the same
+ * distance from the nearer edge, then keeps it on the target page
+ */
+const anchoredShift = (start: number, size: number, sourceExtent: number, targetExtent: number): number => {
+  const nearStart = start + size / 2 <= sourceExtent / 2;
+  const target = nearStart ? start : targetExtent - (sourceExtent - start);
+  return Math.max(0, Math.min(target, targetExtent - size)) - start;
+};
+
+/**
+ * Copy of an area for another page. The copy sits where the area is seen on
+ * its own page: at the same distance from the nearer edge across and down the
+ * displayed page, so that headers stay at the top and footers at the bottom
+ * of pages of another size, crop box or rotation.
+ */
+export const repeatArea = (
+  area: RedactionArea,
+  source: PageFrame,
+  target: PageFrame,
+  pageNumber: number
+): RedactionArea => {
+  const inverse = invertMatrix(target.transform);
+  if (!inverse) return { ...area, pageNumber };
+
+  const shown = transformRect(source.transform, area);
+  const dx = anchoredShift(shown.x, shown.width, source.width, target.width);
+  const dy = anchoredShift(shown.y, shown.height, source.height, target.height);
+  const toTarget = multiplyMatrices(multiplyMatrices(source.transform, [1, 0, 0, 1, dx, dy]), inverse);
+  return { ...transformArea(area, toTarget), pageNumber };
+};
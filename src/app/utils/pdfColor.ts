@@ -0,0 +1,16 @@
+import { Color, rgb } from 'pdf-lib';
+
+/**
+ * Convert hex color string to RGB color
+ */
+export const hexToRgb = (hex: string): Color => {
+  // Remove # if present
+  hex = hex.replace(/^#/, '');
+  
+  // Parse hex values
+  const r = parseInt(hex.substring(0, 2), 16) / 255;
+  const g = parseInt(hex.substring(2, 4), 16) / 255;
+  const b = parseInt(hex.substring(4, 6), 16) / 255;
+  
+  return rgb(r, g, b);
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFPage, PDFStream, PDFString, StandardFonts } from 'pdf-lib';
+import { redactPageContent } from './pdfContentRedactor';
+import { getDecodedStreamContents, getPageContents, parseContentStream } from './pdfContentStream';
+import { rectToPolygon } from './pdfGeometry';
+
+// Text shown by the string operands of the page content, one entry per operand
+const shownStrings = (page: PDFPage): string[] => {
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => page.doc.context.lookup(ref, PDFStream))
+    : contents ? [contents] : [];
+  return streams
+    .flatMap(stream => parseContentStream(getDecodedStreamContents(stream)))
+    .filter(operation => ['Tj', 'TJ', "'", '"'].includes(operation.operator))
+    .flatMap(operation => operation.operands.flatMap(operand => (operand.type === 'array' ? operand.items : [operand])))
+    .flatMap(operand => (operand.type === 'string' ? [String.fromCharCode(...operand.value)] : []));
+};
+
+// A page showing a line of Helvetica text at (50, 100), read back from a
+// saved file so that the font is written out as in any loaded document
+const pageWithText = async (text: string) => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([400, 200]).drawText(text, { x: 50, y: 100, size: 20, font });
+  const loaded = await PDFDocument.load(await pdfDoc.save());
+  return { page: loaded.getPage(0), font };
+};
+
+describe('redactPageContent', () => {
+  it('removes the glyphs inside a region and keeps the others', async () => {
+    const { page, font } = await pageWithText('Hello Secret');
+    const secretX = 50 + font.widthOfTextAtSize('Hello ', 20);
+    const region = rectToPolygon({ x: secretX - 1, y: 90, width: 200, height: 40 });
+
+    const stats = await redactPageContent(page, [region]);
+
+    expect(stats.removedGlyphs).toBe(6);
+    expect(shownStrings(page).join('')).toBe('Hello ');
+  });
+
+  it('leaves the page alone when no glyph is covered', async () => {
+    const { page } = await pageWithText('Hello Secret');
+    const before = shownStrings(page);
+
+    const stats = await redactPageContent(page, [rectToPolygon({ x: 0, y: 0, width: 400, height: 50 })]);
+
+    expect(stats.removedGlyphs).toBe(0);
+    expect(shownStrings(page)).toEqual(before);
+  });
+
+  it('drops the replacement text of marked content that loses glyphs', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const page = pdfDoc.addPage([400, 200]);
+    const { context } = pdfDoc;
+    const line = (y: number, text: string) => `BT /F1 20 Tf 50 ${y} Td (${text}) Tj ET`;
+    page.node.set(PDFName.of('Resources'), context.obj({
+      Font: { F1: font.ref },
+      Properties: { P0: { MCID: 1, Alt: PDFString.of('HiddenAlt'), E: PDFString.of('HiddenE') } }
+    }));
+    page.node.set(PDFName.of('Contents'), context.register(context.stream([
+      `/Span <</MCID 0 /ActualText (Secret)>> BDC ${line(100, 'Secret')} EMC`,
+      `/Span /P0 BDC ${line(50, 'Hidden')} EMC`,
+      `/Span <</Alt (Kept)>> BDC ${line(150, 'Kept')} EMC`
+    ].join('\n'))));
+    const loaded = await PDFDocument.load(await pdfDoc.save());
+    const loadedPage = loaded.getPage(0);
+
+    await redactPageContent(loadedPage, [rectToPolygon({ x: 0, y: 40, width: 400, height: 85 })]);
+
+    const [secret, hidden, kept] = parseContentStream(getPageContents(loadedPage)!)
+      .filter(operation => operation.operator === 'BDC')
+      .map(operation => operation.operands[1]);
+    expect(secret).toEqual({ type: 'dict', entries: [['MCID', { type: 'number', value: 0 }]] });
+    expect(kept).toEqual({ type: 'dict', entries: [['Alt', { type: 'string', value: new TextEncoder().encode('Kept') }]] });
+
+    const properties = loadedPage.node.Resources()!.lookup(PDFName.of('Properties'), PDFDict);
+    const copyName = hidden.type === 'name' ? hidden.value : '';
+    expect(copyName).not.toBe('');
+    expect(copyName).not.toBe('P0');
+    const copy = properties.lookup(PDFName.of(copyName), PDFDict);
+    expect(copy.keys().map(key => key.decodeText())).toEqual(['MCID']);
+    // The original may be used elsewhere, so it is left as it was
+    expect(properties.lookup(PDFName.of('P0'), PDFDict).has(PDFName.of('Alt'))).toBe(true);
+  });
+});
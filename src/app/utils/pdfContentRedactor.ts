@@ -0,0 +1,598 @@
+import {
+  PDFContext,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFStream
+} from 'pdf-lib';
+import {
+  ContentOperand,
+  ContentOperation,
+  createFlateStreamLike,
+  getDecodedStreamContents,
+  getPageContents,
+  operandNumber,
+  parseContentStream,
+  readMatrix,
+  serializeContentStream
+} from './pdfContentStream';
+import { DEFAULT_FONT_METRICS, FontMetrics, getFontMetrics } from './pdfFontMetrics';
+import {
+  IDENTITY_MATRIX,
+  Matrix,
+  Point,
+  applyMatrix,
+  coveredFraction,
+  multiplyMatrices,
+  toCounterClockwise
+} from './pdfGeometry';
+import { imageIntersectsRegions, scrubImageXObject } from './pdfImageRedactor';
+import {
+  CLIPPING_OPERATORS,
+  ContentPath,
+  PATH_CONSTRUCTION_OPERATORS,
+  PATH_PAINTING_OPERATORS
+} from './pdfPathRedactor';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+
+/**
+ * Counts of the content removed from a page
+ */
+export interface ContentRedactionStats {
+  /** Number of glyphs removed from text-showing operators */
+  removedGlyphs: number;
+  /** Number of Form XObjects that were rewritten */
+  rewrittenForms: number;
+  /** Number of image XObjects whose pixels were overwritten */
+  scrubbedImages: number;
+  /** Number of inline images removed */
+  removedInlineImages: number;
+  /** Number of painted paths removed entirely */
+  removedPaths: number;
+  /** Number of painted or clipping paths split around a region */
+  splitPaths: number;
+}
+
+interface TextState {
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScaling: number;
+  leading: number;
+  fontSize: number;
+  rise: number;
+  font: FontMetrics;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  lineWidth: number;
+  text: TextState;
+}
+
+// Maximum nesting of Form XObjects, guarding against reference cycles
+const MAX_FORM_DEPTH = 12;
+
+// Property list entries that stand in for the content of a marked-content
+// sequence when its text is extracted or read aloud
+const REPLACEMENT_TEXT_KEYS = ['ActualText', 'Alt', 'E'];
+
+const initialState = (): GraphicsState => ({
+  ctm: IDENTITY_MATRIX,
+  lineWidth: 1,
+  text: {
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScaling: 1,
+    leading: 0,
+    fontSize: 0,
+    rise: 0,
+    font: DEFAULT_FONT_METRICS
+  }
+});
+
+const cloneState = (state: GraphicsState): GraphicsState => ({
+  ctm: state.ctm,
+  lineWidth: state.lineWidth,
+  text: { ...state.text }
+});
+
+/**
+ * Copy-on-write view of a resource dictionary. Rewritten XObjects and property
+ * lists are added to a cloned dictionary under new names, so that resources
+ * shared with other pages, forms or other uses on the same page are never
+ * modified.
+ */
+class ResourceScope {
+  private cloned: PDFDict | undefined;
+  private readonly clonedCategories = new Map<string, PDFDict>();
+
+  constructor(
+    private readonly context: PDFContext,
+    private readonly original: PDFDict | undefined
+  ) {}
+
+  get current(): PDFDict | undefined {
+    return this.cloned ?? this.original;
+  }
+
+  /** The cloned dictionary, or undefined if nothing was replaced */
+  get modified(): PDFDict | undefined {
+    return this.cloned;
+  }
+
+  lookup(category: string, name: string): PDFObject | undefined {
+    const group = this.current?.lookup(PDFName.of(category));
+    return group instanceof PDFDict ? group.lookup(PDFName.of(name)) : undefined;
+  }
+
+  /** Register a rewritten resource of a category under a new name and return that name */
+  addResource(category: string, tag: string, ref: PDFRef): string {
+    if (!this.cloned) {
+      this.cloned = this.original ? this.original.clone(this.context) : this.context.obj({});
+    }
+    let group = this.clonedCategories.get(category);
+    if (!group) {
+      const existing = this.cloned.lookup(PDFName.of(category));
+      group = existing instanceof PDFDict ? existing.clone(this.context) : this.context.obj({});
+      this.cloned.set(PDFName.of(category), group);
+      this.clonedCategories.set(category, group);
+    }
+    const name = group.uniqueKey(tag);
+    group.set(name, ref);
+    return name.decodeText();
+  }
+}
+
+const operandsToMatrix = (operands: ContentOperand[]): Matrix =>
+  [0, 1, 2, 3, 4, 5].map(i => operandNumber(operands[i])) as Matrix;
+
+/**
+ * Walks page and Form XObject content streams and removes the content that
+ * falls inside redaction regions
+ */
+class ContentRedactor {
+  readonly stats: ContentRedactionStats = {
+    removedGlyphs: 0,
+    rewrittenForms: 0,
+    scrubbedImages: 0,
+    removedInlineImages: 0,
+    removedPaths: 0,
+    splitPaths: 0
+  };
+  readonly regions: Point[][];
+
+  constructor(
+    private readonly context: PDFContext,
+    regions: Point[][],
+    private readonly glyphCoverageThreshold: number
+  ) {
+    this.regions = regions.map(toCounterClockwise);
+  }
+
+  /**
+   * Redact a page's content streams in place
+   */
+  async redactPage(page: PDFPage): Promise<void> {
+    const node = page.node;
+    const joined = getPageContents(page);
+    if (!joined) return;
+
+    const resources = this.context.lookupMaybe(
+      node.getInheritableAttribute(PDFName.of('Resources')),
+      PDFDict
+    );
+    const scope = new ResourceScope(this.context, resources);
+    const result = await this.redactOperations(parseContentStream(joined), scope, initialState(), 0);
+
+    if (result) {
+      const streamRef = this.context.register(this.context.flateStream(serializeContentStream(result)));
+      node.set(PDFName.of('Contents'), this.context.obj([streamRef]));
+    }
+    if (scope.modified) {
+      node.set(PDFName.of('Resources'), scope.modified);
+    }
+  }
+
+  /**
+   * Walk a list of operations. Returns the rewritten list, or null when
+   * nothing inside it needed to change.
+   */
+  private async redactOperations(
+    operations: ContentOperation[],
+    scope: ResourceScope,
+    startState: GraphicsState,
+    depth: number
+  ): Promise<ContentOperation[] | null> {
+    const output: ContentOperation[] = [];
+    const stack: GraphicsState[] = [];
+    let state = cloneState(startState);
+    let textMatrix: Matrix = IDENTITY_MATRIX;
+    let lineMatrix: Matrix = IDENTITY_MATRIX;
+    let path = new ContentPath(state.ctm);
+    let clip: ContentOperation | null = null;
+    let changes = 0;
+    // Marked-content sequences open at this point: where their BMC or BDC is
+    // in the output, and the number of changes made before it
+    const markedContent: { index: number; changesBefore: number }[] = [];
+    const closeSequence = (sequence: { index: number; changesBefore: number }) => {
+      if (changes > sequence.changesBefore) {
+        output[sequence.index] = this.withoutReplacementText(output[sequence.index], scope);
+      }
+    };
+
+    const moveText = (tx: number, ty: number) => {
+      lineMatrix = multiplyMatrices([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const show = (operation: ContentOperation, elements: ContentOperand[], prefix: ContentOperation[]) => {
+      const result = this.showText(elements, state, textMatrix);
+      textMatrix = result.textMatrix;
+      if (result.rewritten) {
+        changes++;
+        output.push(...prefix, { operator: 'TJ', operands: [{ type: 'array', items: result.rewritten }] });
+      } else {
+        output.push(operation);
+      }
+    };
+
+    for (const operation of operations) {
+      const { operator, operands } = operation;
+
+      // A path must be painted straight after it is built; pass through
+      // anything malformed unchanged
+      if (!path.isEmpty && !PATH_CONSTRUCTION_OPERATORS.has(operator) &&
+          !CLIPPING_OPERATORS.has(operator) && !PATH_PAINTING_OPERATORS.has(operator)) {
+        output.push(...path.operations, ...(clip ? [clip] : []));
+        path = new ContentPath(state.ctm);
+        clip = null;
+      }
+
+      if (PATH_CONSTRUCTION_OPERATORS.has(operator)) {
+        if (path.isEmpty) path = new ContentPath(state.ctm);
+        path.append(operation);
+        continue;
+      }
+      if (CLIPPING_OPERATORS.has(operator)) {
+        clip = operation;
+        continue;
+      }
+      if (PATH_PAINTING_OPERATORS.has(operator)) {
+        const result = path.redact(operation, clip, state.lineWidth, this.regions);
+        if (result) {
+          changes++;
+          this.stats[result.removed ? 'removedPaths' : 'splitPaths']++;
+          output.push(...result.operations);
+        } else {
+          output.push(...path.operations, ...(clip ? [clip] : []), operation);
+        }
+        path = new ContentPath(state.ctm);
+        clip = null;
+        continue;
+      }
+
+      switch (operator) {
+        case 'q':
+          stack.push(cloneState(state));
+          output.push(operation);
+          break;
+        case 'Q':
+          state = stack.pop() ?? state;
+          output.push(operation);
+          break;
+        case 'cm':
+          state.ctm = multiplyMatrices(operandsToMatrix(operands), state.ctm);
+          output.push(operation);
+          break;
+        case 'w':
+          state.lineWidth = operandNumber(operands[0]);
+          output.push(operation);
+          break;
+        case 'gs': {
+          const extGState = scope.lookup('ExtGState', operands[0]?.type === 'name' ? operands[0].value : '');
+          const lineWidth = extGState instanceof PDFDict ? extGState.lookup(PDFName.of('LW')) : undefined;
+          if (lineWidth instanceof PDFNumber) state.lineWidth = lineWidth.asNumber();
+          output.push(operation);
+          break;
+        }
+        case 'BT':
+          textMatrix = IDENTITY_MATRIX;
+          lineMatrix = IDENTITY_MATRIX;
+          output.push(operation);
+          break;
+        case 'Tf': {
+          const fontName = operands[0]?.type === 'name' ? operands[0].value : '';
+          const fontDict = scope.lookup('Font', fontName);
+          state.text.font = fontDict instanceof PDFDict ? getFontMetrics(fontDict) : DEFAULT_FONT_METRICS;
+          state.text.fontSize = operandNumber(operands[1]);
+          output.push(operation);
+          break;
+        }
+        case 'Tc':
+          state.text.charSpacing = operandNumber(operands[0]);
+          output.push(operation);
+          break;
+        case 'Tw':
+          state.text.wordSpacing = operandNumber(operands[0]);
+          output.push(operation);
+          break;
+        case 'Tz':
+          state.text.horizontalScaling = operandNumber(operands[0]) / 100;
+          output.push(operation);
+          break;
+        case 'TL':
+          state.text.leading = operandNumber(operands[0]);
+          output.push(operation);
+          break;
+        case 'Ts':
+          state.text.rise = operandNumber(operands[0]);
+          output.push(operation);
+          break;
+        case 'Td':
+          moveText(operandNumber(operands[0]), operandNumber(operands[1]));
+          output.push(operation);
+          break;
+        case 'TD':
+          state.text.leading = -operandNumber(operands[1]);
+          moveText(operandNumber(operands[0]), operandNumber(operands[1]));
+          output.push(operation);
+          break;
+        case 'Tm':
+          lineMatrix = operandsToMatrix(operands);
+          textMatrix = lineMatrix;
+          output.push(operation);
+          break;
+        case 'T*':
+          moveText(0, -state.text.leading);
+          output.push(operation);
+          break;
+        case 'Tj':
+          show(operation, operands.slice(0, 1), []);
+          break;
+        case 'TJ':
+          show(operation, operands[0]?.type === 'array' ? operands[0].items : [], []);
+          break;
+        case "'":
+          moveText(0, -state.text.leading);
+          show(operation, operands.slice(0, 1), [{ operator: 'T*', operands: [] }]);
+          break;
+        case '"':
+          state.text.wordSpacing = operandNumber(operands[0]);
+          state.text.charSpacing = operandNumber(operands[1]);
+          moveText(0, -state.text.leading);
+          show(operation, operands.slice(2, 3), [
+            { operator: 'Tw', operands: [operands[0]] },
+            { operator: 'Tc', operands: [operands[1]] },
+            { operator: 'T*', operands: [] }
+          ]);
+          break;
+        case 'Do': {
+          const name = operands[0]?.type === 'name' ? operands[0].value : '';
+          const replacement = await this.redactXObject(name, scope, state, depth);
+          if (replacement) {
+            changes++;
+            output.push({ operator: 'Do', operands: [{ type: 'name', value: replacement }] });
+          } else {
+            output.push(operation);
+          }
+          break;
+        }
+        case 'BMC':
+        case 'BDC':
+          markedContent.push({ index: output.length, changesBefore: changes });
+          output.push(operation);
+          break;
+        case 'EMC': {
+          const sequence = markedContent.pop();
+          if (sequence) closeSequence(sequence);
+          output.push(operation);
+          break;
+        }
+        case 'BI':
+          // Inline images are small and rarely shared, so drop them entirely
+          if (imageIntersectsRegions(state.ctm, this.regions)) {
+            this.stats.removedInlineImages++;
+            changes++;
+          } else {
+            output.push(operation);
+          }
+          break;
+        default:
+          output.push(operation);
+      }
+    }
+
+    output.push(...path.operations, ...(clip ? [clip] : []));
+    markedContent.forEach(closeSequence);
+    return changes > 0 ? output : null;
+  }
+
+  /**
+   * A BDC operation without the replacement text in its property list, which
+   * would still give away content removed from inside the sequence. Named
+   * property lists are copied rather than edited, as they may be shared.
+   */
+  private withoutReplacementText(operation: ContentOperation, scope: ResourceScope): ContentOperation {
+    const [tag, properties] = operation.operands;
+    if (operation.operator !== 'BDC') return operation;
+
+    if (properties?.type === 'dict') {
+      const entries = properties.entries.filter(([key]) => !REPLACEMENT_TEXT_KEYS.includes(key));
+      if (entries.length === properties.entries.length) return operation;
+      return { operator: 'BDC', operands: [tag, { type: 'dict', entries }] };
+    }
+
+    if (properties?.type === 'name') {
+      const propertyList = scope.lookup('Properties', properties.value);
+      if (!(propertyList instanceof PDFDict) || !REPLACEMENT_TEXT_KEYS.some(key => propertyList.has(PDFName.of(key)))) {
+        return operation;
+      }
+      const copy = propertyList.clone(this.context);
+      REPLACEMENT_TEXT_KEYS.forEach(key => copy.delete(PDFName.of(key)));
+      const name = scope.addResource('Properties', 'Redacted', this.context.register(copy));
+      return { operator: 'BDC', operands: [tag, { type: 'name', value: name }] };
+    }
+    return operation;
+  }
+
+  /**
+   * Process a text-showing operation. Returns the updated text matrix and,
+   * if any glyph was removed, a TJ array that keeps the remaining glyphs at
+   * their original positions.
+   */
+  private showText(
+    elements: ContentOperand[],
+    state: GraphicsState,
+    startMatrix: Matrix
+  ): { textMatrix: Matrix; rewritten: ContentOperand[] | null } {
+    const { text } = state;
+    const horizontalScale = text.fontSize * text.horizontalScaling;
+    const rewritten: ContentOperand[] = [];
+    let pending: number[] = [];
+    let removedAny = false;
+    let textMatrix = startMatrix;
+
+    const flushString = () => {
+      if (pending.length > 0) {
+        rewritten.push({ type: 'string', value: new Uint8Array(pending) });
+        pending = [];
+      }
+    };
+    const pushAdjustment = (value: number) => {
+      flushString();
+      const last = rewritten[rewritten.length - 1];
+      if (last?.type === 'number') {
+        last.value += value;
+      } else {
+        rewritten.push({ type: 'number', value });
+      }
+    };
+
+    for (const element of elements) {
+      if (element.type === 'number') {
+        textMatrix = multiplyMatrices([1, 0, 0, 1, (-element.value / 1000) * horizontalScale, 0], textMatrix);
+        pushAdjustment(element.value);
+        continue;
+      }
+      if (element.type !== 'string') continue;
+
+      for (const code of text.font.decode(element.value)) {
+        const glyphWidth = text.font.widthOf(code.code);
+        const advance = (glyphWidth * text.fontSize + text.charSpacing + (code.isSpace ? text.wordSpacing : 0))
+          * text.horizontalScaling;
+
+        const renderMatrix = multiplyMatrices(
+          [horizontalScale, 0, 0, text.fontSize, 0, text.rise],
+          multiplyMatrices(textMatrix, state.ctm)
+        );
+        const glyphBox = [
+          { x: 0, y: text.font.descent },
+          { x: glyphWidth, y: text.font.descent },
+          { x: glyphWidth, y: text.font.ascent },
+          { x: 0, y: text.font.ascent }
+        ].map(p => applyMatrix(renderMatrix, p));
+
+        if (this.isCovered(glyphBox)) {
+          removedAny = true;
+          this.stats.removedGlyphs++;
+          // Replace the glyph with an equivalent horizontal displacement
+          pushAdjustment(horizontalScale !== 0 ? (-advance * 1000) / horizontalScale : 0);
+        } else {
+          pending.push(...code.bytes);
+        }
+
+        textMatrix = multiplyMatrices([1, 0, 0, 1, advance, 0], textMatrix);
+      }
+    }
+    flushString();
+
+    return { textMatrix, rewritten: removedAny ? rewritten : null };
+  }
+
+  private isCovered(polygon: Point[]): boolean {
+    let covered = 0;
+    for (const region of this.regions) {
+      covered += coveredFraction(polygon, region);
+      if (covered >= this.glyphCoverageThreshold) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Redact an XObject drawn with `Do`. Forms are walked recursively and
+   * images have their covered pixels overwritten. When anything changes, a
+   * rewritten copy is added to the resource scope and its name returned.
+   */
+  private async redactXObject(
+    name: string,
+    scope: ResourceScope,
+    state: GraphicsState,
+    depth: number
+  ): Promise<string | null> {
+    const xObject = scope.lookup('XObject', name);
+    if (!(xObject instanceof PDFStream)) return null;
+    const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+    const subtypeName = subtype instanceof PDFName ? subtype.decodeText() : '';
+
+    if (subtypeName === 'Image') {
+      const scrubbed = await scrubImageXObject(this.context, xObject, state.ctm, this.regions);
+      if (!scrubbed) return null;
+      this.stats.scrubbedImages++;
+      return scope.addResource('XObject', 'RedactedImage', this.context.register(scrubbed));
+    }
+
+    // A stream with a /BBox but no /Subtype is read as a form, as viewers do
+    const isForm = subtypeName === 'Form' || (!subtype && xObject.dict.has(PDFName.of('BBox')));
+    if (!isForm || depth >= MAX_FORM_DEPTH) return null;
+
+    // The form inherits the graphics state in effect when it is painted
+    const formState = cloneState(state);
+    formState.ctm = multiplyMatrices(readMatrix(xObject.dict.lookup(PDFName.of('Matrix'))), state.ctm);
+    const formResources = xObject.dict.lookup(PDFName.of('Resources'));
+    // Forms without their own resources use those of the enclosing content
+    const formScope = new ResourceScope(
+      this.context,
+      formResources instanceof PDFDict ? formResources : scope.current
+    );
+
+    const operations = parseContentStream(getDecodedStreamContents(xObject));
+    const result = await this.redactOperations(operations, formScope, formState, depth + 1);
+    if (!result && !formScope.modified) return null;
+
+    const bytes = result ? serializeContentStream(result) : getDecodedStreamContents(xObject);
+    const replacement = createFlateStreamLike(this.context, xObject.dict, bytes);
+    if (formScope.modified) {
+      replacement.dict.set(PDFName.of('Resources'), formScope.modified);
+    }
+    this.stats.rewrittenForms++;
+    return scope.addResource('XObject', 'RedactedForm', this.context.register(replacement));
+  }
+}
+
+/**
+ * Remove the page content that lies inside the given regions.
+ *
+ * Regions are convex polygons in the page's default user space. Glyphs are
+ * removed from text-showing operators (Tj, TJ, ' and ") when at least
+ * `glyphCoverageThreshold` of their box is covered; the remaining glyphs keep
+ * their positions. Covered image pixels are overwritten and inline images
+ * touching a region are dropped. Vector paths are cut around the regions,
+ * and clipping paths lose the covered area so that nothing drawn through
+ * them shows inside a region. Marked-content sequences that lose content
+ * also lose their /ActualText, /Alt and /E replacement text. Form XObjects and images are rewritten
+ * copy-on-write, so resources shared with other pages stay intact.
+ */
+export const redactPageContent = async (
+  page: PDFPage,
+  regions: Point[][],
+  glyphCoverageThreshold: number = REDACTION_SETTINGS.glyphCoverageThreshold
+): Promise<ContentRedactionStats> => {
+  const redactor = new ContentRedactor(page.doc.context, regions, glyphCoverageThreshold);
+  if (regions.length > 0) {
+    await redactor.redactPage(page);
+  }
+  return redactor.stats;
+};
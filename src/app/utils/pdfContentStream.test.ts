@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ContentOperation, parseContentStream, serializeContentStream } from './pdfContentStream';
+
+const encode = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0));
+
+// Operations without their original bytes, as they are after a rewrite
+const rewritten = (operations: ContentOperation[]): ContentOperation[] =>
+  operations.map(operation => ({ ...operation, raw: undefined }));
+
+describe('parseContentStream', () => {
+  it('reads operands of every type', () => {
+    const [operation] = parseContentStream(encode('[(a\\)b) -120 <0102> /N#20x true null] << /K 1.5 >> Op'));
+    expect(operation.operator).toBe('Op');
+    expect(operation.operands).toEqual([
+      {
+        type: 'array',
+        items: [
+          { type: 'string', value: encode('a)b') },
+          { type: 'number', value: -120 },
+          { type: 'string', value: new Uint8Array([1, 2]) },
+          { type: 'name', value: 'N x' },
+          { type: 'boolean', value: true },
+          { type: 'null' }
+        ]
+      },
+      { type: 'dict', entries: [['K', { type: 'number', value: 1.5 }]] }
+    ]);
+  });
+
+  it('skips comments', () => {
+    const operations = parseContentStream(encode('% a comment\n1 0 0 1 10 20 cm % another\nq Q'));
+    expect(operations.map(operation => operation.operator)).toEqual(['cm', 'q', 'Q']);
+  });
+
+  it('keeps the data of inline images', () => {
+    const [, image, after] = parseContentStream(encode('q BI /W 2 /H 1 /BPC 8 /CS /G ID ÿ\u0000 EI Q'));
+    expect(image.operator).toBe('BI');
+    expect(image.inlineImageData).toEqual(new Uint8Array([0xff, 0x00]));
+    expect(after.operator).toBe('Q');
+  });
+});
+
+describe('serializeContentStream', () => {
+  const source = [
+    'q 0.5 0 0 0.5 12.25 -3 cm',
+    'BT /F1 12 Tf 72 700 Td [(Hello) -250 (W\\(orld\\))] TJ ET',
+    '/OC /Layer#201 BDC 0 0 m 10 10 l S EMC',
+    'BI /W 1 /H 1 /BPC 8 /CS /G ID \u0080 EI',
+    'Q'
+  ].join('\n');
+
+  it('writes unchanged operations back byte for byte', () => {
+    const operations = parseContentStream(encode(source));
+    expect(parseContentStream(serializeContentStream(operations))).toEqual(operations.map(operation => ({
+      ...operation,
+      raw: expect.any(Uint8Array)
+    })));
+  });
+
+  it('round trips rewritten operations', () => {
+    const operations = rewritten(parseContentStream(encode(source)));
+    expect(rewritten(parseContentStream(serializeContentStream(operations)))).toEqual(operations);
+  });
+
+  it('writes numbers without exponents', () => {
+    const bytes = serializeContentStream([
+      { operator: 'w', operands: [{ type: 'number', value: 1e-7 }] },
+      { operator: 'w', operands: [{ type: 'number', value: 0.1234567 }] }
+    ]);
+    expect(new TextDecoder().decode(bytes)).toBe('0 w\n0.123457 w\n');
+  });
+});
@@ -0,0 +1,527 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFStream,
+  decodePDFRawStream
+} from 'pdf-lib';
+import { IDENTITY_MATRIX, Matrix, Rect } from './pdfGeometry';
+
+/**
+ * Operand of a content stream operator
+ */
+export type ContentOperand =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: Uint8Array }
+  | { type: 'name'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' }
+  | { type: 'array'; items: ContentOperand[] }
+  | { type: 'dict'; entries: [string, ContentOperand][] };
+
+/**
+ * A single operator with its operands, as found in a content stream
+ */
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  /** Image data for inline images (BI ... ID <data> EI) */
+  inlineImageData?: Uint8Array;
+  /** Original bytes of the operation; dropped when the operation is rewritten */
+  raw?: Uint8Array;
+}
+
+// Byte values used by the tokenizer
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isWhitespace = (byte: number) => WHITESPACE.has(byte);
+const isDelimiter = (byte: number) => DELIMITERS.has(byte);
+const isRegular = (byte: number) => !isWhitespace(byte) && !isDelimiter(byte);
+
+/**
+ * Returns the decoded bytes of any stream, whether it was parsed from the
+ * file or created by pdf-lib during this session
+ */
+export const getDecodedStreamContents = (stream: PDFStream): Uint8Array => {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  const unencoded = (stream as PDFStream & { getUnencodedContents?: () => Uint8Array })
+    .getUnencodedContents;
+  if (typeof unencoded === 'function') {
+    return unencoded.call(stream);
+  }
+  return stream.getContents();
+};
+
+/**
+ * Create a Flate-encoded stream with the same dictionary entries as `original`
+ */
+export const createFlateStreamLike = (
+  context: PDFContext,
+  original: PDFDict,
+  contents: Uint8Array
+): PDFStream => {
+  const stream = context.flateStream(contents);
+  for (const [key, value] of original.entries()) {
+    const name = key.decodeText();
+    if (name === 'Filter' || name === 'DecodeParms' || name === 'Length' || name === 'DL') continue;
+    stream.dict.set(key, value);
+  }
+  return stream;
+};
+
+/**
+ * Decoded contents of a page with its content streams joined, or null if it
+ * has none. Streams may split operators between them, so they are parsed as one.
+ */
+export const getPageContents = (page: PDFPage): Uint8Array | null => {
+  const contents = page.node.Contents();
+  if (!contents) return null;
+
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+
+  const chunks = streams.map(getDecodedStreamContents);
+  const joined = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length + 1, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    joined[offset + chunk.length] = 0x0a;
+    offset += chunk.length + 1;
+  }
+  return joined;
+};
+
+/**
+ * Tokenizer and parser for PDF content streams
+ */
+class ContentStreamParser {
+  private pos = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  parse(): ContentOperation[] {
+    const operations: ContentOperation[] = [];
+    let operands: ContentOperand[] = [];
+    let opStart = -1;
+
+    while (true) {
+      this.skipWhitespaceAndComments();
+      if (this.pos >= this.bytes.length) break;
+      if (opStart < 0) opStart = this.pos;
+
+      const operand = this.readOperand();
+      if (operand) {
+        operands.push(operand);
+        continue;
+      }
+
+      const operator = this.readKeyword();
+      if (!operator) {
+        // Unknown byte - skip it rather than failing the whole stream
+        this.pos++;
+        continue;
+      }
+
+      const operation: ContentOperation = { operator, operands };
+      if (operator === 'BI') {
+        this.readInlineImage(operation);
+      }
+      operation.raw = this.bytes.subarray(opStart, this.pos);
+      operations.push(operation);
+      operands = [];
+      opStart = -1;
+    }
+
+    return operations;
+  }
+
+  private peek(offset = 0): number {
+    return this.bytes[this.pos + offset];
+  }
+
+  private skipWhitespaceAndComments(): void {
+    while (this.pos < this.bytes.length) {
+      const byte = this.peek();
+      if (isWhitespace(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < this.bytes.length && this.peek() !== 0x0a && this.peek() !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readOperand(): ContentOperand | null {
+    const byte = this.peek();
+
+    if (byte === 0x2f) return this.readName();
+    if (byte === 0x28) return this.readLiteralString();
+    if (byte === 0x3c) {
+      return this.peek(1) === 0x3c ? this.readDict() : this.readHexString();
+    }
+    if (byte === 0x5b) return this.readArray();
+    if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2b || byte === 0x2d || byte === 0x2e) {
+      return this.readNumber();
+    }
+
+    // Keywords that are operands rather than operators
+    const start = this.pos;
+    const keyword = this.readKeyword();
+    if (keyword === 'true' || keyword === 'false') {
+      return { type: 'boolean', value: keyword === 'true' };
+    }
+    if (keyword === 'null') {
+      return { type: 'null' };
+    }
+    this.pos = start;
+    return null;
+  }
+
+  private readKeyword(): string | null {
+    const start = this.pos;
+    while (this.pos < this.bytes.length && isRegular(this.peek())) {
+      this.pos++;
+    }
+    if (this.pos === start) return null;
+    return String.fromCharCode(...this.bytes.subarray(start, this.pos));
+  }
+
+  private readNumber(): ContentOperand {
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.bytes.length) {
+      const byte = this.peek();
+      if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2e || byte === 0x2d) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+    const text = String.fromCharCode(...this.bytes.subarray(start, this.pos));
+    const value = parseFloat(text);
+    return { type: 'number', value: Number.isFinite(value) ? value : 0 };
+  }
+
+  private readName(): ContentOperand {
+    this.pos++; // skip '/'
+    let name = '';
+    while (this.pos < this.bytes.length && isRegular(this.peek())) {
+      const byte = this.peek();
+      if (byte === 0x23 && this.pos + 2 < this.bytes.length) {
+        const hex = String.fromCharCode(this.peek(1), this.peek(2));
+        const code = parseInt(hex, 16);
+        if (!Number.isNaN(code)) {
+          name += String.fromCharCode(code);
+          this.pos += 3;
+          continue;
+        }
+      }
+      name += String.fromCharCode(byte);
+      this.pos++;
+    }
+    return { type: 'name', value: name };
+  }
+
+  private readLiteralString(): ContentOperand {
+    this.pos++; // skip '('
+    const out: number[] = [];
+    let depth = 1;
+
+    while (this.pos < this.bytes.length) {
+      const byte = this.bytes[this.pos++];
+      if (byte === 0x28) {
+        depth++;
+        out.push(byte);
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) break;
+        out.push(byte);
+      } else if (byte === 0x5c) {
+        const next = this.bytes[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d:
+            // Line continuation, optionally CRLF
+            if (this.peek() === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2; i++) {
+                const digit = this.peek();
+                if (digit >= 0x30 && digit <= 0x37) {
+                  octal = octal * 8 + (digit - 0x30);
+                  this.pos++;
+                } else {
+                  break;
+                }
+              }
+              out.push(octal & 0xff);
+            } else if (next !== undefined) {
+              out.push(next);
+            }
+        }
+      } else {
+        out.push(byte);
+      }
+    }
+
+    return { type: 'string', value: new Uint8Array(out) };
+  }
+
+  private readHexString(): ContentOperand {
+    this.pos++; // skip '<'
+    let hex = '';
+    while (this.pos < this.bytes.length && this.peek() !== 0x3e) {
+      const byte = this.bytes[this.pos++];
+      if (!isWhitespace(byte)) hex += String.fromCharCode(byte);
+    }
+    this.pos++; // skip '>'
+    if (hex.length % 2 === 1) hex += '0';
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16) || 0;
+    }
+    return { type: 'string', value: out };
+  }
+
+  private readArray(): ContentOperand {
+    this.pos++; // skip '['
+    const items: ContentOperand[] = [];
+    while (true) {
+      this.skipWhitespaceAndComments();
+      if (this.pos >= this.bytes.length) break;
+      if (this.peek() === 0x5d) {
+        this.pos++;
+        break;
+      }
+      const operand = this.readOperand();
+      if (operand) {
+        items.push(operand);
+      } else {
+        // Skip stray keywords inside arrays
+        if (!this.readKeyword()) this.pos++;
+      }
+    }
+    return { type: 'array', items };
+  }
+
+  private readDict(): ContentOperand {
+    this.pos += 2; // skip '<<'
+    const entries: [string, ContentOperand][] = [];
+    while (true) {
+      this.skipWhitespaceAndComments();
+      if (this.pos >= this.bytes.length) break;
+      if (this.peek() === 0x3e && this.peek(1) === 0x3e) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.readOperand();
+      this.skipWhitespaceAndComments();
+      const value = this.readOperand();
+      if (key?.type === 'name' && value) {
+        entries.push([key.value, value]);
+      } else if (!key && !value) {
+        if (!this.readKeyword()) this.pos++;
+      }
+    }
+    return { type: 'dict', entries };
+  }
+
+  /**
+   * Reads the key/value pairs and binary data of an inline image.
+   * The parameters are stored as a single dict operand.
+   */
+  private readInlineImage(operation: ContentOperation): void {
+    const entries: [string, ContentOperand][] = [];
+    while (true) {
+      this.skipWhitespaceAndComments();
+      if (this.pos >= this.bytes.length) break;
+      const start = this.pos;
+      const keyword = this.peek() === 0x2f ? null : this.readKeyword();
+      if (keyword === 'ID') break;
+      this.pos = start;
+      const key = this.readOperand();
+      this.skipWhitespaceAndComments();
+      const value = this.readOperand();
+      if (key?.type === 'name' && value) {
+        entries.push([key.value, value]);
+      } else {
+        if (!this.readKeyword()) this.pos++;
+      }
+    }
+    operation.operands = [{ type: 'dict', entries }];
+
+    // A single whitespace byte separates ID from the image data
+    this.pos++;
+    const dataStart = this.pos;
+    while (this.pos < this.bytes.length) {
+      if (
+        this.peek() === 0x45 && this.peek(1) === 0x49 &&
+        isWhitespace(this.bytes[this.pos - 1]) &&
+        (this.pos + 2 >= this.bytes.length || isWhitespace(this.peek(2)))
+      ) {
+        break;
+      }
+      this.pos++;
+    }
+    operation.inlineImageData = this.bytes.subarray(dataStart, Math.max(dataStart, this.pos - 1));
+    this.pos = Math.min(this.bytes.length, this.pos + 2); // skip 'EI'
+  }
+}
+
+/**
+ * Parse a decoded content stream into a list of operations
+ */
+export const parseContentStream = (bytes: Uint8Array): ContentOperation[] =>
+  new ContentStreamParser(bytes).parse();
+
+const formatNumber = (value: number): string => {
+  if (Number.isInteger(value)) return value.toString();
+  // Avoid exponent notation, which is not valid PDF syntax
+  return parseFloat(value.toFixed(6)).toString();
+};
+
+const formatName = (name: string): string => {
+  let out = '/';
+  for (let i = 0; i < name.length; i++) {
+    const code = name.charCodeAt(i);
+    if (code < 0x21 || code > 0x7e || code === 0x23 || !isRegular(code)) {
+      out += '#' + code.toString(16).padStart(2, '0');
+    } else {
+      out += name[i];
+    }
+  }
+  return out;
+};
+
+/**
+ * Serialize a single operand back to PDF syntax
+ */
+export const serializeOperand = (operand: ContentOperand): string => {
+  switch (operand.type) {
+    case 'number':
+      return formatNumber(operand.value);
+    case 'string':
+      return '<' + Array.from(operand.value).map(b => b.toString(16).padStart(2, '0')).join('') + '>';
+    case 'name':
+      return formatName(operand.value);
+    case 'boolean':
+      return operand.value ? 'true' : 'false';
+    case 'null':
+      return 'null';
+    case 'array':
+      return '[' + operand.items.map(serializeOperand).join(' ') + ']';
+    case 'dict':
+      return '<<' + operand.entries
+        .map(([key, value]) => `${formatName(key)} ${serializeOperand(value)}`)
+        .join(' ') + '>>';
+  }
+};
+
+const encodeAscii = (text: string): Uint8Array => {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+};
+
+/**
+ * Serialize operations back into content stream bytes. Operations that
+ * still carry their original bytes are written through unchanged.
+ */
+export const serializeContentStream = (operations: ContentOperation[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const newline = encodeAscii('\n');
+
+  for (const operation of operations) {
+    if (operation.raw) {
+      chunks.push(operation.raw);
+    } else if (operation.operator === 'BI') {
+      const params = operation.operands[0];
+      const entries = params?.type === 'dict' ? params.entries : [];
+      const header = 'BI ' + entries
+        .map(([key, value]) => `${formatName(key)} ${serializeOperand(value)}`)
+        .join(' ') + ' ID ';
+      chunks.push(encodeAscii(header));
+      chunks.push(operation.inlineImageData ?? new Uint8Array());
+      chunks.push(encodeAscii('\nEI'));
+    } else {
+      const parts = operation.operands.map(serializeOperand);
+      parts.push(operation.operator);
+      chunks.push(encodeAscii(parts.join(' ')));
+    }
+    chunks.push(newline);
+  }
+
+  const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+/**
+ * Read a numeric operand, defaulting to 0 for anything else
+ */
+export const operandNumber = (operand: ContentOperand | undefined): number =>
+  operand?.type === 'number' ? operand.value : 0;
+
+const readNumbers = (array: PDFObject | undefined, count: number): number[] | null => {
+  if (!(array instanceof PDFArray) || array.size() !== count) return null;
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const value = array.lookup(i);
+    values.push(value instanceof PDFNumber ? value.asNumber() : 0);
+  }
+  return values;
+};
+
+/**
+ * Read a /Matrix entry, defaulting to the identity matrix
+ */
+export const readMatrix = (array: PDFObject | undefined): Matrix =>
+  (readNumbers(array, 6) as Matrix | null) ?? IDENTITY_MATRIX;
+
+/**
+ * Read a rectangle entry such as /Rect or /BBox, normalising its corners
+ */
+export const readRect = (array: PDFObject | undefined): Rect | null => {
+  const values = readNumbers(array, 4);
+  if (!values) return null;
+  const [x1, y1, x2, y2] = values;
+  return {
+    x: Math.min(x1, x2),
+    y: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+};
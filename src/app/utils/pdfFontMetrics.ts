@@ -0,0 +1,377 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts
+} from 'pdf-lib';
+import { getDecodedStreamContents } from './pdfContentStream';
+import { PdfRedactionError } from './errors';
+
+/**
+ * A character code taken from a string operand of a text-showing operator
+ */
+export interface FontCharCode {
+  /** Numeric character code */
+  code: number;
+  /** Bytes that encode the code in the string */
+  bytes: Uint8Array;
+  /** Whether word spacing applies (single-byte code 32) */
+  isSpace: boolean;
+}
+
+/**
+ * Glyph metrics for a font, expressed in text space units per unit of font size
+ */
+export interface FontMetrics {
+  /** Split a string operand into character codes */
+  decode(bytes: Uint8Array): FontCharCode[];
+  /** Horizontal displacement of a glyph */
+  widthOf(code: number): number;
+  /** Top of the glyph box */
+  ascent: number;
+  /** Bottom of the glyph box (usually negative) */
+  descent: number;
+}
+
+// Glyph box used when a font does not describe its own ascent and descent
+const DEFAULT_ASCENT = 0.9;
+const DEFAULT_DESCENT = -0.25;
+const DEFAULT_WIDTH = 0.5;
+
+type StandardFontName = Parameters<typeof StandardFontEmbedder.for>[0];
+
+const STANDARD_FONT_NAMES = new Set<string>(Object.values(StandardFonts));
+
+// Common aliases for the standard 14 fonts
+const STANDARD_FONT_ALIASES: Record<string, StandardFonts> = {
+  Arial: StandardFonts.Helvetica,
+  'Arial,Bold': StandardFonts.HelveticaBold,
+  'Arial,Italic': StandardFonts.HelveticaOblique,
+  'Arial,BoldItalic': StandardFonts.HelveticaBoldOblique,
+  TimesNewRoman: StandardFonts.TimesRoman,
+  'TimesNewRoman,Bold': StandardFonts.TimesRomanBold,
+  'TimesNewRoman,Italic': StandardFonts.TimesRomanItalic,
+  'TimesNewRoman,BoldItalic': StandardFonts.TimesRomanBoldItalic,
+  CourierNew: StandardFonts.Courier,
+  'CourierNew,Bold': StandardFonts.CourierBold
+};
+
+const lookupNumber = (dict: PDFDict | undefined, key: string): number | undefined => {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const lookupName = (dict: PDFDict | undefined, key: string): string | undefined => {
+  const value = dict?.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+};
+
+const arrayNumbers = (array: PDFArray | undefined): number[] => {
+  if (!array) return [];
+  const numbers: number[] = [];
+  for (let i = 0; i < array.size(); i++) {
+    const value = array.lookup(i);
+    numbers.push(value instanceof PDFNumber ? value.asNumber() : 0);
+  }
+  return numbers;
+};
+
+/**
+ * Map a (possibly subset-prefixed) base font name to a standard 14 font
+ */
+const resolveStandardFont = (baseFont: string | undefined): StandardFonts | undefined => {
+  if (!baseFont) return undefined;
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+  if (STANDARD_FONT_NAMES.has(name)) return name as StandardFonts;
+  if (STANDARD_FONT_ALIASES[name]) return STANDARD_FONT_ALIASES[name];
+  if (/courier/i.test(name)) return StandardFonts.Courier;
+  if (/times/i.test(name)) return StandardFonts.TimesRoman;
+  if (/helvetica|arial/i.test(name)) return StandardFonts.Helvetica;
+  return undefined;
+};
+
+/**
+ * Build a code -> glyph name table from a simple font's /Encoding
+ */
+const buildGlyphNames = (fontDict: PDFDict, embedder: StandardFontEmbedder): string[] => {
+  const names: string[] = [];
+  const base = embedder.encoding;
+
+  for (const codePoint of base.supportedCodePoints) {
+    const { code, name } = base.encodeUnicodeCodePoint(codePoint);
+    names[code] = name;
+  }
+
+  const encoding = fontDict.lookup(PDFName.of('Encoding'));
+  if (encoding instanceof PDFDict) {
+    const differences = encoding.lookup(PDFName.of('Differences'));
+    if (differences instanceof PDFArray) {
+      let code = 0;
+      for (let i = 0; i < differences.size(); i++) {
+        const item = differences.lookup(i);
+        if (item instanceof PDFNumber) {
+          code = item.asNumber();
+        } else if (item instanceof PDFName) {
+          names[code++] = item.decodeText();
+        }
+      }
+    }
+  }
+  return names;
+};
+
+/**
+ * Metrics for simple (single-byte) fonts: Type1, TrueType, Type3, MMType1
+ */
+const simpleFontMetrics = (fontDict: PDFDict): FontMetrics => {
+  const subtype = lookupName(fontDict, 'Subtype');
+  const descriptor = fontDict.lookup(PDFName.of('FontDescriptor'));
+  const descriptorDict = descriptor instanceof PDFDict ? descriptor : undefined;
+
+  // Type3 glyph space is defined by /FontMatrix rather than 1/1000 em
+  let scale = 0.001;
+  let verticalScale = 0.001;
+  if (subtype === 'Type3') {
+    const matrix = arrayNumbers(fontDict.lookup(PDFName.of('FontMatrix')) as PDFArray | undefined);
+    if (matrix.length === 6) {
+      scale = Math.abs(matrix[0]) || scale;
+      verticalScale = Math.abs(matrix[3]) || verticalScale;
+    }
+  }
+
+  const firstChar = lookupNumber(fontDict, 'FirstChar') ?? 0;
+  const widthsObject = fontDict.lookup(PDFName.of('Widths'));
+  const widths = widthsObject instanceof PDFArray ? arrayNumbers(widthsObject) : [];
+  const missingWidth = lookupNumber(descriptorDict, 'MissingWidth');
+
+  const standardFont = widths.length === 0
+    ? resolveStandardFont(lookupName(fontDict, 'BaseFont'))
+    : undefined;
+  const embedder = standardFont ? StandardFontEmbedder.for(standardFont as unknown as StandardFontName) : undefined;
+  const glyphNames = embedder ? buildGlyphNames(fontDict, embedder) : [];
+
+  const widthOf = (code: number): number => {
+    const index = code - firstChar;
+    if (index >= 0 && index < widths.length) {
+      return widths[index] * scale;
+    }
+    if (embedder) {
+      const glyphWidth = embedder.font.getWidthOfGlyph(glyphNames[code] ?? '');
+      if (typeof glyphWidth === 'number') return glyphWidth * 0.001;
+    }
+    if (missingWidth !== undefined) return missingWidth * scale;
+    return standardFont === StandardFonts.Courier ? 0.6 : DEFAULT_WIDTH;
+  };
+
+  let ascent = lookupNumber(descriptorDict, 'Ascent');
+  let descent = lookupNumber(descriptorDict, 'Descent');
+  if (embedder && (ascent === undefined || descent === undefined)) {
+    ascent = ascent ?? embedder.font.Ascender ?? embedder.font.FontBBox[3];
+    descent = descent ?? embedder.font.Descender ?? embedder.font.FontBBox[1];
+  }
+  if (subtype === 'Type3') {
+    const bbox = arrayNumbers(fontDict.lookup(PDFName.of('FontBBox')) as PDFArray | undefined);
+    if (bbox.length === 4 && bbox[3] !== bbox[1]) {
+      ascent = bbox[3] * verticalScale / 0.001;
+      descent = bbox[1] * verticalScale / 0.001;
+    }
+  }
+
+  return {
+    decode: (bytes) => Array.from(bytes, (code, i) => ({
+      code,
+      bytes: bytes.subarray(i, i + 1),
+      isSpace: code === 32
+    })),
+    widthOf,
+    ascent: ascent ? ascent * 0.001 : DEFAULT_ASCENT,
+    descent: descent ? descent * 0.001 : DEFAULT_DESCENT
+  };
+};
+
+interface CodeSpaceRange {
+  length: number;
+  low: number;
+  high: number;
+}
+
+interface CidRange {
+  low: number;
+  high: number;
+  cid: number;
+}
+
+const hexValue = (token: string): number => parseInt(token.replace(/[<>\s]/g, ''), 16);
+const hexLength = (token: string): number => token.replace(/[<>\s]/g, '').length / 2;
+
+/**
+ * Parse the codespace and CID ranges of an embedded CMap stream, and whether
+ * it is for vertical writing
+ */
+const parseEmbeddedCMap = (
+  stream: PDFStream
+): { codeSpace: CodeSpaceRange[]; cidRanges: CidRange[]; vertical: boolean } => {
+  const text = Array.from(getDecodedStreamContents(stream), b => String.fromCharCode(b)).join('');
+  const codeSpace: CodeSpaceRange[] = [];
+  const cidRanges: CidRange[] = [];
+
+  for (const block of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const [, low, high] of block[1].matchAll(/(<[0-9a-fA-F\s]+>)\s*(<[0-9a-fA-F\s]+>)/g)) {
+      codeSpace.push({ length: hexLength(low), low: hexValue(low), high: hexValue(high) });
+    }
+  }
+  for (const block of text.matchAll(/begincidrange([\s\S]*?)endcidrange/g)) {
+    for (const [, low, high, cid] of block[1].matchAll(/(<[0-9a-fA-F\s]+>)\s*(<[0-9a-fA-F\s]+>)\s*(\d+)/g)) {
+      cidRanges.push({ low: hexValue(low), high: hexValue(high), cid: parseInt(cid, 10) });
+    }
+  }
+  for (const block of text.matchAll(/begincidchar([\s\S]*?)endcidchar/g)) {
+    for (const [, code, cid] of block[1].matchAll(/(<[0-9a-fA-F\s]+>)\s*(\d+)/g)) {
+      const value = hexValue(code);
+      cidRanges.push({ low: value, high: value, cid: parseInt(cid, 10) });
+    }
+  }
+  const vertical = lookupNumber(stream.dict, 'WMode') === 1 || /\/WMode\s+1\b/.test(text);
+  return { codeSpace, cidRanges, vertical };
+};
+
+/**
+ * Metrics for composite (Type0) fonts
+ */
+const compositeFontMetrics = (fontDict: PDFDict): FontMetrics => {
+  const descendants = fontDict.lookup(PDFName.of('DescendantFonts'));
+  const cidFont = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+  const cidDict = cidFont instanceof PDFDict ? cidFont : undefined;
+  const descriptor = cidDict?.lookup(PDFName.of('FontDescriptor'));
+  const descriptorDict = descriptor instanceof PDFDict ? descriptor : undefined;
+
+  const defaultWidth = lookupNumber(cidDict, 'DW') ?? 1000;
+  const widths = new Map<number, number>();
+  const w = cidDict?.lookup(PDFName.of('W'));
+  if (w instanceof PDFArray) {
+    let i = 0;
+    while (i < w.size()) {
+      const first = w.lookup(i);
+      const second = w.lookup(i + 1);
+      if (!(first instanceof PDFNumber)) break;
+      if (second instanceof PDFArray) {
+        arrayNumbers(second).forEach((width, offset) => widths.set(first.asNumber() + offset, width));
+        i += 2;
+      } else {
+        const last = second instanceof PDFNumber ? second.asNumber() : first.asNumber();
+        const width = w.lookup(i + 2);
+        for (let cid = first.asNumber(); cid <= last; cid++) {
+          widths.set(cid, width instanceof PDFNumber ? width.asNumber() : defaultWidth);
+        }
+        i += 3;
+      }
+    }
+  }
+
+  // Identity-H uses two-byte codes mapped directly to CIDs. Embedded CMaps
+  // describe their own code lengths and CID mapping. Other predefined CMaps
+  // and vertical writing would place the glyphs wrongly, so text in such a
+  // font cannot be redacted.
+  let codeSpace: CodeSpaceRange[] = [{ length: 2, low: 0, high: 0xffff }];
+  let cidRanges: CidRange[] = [];
+  const encoding = fontDict.lookup(PDFName.of('Encoding'));
+  if (encoding instanceof PDFName && encoding.decodeText() !== 'Identity-H') {
+    throw new PdfRedactionError(`Cannot redact text in a composite font with the ${encoding.decodeText()} CMap`);
+  }
+  if (!(encoding instanceof PDFName) && !(encoding instanceof PDFStream)) {
+    throw new PdfRedactionError('Cannot redact text in a composite font without an encoding');
+  }
+  if (encoding instanceof PDFStream) {
+    const cmap = parseEmbeddedCMap(encoding);
+    if (cmap.vertical) {
+      throw new PdfRedactionError('Cannot redact text in a composite font with vertical writing');
+    }
+    if (cmap.codeSpace.length > 0) codeSpace = cmap.codeSpace;
+    cidRanges = cmap.cidRanges;
+  }
+
+  const toCid = (code: number): number => {
+    if (cidRanges.length === 0) return code;
+    const range = cidRanges.find(r => code >= r.low && code <= r.high);
+    return range ? range.cid + (code - range.low) : 0;
+  };
+
+  const decode = (bytes: Uint8Array): FontCharCode[] => {
+    const codes: FontCharCode[] = [];
+    let i = 0;
+    while (i < bytes.length) {
+      let matched = false;
+      for (let length = 1; length <= 4 && i + length <= bytes.length; length++) {
+        let code = 0;
+        for (let j = 0; j < length; j++) code = code * 256 + bytes[i + j];
+        if (codeSpace.some(r => r.length === length && code >= r.low && code <= r.high)) {
+          codes.push({ code, bytes: bytes.subarray(i, i + length), isSpace: length === 1 && code === 32 });
+          i += length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) {
+        // Fall back to the longest code space length for malformed input
+        const length = Math.min(bytes.length - i, Math.max(...codeSpace.map(r => r.length)));
+        let code = 0;
+        for (let j = 0; j < length; j++) code = code * 256 + bytes[i + j];
+        codes.push({ code, bytes: bytes.subarray(i, i + length), isSpace: false });
+        i += length;
+      }
+    }
+    return codes;
+  };
+
+  const ascent = lookupNumber(descriptorDict, 'Ascent');
+  const descent = lookupNumber(descriptorDict, 'Descent');
+
+  return {
+    decode,
+    widthOf: (code) => (widths.get(toCid(code)) ?? defaultWidth) * 0.001,
+    ascent: ascent ? ascent * 0.001 : DEFAULT_ASCENT,
+    descent: descent ? descent * 0.001 : DEFAULT_DESCENT
+  };
+};
+
+/**
+ * Fallback metrics used when a font resource cannot be resolved
+ */
+export const DEFAULT_FONT_METRICS: FontMetrics = {
+  decode: (bytes) => Array.from(bytes, (code, i) => ({
+    code,
+    bytes: bytes.subarray(i, i + 1),
+    isSpace: code === 32
+  })),
+  widthOf: () => DEFAULT_WIDTH,
+  ascent: DEFAULT_ASCENT,
+  descent: DEFAULT_DESCENT
+};
+
+const metricsCache = new WeakMap<PDFDict, FontMetrics>();
+
+/**
+ * Get glyph metrics for a font dictionary
+ */
+export const getFontMetrics = (fontDict: PDFDict): FontMetrics => {
+  const cached = metricsCache.get(fontDict);
+  if (cached) return cached;
+
+  let metrics: FontMetrics;
+  try {
+    metrics = lookupName(fontDict, 'Subtype') === 'Type0'
+      ? compositeFontMetrics(fontDict)
+      : simpleFontMetrics(fontDict);
+  } catch (error) {
+    // Metrics known to be wrong must fail the page rather than be guessed
+    if (error instanceof PdfRedactionError) throw error;
+    console.warn('Could not read font metrics, using defaults:', error);
+    metrics = DEFAULT_FONT_METRICS;
+  }
+
+  metricsCache.set(fontDict, metrics);
+  return metrics;
+};
@@ -0,0 +1,499 @@
+/**
+ * Geometry helpers for working in PDF user space
+ */
+
+/**
+ * A point in a 2D coordinate system
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Axis-aligned rectangle with a bottom-left origin (PDF convention)
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * PDF transformation matrix [a b c d e f]
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Multiply two matrices. The result applies `m1` first, then `m2`,
+ * which matches how `cm` concatenates onto the CTM (M × CTM).
+ */
+export const multiplyMatrices = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[1] * m2[2],
+  m1[0] * m2[1] + m1[1] * m2[3],
+  m1[2] * m2[0] + m1[3] * m2[2],
+  m1[2] * m2[1] + m1[3] * m2[3],
+  m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+  m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+];
+
+/**
+ * Transform a point by a matrix
+ */
+export const applyMatrix = (m: Matrix, p: Point): Point => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+/**
+ * Invert a matrix, returning null when it is singular
+ */
+export const invertMatrix = (m: Matrix): Matrix | null => {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) {
+    return null;
+  }
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ];
+};
+
+/**
+ * Corners of a rectangle as a counter-clockwise polygon
+ */
+export const rectToPolygon = (rect: Rect): Point[] => [
+  { x: rect.x, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y },
+  { x: rect.x + rect.width, y: rect.y + rect.height },
+  { x: rect.x, y: rect.y + rect.height }
+];
+
+/**
+ * Bounding box of a set of points
+ */
+export const boundsOfPoints = (points: Point[]): Rect => {
+  if (points.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Bounding box of a rectangle transformed by a matrix. It is exact for the
+ * quarter turns, flips and scalings of page viewports.
+ */
+export const transformRect = (m: Matrix, rect: Rect): Rect =>
+  boundsOfPoints(rectToPolygon(rect).map(p => applyMatrix(m, p)));
+
+/**
+ * A rectangle with its position and size multiplied by a factor
+ */
+export const scaleRect = (rect: Rect, factor: number): Rect => ({
+  x: rect.x * factor,
+  y: rect.y * factor,
+  width: rect.width * factor,
+  height: rect.height * factor
+});
+
+/**
+ * Whether two axis-aligned rectangles overlap
+ */
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+/**
+ * Signed area of a polygon (positive when counter-clockwise)
+ */
+export const signedPolygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+/**
+ * Ensure a convex polygon is wound counter-clockwise
+ */
+export const toCounterClockwise = (points: Point[]): Point[] =>
+  signedPolygonArea(points) < 0 ? [...points].reverse() : points;
+
+/**
+ * Clip a polygon against a convex, counter-clockwise clip polygon
+ * (Sutherland–Hodgman). The subject may be concave.
+ */
+export const clipPolygon = (subject: Point[], convexClip: Point[]): Point[] => {
+  let output = subject;
+  for (let i = 0; i < convexClip.length && output.length > 0; i++) {
+    const a = convexClip[i];
+    const b = convexClip[(i + 1) % convexClip.length];
+    output = clipAgainstEdge(output, a, b);
+  }
+  return output;
+};
+
+/**
+ * Clip a polygon against the half-plane to the left of the directed edge a→b
+ */
+export const clipAgainstEdge = (points: Point[], a: Point, b: Point): Point[] => {
+  const result: Point[] = [];
+  const side = (p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const previous = points[(i + points.length - 1) % points.length];
+    const currentSide = side(current);
+    const previousSide = side(previous);
+    if (currentSide >= 0) {
+      if (previousSide < 0) {
+        result.push(intersectAtSides(previous, current, previousSide, currentSide));
+      }
+      result.push(current);
+    } else if (previousSide >= 0) {
+      result.push(intersectAtSides(previous, current, previousSide, currentSide));
+    }
+  }
+  return result;
+};
+
+const intersectAtSides = (p: Point, q: Point, sideP: number, sideQ: number): Point => {
+  const t = sideP / (sideP - sideQ);
+  return { x: p.x + (q.x - p.x) * t, y: p.y + (q.y - p.y) * t };
+};
+
+/**
+ * Whether a point lies inside a polygon (even-odd rule)
+ */
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) &&
+        p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Fraction (0-1) of a convex polygon's area covered by a convex clip polygon.
+ * Degenerate subjects (zero area) count as fully covered when their centre
+ * lies inside the clip.
+ */
+export const coveredFraction = (subject: Point[], convexClip: Point[]): number => {
+  const subjectArea = Math.abs(signedPolygonArea(subject));
+  if (subjectArea < 1e-9) {
+    const bounds = boundsOfPoints(subject);
+    const centre = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    return pointInPolygon(centre, convexClip) ? 1 : 0;
+  }
+  const clipped = clipPolygon(subject, convexClip);
+  if (clipped.length < 3) {
+    return 0;
+  }
+  return Math.min(1, Math.abs(signedPolygonArea(clipped)) / subjectArea);
+};
+
+/**
+ * Subtract a convex, counter-clockwise polygon from another polygon.
+ * Returns disjoint pieces that keep the subject's winding, so filling them
+ * with either fill rule paints what the subject painted outside the clip.
+ */
+export const subtractConvexPolygon = (subject: Point[], convexClip: Point[]): Point[][] => {
+  const pieces: Point[][] = [];
+  let remaining = subject;
+  for (let i = 0; i < convexClip.length && remaining.length >= 3; i++) {
+    const a = convexClip[i];
+    const b = convexClip[(i + 1) % convexClip.length];
+    const outside = clipAgainstEdge(remaining, b, a);
+    if (outside.length >= 3 && Math.abs(signedPolygonArea(outside)) > 1e-9) {
+      pieces.push(outside);
+    }
+    remaining = clipAgainstEdge(remaining, a, b);
+  }
+  return pieces;
+};
+
+/**
+ * Parameter interval [tIn, tOut] of the segment p→q that lies inside a
+ * convex, counter-clockwise polygon (Cyrus–Beck), or null when it misses
+ */
+export const clipSegmentToConvex = (p: Point, q: Point, convexClip: Point[]): [number, number] | null => {
+  let tIn = 0;
+  let tOut = 1;
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+  for (let i = 0; i < convexClip.length; i++) {
+    const a = convexClip[i];
+    const b = convexClip[(i + 1) % convexClip.length];
+    // Positive when the point is left of (inside) the edge
+    const start = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+    const rate = (b.x - a.x) * dy - (b.y - a.y) * dx;
+    if (Math.abs(rate) < 1e-12) {
+      if (start < 0) return null;
+      continue;
+    }
+    const t = -start / rate;
+    if (rate > 0) {
+      tIn = Math.max(tIn, t);
+    } else {
+      tOut = Math.min(tOut, t);
+    }
+    if (tIn > tOut) return null;
+  }
+  return [tIn, tOut];
+};
+
+/**
+ * Grow a convex, counter-clockwise polygon by moving every edge outwards by
+ * `distance`. Corners are mitred, so the result contains every point within
+ * `distance` of the original.
+ */
+export const expandConvexPolygon = (polygon: Point[], distance: number): Point[] => {
+  if (distance <= 0 || polygon.length < 3) {
+    return polygon;
+  }
+  const n = polygon.length;
+  const offsetEdges = polygon.map((a, i) => {
+    const b = polygon[(i + 1) % n];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    // Outward normal of a counter-clockwise edge points to its right
+    const nx = ((b.y - a.y) / length) * distance;
+    const ny = (-(b.x - a.x) / length) * distance;
+    return { a: { x: a.x + nx, y: a.y + ny }, b: { x: b.x + nx, y: b.y + ny } };
+  });
+  return offsetEdges.map((edge, i) => {
+    const previous = offsetEdges[(i + n - 1) % n];
+    return intersectLines(previous.a, previous.b, edge.a, edge.b) ?? edge.a;
+  });
+};
+
+const intersectLines = (p1: Point, p2: Point, p3: Point, p4: Point): Point | null => {
+  const d = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
+  if (Math.abs(d) < 1e-12) {
+    return null;
+  }
+  const a = p1.x * p2.y - p1.y * p2.x;
+  const b = p3.x * p4.y - p3.y * p4.x;
+  return {
+    x: (a * (p3.x - p4.x) - (p1.x - p2.x) * b) / d,
+    y: (a * (p3.y - p4.y) - (p1.y - p2.y) * b) / d
+  };
+};
+
+/**
+ * Approximate a cubic Bézier curve with line segments. The start point is
+ * not included in the result.
+ */
+export const flattenCubicBezier = (p0: Point, p1: Point, p2: Point, p3: Point): Point[] => {
+  const hull = Math.hypot(p1.x - p0.x, p1.y - p0.y) +
+    Math.hypot(p2.x - p1.x, p2.y - p1.y) +
+    Math.hypot(p3.x - p2.x, p3.y - p2.y);
+  const steps = Math.max(4, Math.min(64, Math.ceil(hull / 2)));
+  const points: Point[] = [];
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    const u = 1 - t;
+    points.push({
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+    });
+  }
+  return points;
+};
+
+/**
+ * Whether a counter-clockwise polygon is convex. Collinear vertices are allowed.
+ */
+export const isConvexPolygon = (points: Point[]): boolean =>
+  points.every((b, i) => {
+    const a = points[(i + points.length - 1) % points.length];
+    const c = points[(i + 1) % points.length];
+    return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x) >= -1e-9;
+  });
+
+/**
+ * Convex hull of a set of points, counter-clockwise (monotone chain)
+ */
+export const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) {
+    return sorted;
+  }
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+const segmentsCross = (p1: Point, p2: Point, p3: Point, p4: Point): boolean => {
+  const side = (a: Point, b: Point, p: Point) => (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+  const d1 = side(p3, p4, p1);
+  const d2 = side(p3, p4, p2);
+  const d3 = side(p1, p2, p3);
+  const d4 = side(p1, p2, p4);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+/**
+ * Whether no two non-adjacent edges of a polygon cross
+ */
+export const isSimplePolygon = (points: Point[]): boolean => {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(points[i], points[(i + 1) % n], points[j], points[(j + 1) % n])) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+const pointInTriangle = (p: Point, a: Point, b: Point, c: Point): boolean => {
+  const side = (u: Point, v: Point) => (v.x - u.x) * (p.y - u.y) - (v.y - u.y) * (p.x - u.x);
+  return side(a, b) >= 0 && side(b, c) >= 0 && side(c, a) >= 0;
+};
+
+/**
+ * Split a simple polygon into counter-clockwise triangles (ear clipping).
+ * Returns null when no ear can be found, which happens for polygons that
+ * are not simple.
+ */
+export const triangulatePolygon = (polygon: Point[]): Point[][] | null => {
+  const points = toCounterClockwise(polygon);
+  const remaining = [...points];
+  const triangles: Point[][] = [];
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const a = remaining[(i + remaining.length - 1) % remaining.length];
+      const b = remaining[i];
+      const c = remaining[(i + 1) % remaining.length];
+      const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+      // Collinear vertices add no area and are dropped
+      if (Math.abs(cross) < 1e-9) {
+        remaining.splice(i, 1);
+        clipped = true;
+        break;
+      }
+      if (cross < 0) continue;
+      if (remaining.some(p => p !== a && p !== b && p !== c && pointInTriangle(p, a, b, c))) continue;
+      triangles.push([a, b, c]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    if (!clipped) {
+      return null;
+    }
+  }
+  if (remaining.length === 3 && Math.abs(signedPolygonArea(remaining)) > 1e-9) {
+    triangles.push(remaining);
+  }
+  return triangles;
+};
+
+/**
+ * Merge counter-clockwise pieces that share an edge (by vertex identity)
+ * while the result stays convex, to keep convex decompositions small
+ * (Hertel–Mehlhorn)
+ */
+export const mergeConvexPieces = (pieces: Point[][]): Point[][] => {
+  const result = pieces.map(piece => [...piece]);
+  let merged = true;
+  while (merged) {
+    merged = false;
+    for (let i = 0; i < result.length && !merged; i++) {
+      for (let j = i + 1; j < result.length && !merged; j++) {
+        const union = mergeAlongSharedEdge(result[i], result[j]);
+        if (union && isConvexPolygon(union)) {
+          result[i] = union;
+          result.splice(j, 1);
+          merged = true;
+        }
+      }
+    }
+  }
+  return result;
+};
+
+const mergeAlongSharedEdge = (first: Point[], second: Point[]): Point[] | null => {
+  for (let i = 0; i < first.length; i++) {
+    const p = first[i];
+    const q = first[(i + 1) % first.length];
+    // Neighbouring counter-clockwise pieces run along the shared edge in opposite directions
+    const j = second.findIndex((point, k) => point === q && second[(k + 1) % second.length] === p);
+    if (j < 0) continue;
+    // `first` from q round to p, then `second` from p round to q without its ends
+    const fromQ = [...first.slice(i + 1), ...first.slice(0, i + 1)];
+    const fromP = [...second.slice(j + 1), ...second.slice(0, j + 1)];
+    return [...fromQ, ...fromP.slice(1, -1)];
+  }
+  return null;
+};
+
+/**
+ * Drop the points of a polyline that lie within `tolerance` of the line
+ * through their neighbours (Douglas–Peucker)
+ */
+export const simplifyPolyline = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) {
+    return points;
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - first.x, last.y - first.y);
+  let farthest = 0;
+  let farthestIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const distance = length > 0
+      ? Math.abs((last.x - first.x) * (first.y - p.y) - (first.x - p.x) * (last.y - first.y)) / length
+      : Math.hypot(p.x - first.x, p.y - first.y);
+    if (distance > farthest) {
+      farthest = distance;
+      farthestIndex = i;
+    }
+  }
+  if (farthest <= tolerance) {
+    return [first, last];
+  }
+  return [
+    ...simplifyPolyline(points.slice(0, farthestIndex + 1), tolerance).slice(0, -1),
+    ...simplifyPolyline(points.slice(farthestIndex), tolerance)
+  ];
+};
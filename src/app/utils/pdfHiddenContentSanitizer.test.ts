@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import { getPageContents } from './pdfContentStream';
+import { sanitizeHiddenContent } from './pdfHiddenContentSanitizer';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('sanitizeHiddenContent', () => {
+  // A document that runs JavaScript when opened, carries an attachment and
+  // has a layer hidden by default with text on the page
+  const documentWithHiddenContent = async (): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    const { context } = pdfDoc;
+
+    pdfDoc.catalog.set(PDFName.of('OpenAction'), context.obj({
+      S: 'JavaScript',
+      JS: PDFString.of('app.alert("SecretScript")')
+    }));
+
+    const attachment = context.register(context.stream('SecretAttachment', { Type: 'EmbeddedFile' }));
+    const fileSpec = context.obj({ Type: 'Filespec', F: PDFString.of('secret.txt'), EF: { F: attachment } });
+    pdfDoc.catalog.set(PDFName.of('Names'), context.obj({
+      EmbeddedFiles: { Names: [PDFHexString.fromText('secret.txt'), fileSpec] }
+    }));
+
+    const hiddenLayer = context.register(context.obj({ Type: 'OCG', Name: PDFString.of('SecretLayerName') }));
+    const shownLayer = context.register(context.obj({ Type: 'OCG', Name: PDFString.of('ShownLayerName') }));
+    pdfDoc.catalog.set(PDFName.of('OCProperties'), context.obj({
+      OCGs: [hiddenLayer, shownLayer],
+      D: { OFF: [hiddenLayer] }
+    }));
+    page.node.set(PDFName.of('Resources'), context.obj({ Properties: { Hidden: hiddenLayer, Shown: shownLayer } }));
+    page.node.set(PDFName.of('Contents'), context.register(context.stream(
+      '/OC /Hidden BDC 0 0 10 10 re f EMC /OC /Shown BDC 20 20 10 10 re f EMC'
+    )));
+    return pdfDoc.save({ useObjectStreams: false });
+  };
+
+  it('removes the OpenAction script, attachments and hidden layers from the saved bytes', async () => {
+    const original = await documentWithHiddenContent();
+    expect(latin1(original)).toContain('SecretAttachment');
+
+    const status = await sanitizeHiddenContent(original);
+    expect(status.success).toBe(true);
+    const { pdfBytes, report } = status.result!;
+    expect(report).toMatchObject({ openAction: true, embeddedFiles: 1, hiddenLayerContent: 1 });
+
+    const text = latin1(pdfBytes);
+    ['SecretScript', 'SecretAttachment', 'secret.txt', 'SecretLayerName'].forEach(secret => {
+      expect(text).not.toContain(secret);
+    });
+    expect(text).toContain('ShownLayerName');
+
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    expect(pdfDoc.catalog.get(PDFName.of('OpenAction'))).toBeUndefined();
+    const groups = pdfDoc.catalog.lookup(PDFName.of('OCProperties'), PDFDict).lookup(PDFName.of('OCGs'), PDFArray);
+    expect(groups.size()).toBe(1);
+    expect(new TextDecoder().decode(getPageContents(pdfDoc.getPage(0))!).trim())
+      .toBe('/OC /Shown BDC\n20 20 10 10 re\nf\nEMC');
+  });
+
+  it('keeps what the options leave alone', async () => {
+    const status = await sanitizeHiddenContent(await documentWithHiddenContent(), {
+      removeJavaScript: false,
+      removeEmbeddedFiles: false,
+      removeHiddenLayers: false
+    });
+    const text = latin1(status.result!.pdfBytes);
+    ['SecretScript', 'SecretAttachment', 'SecretLayerName'].forEach(kept => {
+      expect(text).toContain(kept);
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { PDFArray, PDFContext, PDFDict, PDFDocument, PDFName, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+import {
+  HiddenContentOptions,
+  HiddenContentReport,
+  PdfOperationStatus,
+  SanitizationResult
+} from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import {
+  ContentOperation,
+  createFlateStreamLike,
+  getDecodedStreamContents,
+  getPageContents,
+  parseContentStream,
+  serializeContentStream
+} from './pdfContentStream';
+import { removeUnreachableObjects } from './pdfObjectCollector';
+
+const isName = (object: PDFObject | undefined, value: string): boolean =>
+  object instanceof PDFName && object.decodeText() === value;
+
+/** Number of entries in a name tree */
+const countNameTree = (node: PDFObject | undefined): number => {
+  if (!(node instanceof PDFDict)) return 0;
+  const names = node.lookup(PDFName.of('Names'));
+  const kids = node.lookup(PDFName.of('Kids'));
+  let count = names instanceof PDFArray ? Math.floor(names.size() / 2) : 0;
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) count += countNameTree(kids.lookup(i));
+  }
+  return count;
+};
+
+/** Remove the given references from an array and any arrays nested in it */
+const pruneRefs = (array: PDFObject | undefined, refs: Set<PDFRef>): void => {
+  if (!(array instanceof PDFArray)) return;
+  for (let i = array.size() - 1; i >= 0; i--) {
+    const item = array.get(i);
+    if (item instanceof PDFRef && refs.has(item)) {
+      array.remove(i);
+    } else {
+      pruneRefs(item instanceof PDFRef ? undefined : item, refs);
+    }
+  }
+};
+
+/**
+ * Removes active and hidden content from a loaded document in place
+ */
+class HiddenContentSanitizer {
+  readonly report: HiddenContentReport = {
+    javaScriptActions: 0,
+    openAction: false,
+    embeddedFiles: 0,
+    thumbnails: 0,
+    hiddenLayers: 0,
+    hiddenLayerContent: 0,
+    privateData: 0
+  };
+  private readonly context: PDFContext;
+  private readonly catalog: PDFDict;
+
+  constructor(
+    private readonly pdfDoc: PDFDocument,
+    private readonly options: HiddenContentOptions
+  ) {
+    this.context = pdfDoc.context;
+    this.catalog = pdfDoc.catalog;
+  }
+
+  run(): void {
+    if (this.options.removeJavaScript) this.removeJavaScript();
+    if (this.options.removeEmbeddedFiles) this.removeEmbeddedFiles();
+    if (this.options.removeThumbnails) this.removeThumbnails();
+    if (this.options.removeHiddenLayers) this.removeHiddenLayers();
+    if (this.options.removePrivateData) this.removePrivateData();
+  }
+
+  /**
+   * Call `visit` for every dictionary in the document, including direct
+   * dictionaries nested inside other objects
+   */
+  private forEachDict(visit: (dict: PDFDict) => void): void {
+    const walk = (object: PDFObject) => {
+      if (object instanceof PDFStream) {
+        walk(object.dict);
+      } else if (object instanceof PDFDict) {
+        visit(object);
+        object.values().forEach(walk);
+      } else if (object instanceof PDFArray) {
+        object.asArray().forEach(walk);
+      }
+    };
+    for (const [, object] of this.context.enumerateIndirectObjects()) {
+      walk(object);
+    }
+  }
+
+  private get names(): PDFDict | undefined {
+    const names = this.catalog.lookup(PDFName.of('Names'));
+    return names instanceof PDFDict ? names : undefined;
+  }
+
+  private isJavaScriptAction(object: PDFObject | undefined): boolean {
+    const action = object && this.context.lookup(object);
+    return action instanceof PDFDict && isName(action.lookup(PDFName.of('S')), 'JavaScript');
+  }
+
+  private removeJavaScript(): void {
+    if (this.catalog.has(PDFName.of('OpenAction'))) {
+      this.catalog.delete(PDFName.of('OpenAction'));
+      this.report.openAction = true;
+    }
+
+    const names = this.names;
+    if (names?.has(PDFName.of('JavaScript'))) {
+      this.report.javaScriptActions += countNameTree(names.lookup(PDFName.of('JavaScript')));
+      names.delete(PDFName.of('JavaScript'));
+    }
+
+    this.forEachDict(dict => {
+      // Additional actions are triggers (page open, field change, ...) and
+      // are almost always scripts
+      const additionalActions = dict.lookup(PDFName.of('AA'));
+      if (additionalActions instanceof PDFDict) {
+        this.report.javaScriptActions += additionalActions.keys().length;
+        dict.delete(PDFName.of('AA'));
+      }
+
+      for (const key of [PDFName.of('A'), PDFName.of('Next')]) {
+        const action = dict.get(key);
+        if (this.isJavaScriptAction(action)) {
+          dict.delete(key);
+          this.report.javaScriptActions++;
+          continue;
+        }
+        const chain = action && this.context.lookup(action);
+        if (chain instanceof PDFArray) {
+          for (let i = chain.size() - 1; i >= 0; i--) {
+            if (this.isJavaScriptAction(chain.get(i))) {
+              chain.remove(i);
+              this.report.javaScriptActions++;
+            }
+          }
+        }
+      }
+    });
+  }
+
+  private removeEmbeddedFiles(): void {
+    const names = this.names;
+    if (names?.has(PDFName.of('EmbeddedFiles'))) {
+      this.report.embeddedFiles += countNameTree(names.lookup(PDFName.of('EmbeddedFiles')));
+      names.delete(PDFName.of('EmbeddedFiles'));
+    }
+    // Portfolios present their embedded files through a collection
+    this.catalog.delete(PDFName.of('Collection'));
+
+    // Associated files normally repeat entries of the name tree, so they are
+    // removed without being counted again
+    this.forEachDict(dict => {
+      dict.delete(PDFName.of('AF'));
+    });
+
+    this.removeAnnotations(annotation => {
+      const remove = isName(annotation.lookup(PDFName.of('Subtype')), 'FileAttachment');
+      if (remove) this.report.embeddedFiles++;
+      return remove;
+    });
+  }
+
+  private removeThumbnails(): void {
+    for (const page of this.pdfDoc.getPages()) {
+      if (page.node.has(PDFName.of('Thumb'))) {
+        page.node.delete(PDFName.of('Thumb'));
+        this.report.thumbnails++;
+      }
+    }
+  }
+
+  /** Drop the annotations matching `shouldRemove` from every page */
+  private removeAnnotations(shouldRemove: (annotation: PDFDict) => boolean): void {
+    for (const page of this.pdfDoc.getPages()) {
+      const annots = page.node.Annots();
+      if (!annots) continue;
+      const remaining = this.context.obj([]);
+      for (let i = 0; i < annots.size(); i++) {
+        const annotation = annots.lookup(i);
+        if (!(annotation instanceof PDFDict) || !shouldRemove(annotation)) {
+          remaining.push(annots.get(i));
+        }
+      }
+      if (remaining.size() !== annots.size()) {
+        page.node.set(PDFName.of('Annots'), remaining);
+      }
+    }
+  }
+
+  /** Optional-content groups that are off in the default configuration */
+  private findHiddenGroups(ocProperties: PDFDict): Set<PDFRef> {
+    const hidden = new Set<PDFRef>();
+    const groups = ocProperties.lookup(PDFName.of('OCGs'));
+    const config = ocProperties.lookup(PDFName.of('D'));
+    if (!(groups instanceof PDFArray) || !(config instanceof PDFDict)) return hidden;
+
+    const listed = (key: string) => {
+      const array = config.lookup(PDFName.of(key));
+      return new Set(array instanceof PDFArray ? array.asArray() : []);
+    };
+    const baseOff = isName(config.lookup(PDFName.of('BaseState')), 'OFF');
+    const on = listed('ON');
+    const off = listed('OFF');
+    for (const group of groups.asArray()) {
+      if (!(group instanceof PDFRef)) continue;
+      if (baseOff ? !on.has(group) : off.has(group)) hidden.add(group);
+    }
+    return hidden;
+  }
+
+  /** Whether an /OC entry (a group or membership dictionary) is hidden */
+  private isHiddenContent(entry: PDFObject | undefined, hidden: Set<PDFRef>): boolean {
+    if (!entry) return false;
+    if (entry instanceof PDFRef && hidden.has(entry)) return true;
+    const membership = this.context.lookup(entry);
+    if (!(membership instanceof PDFDict) || !isName(membership.lookup(PDFName.of('Type')), 'OCMD')) {
+      return false;
+    }
+
+    const groups = membership.get(PDFName.of('OCGs'));
+    const resolved = groups && this.context.lookup(groups);
+    const members = resolved instanceof PDFArray ? resolved.asArray() : groups ? [groups] : [];
+    if (members.length === 0) return false;
+    const states = members.map(member => !(member instanceof PDFRef && hidden.has(member)));
+
+    const policy = membership.lookup(PDFName.of('P'));
+    const policyName = policy instanceof PDFName ? policy.decodeText() : 'AnyOn';
+    switch (policyName) {
+      case 'AllOn': return states.some(visible => !visible);
+      case 'AnyOff': return states.every(visible => visible);
+      case 'AllOff': return states.some(visible => visible);
+      default: return states.every(visible => !visible);
+    }
+  }
+
+  /**
+   * Remove marked content and XObject uses belonging to hidden groups.
+   * Returns the rewritten operations, or null if nothing was hidden.
+   */
+  private removeHiddenOperations(
+    operations: ContentOperation[],
+    resources: PDFDict | undefined,
+    hidden: Set<PDFRef>
+  ): ContentOperation[] | null {
+    const lookup = (category: string, name: string) => {
+      const group = resources?.lookup(PDFName.of(category));
+      return group instanceof PDFDict ? group.get(PDFName.of(name)) : undefined;
+    };
+
+    const output: ContentOperation[] = [];
+    let skipDepth = 0;
+    let changed = false;
+
+    for (const operation of operations) {
+      const { operator, operands } = operation;
+      if (skipDepth > 0) {
+        if (operator === 'BMC' || operator === 'BDC') skipDepth++;
+        if (operator === 'EMC') skipDepth--;
+        continue;
+      }
+
+      if (operator === 'BDC' && operands[0]?.type === 'name' && operands[0].value === 'OC' &&
+          operands[1]?.type === 'name' &&
+          this.isHiddenContent(lookup('Properties', operands[1].value), hidden)) {
+        skipDepth = 1;
+        changed = true;
+        this.report.hiddenLayerContent++;
+        continue;
+      }
+
+      if (operator === 'Do' && operands[0]?.type === 'name') {
+        const xObject = lookup('XObject', operands[0].value);
+        const stream = xObject && this.context.lookup(xObject);
+        if (stream instanceof PDFStream && this.isHiddenContent(stream.dict.get(PDFName.of('OC')), hidden)) {
+          changed = true;
+          this.report.hiddenLayerContent++;
+          continue;
+        }
+      }
+
+      output.push(operation);
+    }
+
+    return changed ? output : null;
+  }
+
+  private removeHiddenLayers(): void {
+    const ocProperties = this.catalog.lookup(PDFName.of('OCProperties'));
+    if (!(ocProperties instanceof PDFDict)) return;
+    const hidden = this.findHiddenGroups(ocProperties);
+    if (hidden.size === 0) return;
+
+    // Hidden layers are hidden everywhere, so shared forms are rewritten in place
+    for (const [ref, object] of this.context.enumerateIndirectObjects()) {
+      if (!(object instanceof PDFStream) || !isName(object.dict.lookup(PDFName.of('Subtype')), 'Form')) continue;
+      const resources = object.dict.lookup(PDFName.of('Resources'));
+      const result = this.removeHiddenOperations(
+        parseContentStream(getDecodedStreamContents(object)),
+        resources instanceof PDFDict ? resources : undefined,
+        hidden
+      );
+      if (result) {
+        this.context.assign(ref, createFlateStreamLike(this.context, object.dict, serializeContentStream(result)));
+      }
+    }
+
+    for (const page of this.pdfDoc.getPages()) {
+      const contents = getPageContents(page);
+      if (!contents) continue;
+      const resources = this.context.lookupMaybe(
+        page.node.getInheritableAttribute(PDFName.of('Resources')),
+        PDFDict
+      );
+      const result = this.removeHiddenOperations(parseContentStream(contents), resources, hidden);
+      if (result) {
+        const streamRef = this.context.register(this.context.flateStream(serializeContentStream(result)));
+        page.node.set(PDFName.of('Contents'), this.context.obj([streamRef]));
+      }
+    }
+
+    this.removeAnnotations(annotation => {
+      const remove = this.isHiddenContent(annotation.get(PDFName.of('OC')), hidden);
+      if (remove) this.report.hiddenLayerContent++;
+      return remove;
+    });
+
+    // Drop hidden XObjects, and the property lists naming hidden groups,
+    // from resource dictionaries so they are not kept
+    this.forEachDict(dict => {
+      const xObjects = dict.lookup(PDFName.of('XObject'));
+      if (xObjects instanceof PDFDict) {
+        for (const [key, value] of xObjects.entries()) {
+          const stream = this.context.lookup(value);
+          if (stream instanceof PDFStream && this.isHiddenContent(stream.dict.get(PDFName.of('OC')), hidden)) {
+            xObjects.delete(key);
+          }
+        }
+      }
+      const properties = dict.lookup(PDFName.of('Properties'));
+      if (properties instanceof PDFDict) {
+        for (const [key, value] of properties.entries()) {
+          if (this.isHiddenContent(value, hidden)) properties.delete(key);
+        }
+      }
+    });
+
+    // Finally forget the groups themselves
+    pruneRefs(ocProperties.lookup(PDFName.of('OCGs')), hidden);
+    const configs = ocProperties.lookup(PDFName.of('Configs'));
+    const configDicts = [
+      ocProperties.lookup(PDFName.of('D')),
+      ...(configs instanceof PDFArray ? configs.asArray().map(config => this.context.lookup(config)) : [])
+    ];
+    for (const config of configDicts) {
+      if (!(config instanceof PDFDict)) continue;
+      for (const key of ['ON', 'OFF', 'Locked', 'Order', 'RBGroups']) {
+        pruneRefs(config.lookup(PDFName.of(key)), hidden);
+      }
+      const usage = config.lookup(PDFName.of('AS'));
+      if (usage instanceof PDFArray) {
+        for (const application of usage.asArray()) {
+          const dict = this.context.lookup(application);
+          if (dict instanceof PDFDict) pruneRefs(dict.lookup(PDFName.of('OCGs')), hidden);
+        }
+      }
+    }
+    this.report.hiddenLayers = hidden.size;
+  }
+
+  private removePrivateData(): void {
+    this.forEachDict(dict => {
+      if (dict.has(PDFName.of('PieceInfo'))) {
+        dict.delete(PDFName.of('PieceInfo'));
+        this.report.privateData++;
+      }
+    });
+
+    // XFA packets carry their own copy of the form data and scripts
+    const acroForm = this.catalog.lookup(PDFName.of('AcroForm'));
+    if (acroForm instanceof PDFDict && acroForm.has(PDFName.of('XFA'))) {
+      acroForm.delete(PDFName.of('XFA'));
+      this.report.privateData++;
+    }
+  }
+}
+
+/**
+ * Remove JavaScript, OpenAction, embedded files, page thumbnails, hidden
+ * optional-content layers and private application data from a PDF.
+ *
+ * This pass is independent of the redaction areas and can run on any
+ * document. Removed objects are deleted, not just detached, so none of them
+ * remain in the returned bytes.
+ */
+export const sanitizeHiddenContent = async (
+  pdfBytes: Uint8Array | ArrayBuffer,
+  overrides: Partial<HiddenContentOptions> = {}
+): Promise<PdfOperationStatus<SanitizationResult>> => {
+  try {
+    const options: HiddenContentOptions = { ...REDACTION_SETTINGS.defaultHiddenContentOptions, ...overrides };
+    const pdfDoc = await PDFDocument.load(pdfBytes, {
+      ignoreEncryption: true,
+      updateMetadata: false
+    });
+
+    const sanitizer = new HiddenContentSanitizer(pdfDoc, options);
+    sanitizer.run();
+    removeUnreachableObjects(pdfDoc.context);
+
+    const sanitizedBytes = await pdfDoc.save({ useObjectStreams: false });
+    console.log('Hidden content removed:', sanitizer.report);
+    return { success: true, result: { pdfBytes: sanitizedBytes, report: sanitizer.report } };
+  } catch (error) {
+    console.error('Error removing hidden content:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove hidden content',
+      result: null
+    };
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFRef, PDFStream } from 'pdf-lib';
+import { getDecodedStreamContents } from './pdfContentStream';
+import { Matrix, rectToPolygon } from './pdfGeometry';
+import { scrubImageXObject } from './pdfImageRedactor';
+
+describe('scrubImageXObject', () => {
+  // A 4 by 2 pixel RGB image with a soft mask, every sample different,
+  // painted 40 by 20 units at the origin
+  const ctm: Matrix = [40, 0, 0, 20, 0, 0];
+  const rgb = Uint8Array.from({ length: 4 * 2 * 3 }, (_, i) => i + 1);
+  const alpha = Uint8Array.from({ length: 4 * 2 }, (_, i) => 100 + i);
+
+  const imageWithSoftMask = async () => {
+    const { context } = await PDFDocument.create();
+    const softMask = context.flateStream(alpha, {
+      Type: 'XObject', Subtype: 'Image', Width: 4, Height: 2, ColorSpace: 'DeviceGray', BitsPerComponent: 8
+    });
+    const image = context.flateStream(rgb, {
+      Type: 'XObject', Subtype: 'Image', Width: 4, Height: 2, ColorSpace: 'DeviceRGB', BitsPerComponent: 8,
+      SMask: context.register(softMask)
+    });
+    return { context, image };
+  };
+
+  it('zeroes the covered samples of the image and its soft mask and keeps the others', async () => {
+    const { context, image } = await imageWithSoftMask();
+    // The left half of the bottom row of pixels, the second row of samples
+    const region = rectToPolygon({ x: 0, y: 0, width: 20, height: 10 });
+    const scrubbed = await scrubImageXObject(context, image, ctm, [region]);
+    expect(scrubbed).not.toBeNull();
+
+    const covered = (pixel: number) => pixel === 4 || pixel === 5;
+    const samples = getDecodedStreamContents(scrubbed!);
+    expect(Array.from(samples)).toEqual(Array.from(rgb, (value, i) => (covered(Math.floor(i / 3)) ? 0 : value)));
+
+    const softMaskRef = scrubbed!.dict.get(PDFName.of('SMask')) as PDFRef;
+    expect(softMaskRef).not.toBe(image.dict.get(PDFName.of('SMask')));
+    const softMask = getDecodedStreamContents(context.lookup(softMaskRef, PDFStream));
+    expect(Array.from(softMask)).toEqual(Array.from(alpha, (value, i) => (covered(i) ? 0 : value)));
+  });
+
+  it('leaves an image away from every region alone', async () => {
+    const { context, image } = await imageWithSoftMask();
+    const region = rectToPolygon({ x: 100, y: 100, width: 20, height: 20 });
+    expect(await scrubImageXObject(context, image, ctm, [region])).toBeNull();
+  });
+});
@@ -0,0 +1,467 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  decodePDFRawStream
+} from 'pdf-lib';
+import {
+  Matrix,
+  Point,
+  applyMatrix,
+  boundsOfPoints,
+  clipPolygon,
+  invertMatrix,
+  pointInPolygon,
+  rectToPolygon,
+  toCounterClockwise
+} from './pdfGeometry';
+import { createFlateStreamLike } from './pdfContentStream';
+import { PdfRedactionError } from './errors';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+
+// Filters whose output we cannot decode and re-encode
+const UNSUPPORTED_FILTERS = new Set(['JPXDecode', 'JBIG2Decode', 'CCITTFaxDecode']);
+
+// Image space is the unit square, mapped onto the page by the CTM
+const UNIT_SQUARE = rectToPolygon({ x: 0, y: 0, width: 1, height: 1 });
+
+const lookupNumber = (dict: PDFDict, key: string): number | undefined => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+};
+
+const filterNames = (dict: PDFDict): string[] => {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter.decodeText()];
+  if (filter instanceof PDFArray) {
+    const names: string[] = [];
+    for (let i = 0; i < filter.size(); i++) {
+      const name = filter.lookup(i);
+      if (name instanceof PDFName) names.push(name.decodeText());
+    }
+    return names;
+  }
+  return [];
+};
+
+const lastDecodeParms = (dict: PDFDict): PDFDict | undefined => {
+  const parms = dict.lookup(PDFName.of('DecodeParms'));
+  if (parms instanceof PDFDict) return parms;
+  if (parms instanceof PDFArray && parms.size() > 0) {
+    const last = parms.lookup(parms.size() - 1);
+    return last instanceof PDFDict ? last : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Number of colour components per sample for an image colour space
+ */
+const componentCount = (colorSpace: PDFObject | undefined): number => {
+  if (colorSpace instanceof PDFName) {
+    switch (colorSpace.decodeText()) {
+      case 'DeviceRGB':
+      case 'CalRGB':
+      case 'Lab':
+        return 3;
+      case 'DeviceCMYK':
+        return 4;
+      default:
+        return 1;
+    }
+  }
+  if (colorSpace instanceof PDFArray && colorSpace.size() > 0) {
+    const family = colorSpace.lookup(0);
+    const familyName = family instanceof PDFName ? family.decodeText() : '';
+    if (familyName === 'ICCBased') {
+      const profile = colorSpace.lookup(1);
+      const n = profile instanceof PDFStream ? profile.dict.lookup(PDFName.of('N')) : undefined;
+      return n instanceof PDFNumber ? n.asNumber() : 3;
+    }
+    if (familyName === 'DeviceN') {
+      const names = colorSpace.lookup(1);
+      return names instanceof PDFArray ? names.size() : 1;
+    }
+    if (familyName === 'CalRGB' || familyName === 'Lab') return 3;
+    if (familyName === 'CalCMYK') return 4;
+    // Indexed, Separation and CalGray all have one component per sample
+    return 1;
+  }
+  return 1;
+};
+
+/**
+ * Undo PNG (10-15) and TIFF (2) predictors applied before compression
+ */
+const removePredictor = (data: Uint8Array, parms: PDFDict | undefined): Uint8Array => {
+  const predictor = parms ? lookupNumber(parms, 'Predictor') ?? 1 : 1;
+  if (predictor <= 1) return data;
+
+  const colors = lookupNumber(parms!, 'Colors') ?? 1;
+  const bitsPerComponent = lookupNumber(parms!, 'BitsPerComponent') ?? 8;
+  const columns = lookupNumber(parms!, 'Columns') ?? 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    if (bitsPerComponent !== 8) {
+      throw new PdfRedactionError('Cannot scrub image: unsupported TIFF predictor bit depth');
+    }
+    const out = new Uint8Array(data);
+    for (let row = 0; row + rowLength <= out.length; row += rowLength) {
+      for (let i = bytesPerPixel; i < rowLength; i++) {
+        out[row + i] = (out[row + i] + out[row + i - bytesPerPixel]) & 0xff;
+      }
+    }
+    return out;
+  }
+
+  // PNG predictors: every row starts with a filter-type byte
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    const prev = dst - rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i];
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[prev + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[prev + i - bytesPerPixel] : 0;
+      let value: number;
+      switch (type) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default:
+          throw new PdfRedactionError(`Cannot scrub image: unknown PNG predictor ${type}`);
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+/**
+ * Map redaction regions from page space into the unit square of an image
+ * painted with the given CTM, using a top-left origin like the image's
+ * samples. Regions that do not touch the image are dropped.
+ */
+const regionsInImageSpace = (ctm: Matrix, regions: Point[][]): Point[][] => {
+  const inverse = invertMatrix(ctm);
+  if (!inverse) return [];
+  return regions
+    .map(region => toCounterClockwise(region.map(p => applyMatrix(inverse, p))))
+    .filter(region => clipPolygon(UNIT_SQUARE, region).length >= 3)
+    .map(region => region.map(p => ({ x: p.x, y: 1 - p.y })));
+};
+
+/**
+ * Whether an image painted with the given CTM overlaps any region
+ */
+export const imageIntersectsRegions = (ctm: Matrix, regions: Point[][]): boolean =>
+  regionsInImageSpace(ctm, regions).length > 0;
+
+/**
+ * Calls `visit` for every pixel whose centre lies inside one of the regions
+ */
+const forEachCoveredPixel = (
+  regions: Point[][],
+  width: number,
+  height: number,
+  visit: (x: number, y: number) => void
+): number => {
+  let count = 0;
+  for (const region of regions) {
+    const bounds = boundsOfPoints(region);
+    const startX = Math.max(0, Math.floor(bounds.x));
+    const endX = Math.min(width - 1, Math.ceil(bounds.x + bounds.width));
+    const startY = Math.max(0, Math.floor(bounds.y));
+    const endY = Math.min(height - 1, Math.ceil(bounds.y + bounds.height));
+    for (let y = startY; y <= endY; y++) {
+      for (let x = startX; x <= endX; x++) {
+        if (pointInPolygon({ x: x + 0.5, y: y + 0.5 }, region)) {
+          visit(x, y);
+          count++;
+        }
+      }
+    }
+  }
+  return count;
+};
+
+/**
+ * Zero `bitCount` bits starting at `bitOffset` within a byte array
+ */
+const clearBits = (data: Uint8Array, bitOffset: number, bitCount: number): void => {
+  for (let bit = bitOffset; bit < bitOffset + bitCount; bit++) {
+    data[bit >> 3] &= ~(0x80 >> (bit & 7));
+  }
+};
+
+/**
+ * Decode a JPEG into RGBA pixels using the browser's image decoder
+ */
+const decodeJpeg = async (bytes: Uint8Array): Promise<HTMLCanvasElement> => {
+  if (typeof document === 'undefined' || typeof createImageBitmap === 'undefined') {
+    throw new PdfRedactionError('Cannot scrub JPEG image: no image decoder available');
+  }
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new PdfRedactionError('Could not create canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new PdfRedactionError('Could not re-encode scrubbed JPEG image'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', quality);
+  });
+
+const cloneStream = (context: PDFContext, stream: PDFStream): PDFStream => {
+  const copy = context.stream(stream.getContents());
+  for (const [key, value] of stream.dict.entries()) {
+    if (key.decodeText() !== 'Length') copy.dict.set(key, value);
+  }
+  return copy;
+};
+
+/**
+ * The /Decode array of an image, or undefined when there is none or it maps
+ * every component onto itself
+ */
+const nonDefaultDecode = (dict: PDFDict, components: number): number[] | undefined => {
+  const decode = dict.lookup(PDFName.of('Decode'));
+  if (!(decode instanceof PDFArray) || decode.size() < components * 2) return undefined;
+  const values: number[] = [];
+  for (let i = 0; i < components * 2; i++) {
+    const value = decode.lookup(i);
+    values.push(value instanceof PDFNumber ? value.asNumber() : i % 2);
+  }
+  return values.every((value, i) => value === i % 2) ? undefined : values;
+};
+
+/**
+ * Scrub a JPEG (DCTDecode) image. The result is re-encoded as an RGB JPEG,
+ * with the /Decode array applied to its samples, an ICC profile with three
+ * components kept, and a colour key mask turned into a soft mask.
+ */
+const scrubJpeg = async (
+  context: PDFContext,
+  image: PDFStream,
+  regions: Point[][]
+): Promise<PDFStream | null> => {
+  const { dict } = image;
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const components = componentCount(colorSpace);
+  // The browser decodes grey and RGB images to canvas channels that match
+  // the components, but converts CMYK ones
+  const channelsMatch = components === 1 || components === 3;
+  const decode = nonDefaultDecode(dict, components);
+  if (decode && !channelsMatch) {
+    throw new PdfRedactionError('Cannot scrub JPEG image with a /Decode array in a CMYK colour space');
+  }
+
+  const canvas = await decodeJpeg(image.getContents());
+  const { width, height } = canvas;
+  const ctx = canvas.getContext('2d')!;
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const { data } = pixels;
+
+  // A colour key masks the samples as decoded, before /Decode is applied.
+  // Without the original components of a CMYK image it is dropped instead.
+  const colourKey = dict.lookup(PDFName.of('Mask'));
+  let keyRanges: number[] | undefined;
+  if (colourKey instanceof PDFArray && channelsMatch && !dict.has(PDFName.of('SMask'))) {
+    keyRanges = [];
+    for (let i = 0; i < components * 2; i++) {
+      const value = colourKey.lookup(i);
+      keyRanges.push(value instanceof PDFNumber ? value.asNumber() : 0);
+    }
+  }
+  const softMask = keyRanges ? new Uint8Array(width * height) : undefined;
+
+  for (let offset = 0, pixel = 0; offset < data.length; offset += 4, pixel++) {
+    if (softMask && keyRanges) {
+      let keyed = true;
+      for (let component = 0; component < components; component++) {
+        const value = data[offset + component];
+        if (value < keyRanges[component * 2] || value > keyRanges[component * 2 + 1]) keyed = false;
+      }
+      softMask[pixel] = keyed ? 0 : 255;
+    }
+    if (decode) {
+      for (let channel = 0; channel < 3; channel++) {
+        const component = components === 1 ? 0 : channel;
+        const min = decode[component * 2];
+        const max = decode[component * 2 + 1];
+        // The canvas clamps the result to 0-255
+        data[offset + channel] = Math.round((min + (data[offset + channel] / 255) * (max - min)) * 255);
+      }
+    }
+  }
+
+  const pixelRegions = regions.map(region =>
+    region.map(p => ({ x: p.x * width, y: p.y * height }))
+  );
+  const covered = forEachCoveredPixel(pixelRegions, width, height, (x, y) => {
+    const offset = (y * width + x) * 4;
+    data[offset] = 0;
+    data[offset + 1] = 0;
+    data[offset + 2] = 0;
+    data[offset + 3] = 255;
+    // Whether a covered pixel matched the colour key would tell its colour
+    if (softMask) softMask[y * width + x] = 255;
+  });
+  if (covered === 0) return null;
+  ctx.putImageData(pixels, 0, 0);
+
+  const family = colorSpace instanceof PDFArray ? colorSpace.lookup(0) : undefined;
+  const keepsProfile = components === 3 && family instanceof PDFName && family.decodeText() === 'ICCBased';
+  const jpegBytes = await canvasToJpeg(canvas, REDACTION_SETTINGS.scrubbedJpegQuality);
+  const replacement = context.stream(jpegBytes, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: width,
+    Height: height,
+    ColorSpace: keepsProfile ? dict.get(PDFName.of('ColorSpace')) : 'DeviceRGB',
+    BitsPerComponent: 8,
+    Filter: 'DCTDecode'
+  });
+  const skipped = new Set(['Filter', 'DecodeParms', 'Length', 'Width', 'Height', 'ColorSpace', 'BitsPerComponent', 'Decode']);
+  for (const [key, value] of dict.entries()) {
+    if (key.decodeText() === 'Mask' && colourKey instanceof PDFArray) continue;
+    if (!skipped.has(key.decodeText())) replacement.dict.set(key, value);
+  }
+  if (softMask) {
+    const softMaskStream = context.flateStream(softMask, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: width,
+      Height: height,
+      ColorSpace: 'DeviceGray',
+      BitsPerComponent: 8
+    });
+    replacement.dict.set(PDFName.of('SMask'), context.register(softMaskStream));
+  }
+  return replacement;
+};
+
+/**
+ * Scrub an image whose samples can be decoded with the standard filters
+ */
+const scrubSampledImage = (
+  context: PDFContext,
+  image: PDFStream,
+  regions: Point[][]
+): PDFStream | null => {
+  const { dict } = image;
+  const width = lookupNumber(dict, 'Width') ?? 0;
+  const height = lookupNumber(dict, 'Height') ?? 0;
+  const imageMask = dict.lookup(PDFName.of('ImageMask'));
+  const isMask = imageMask instanceof PDFBool && imageMask.asBoolean();
+  const bitsPerComponent = isMask ? 1 : lookupNumber(dict, 'BitsPerComponent') ?? 8;
+  const components = isMask ? 1 : componentCount(dict.lookup(PDFName.of('ColorSpace')));
+  if (width <= 0 || height <= 0) return null;
+
+  let samples: Uint8Array;
+  try {
+    const decoded = image instanceof PDFRawStream ? decodePDFRawStream(image).decode() : image.getContents();
+    samples = removePredictor(decoded, lastDecodeParms(dict));
+  } catch (error) {
+    if (error instanceof PdfRedactionError) throw error;
+    throw new PdfRedactionError('Cannot scrub image: its data could not be decoded', error as Error);
+  }
+
+  const bitsPerPixel = components * bitsPerComponent;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  if (samples.length < rowBytes * height) {
+    throw new PdfRedactionError('Cannot scrub image: decoded data is shorter than expected');
+  }
+  samples = new Uint8Array(samples.subarray(0, rowBytes * height));
+
+  const pixelRegions = regions.map(region => region.map(p => ({ x: p.x * width, y: p.y * height })));
+  const covered = forEachCoveredPixel(pixelRegions, width, height, (x, y) => {
+    clearBits(samples, y * rowBytes * 8 + x * bitsPerPixel, bitsPerPixel);
+  });
+  if (covered === 0) return null;
+
+  return createFlateStreamLike(context, dict, samples);
+};
+
+/**
+ * Overwrite the pixels of an image XObject that lie inside redaction regions.
+ *
+ * The regions are mapped into the image's pixel space through the CTM in
+ * effect when the image is painted. Returns a new image stream (the original
+ * is left untouched so other uses keep it), or null when no pixel is covered.
+ * Soft masks are scrubbed the same way. Throws a PdfRedactionError when the
+ * image uses an encoding that cannot be decoded here.
+ */
+export const scrubImageXObject = async (
+  context: PDFContext,
+  image: PDFStream,
+  ctm: Matrix,
+  regions: Point[][]
+): Promise<PDFStream | null> => {
+  const unitRegions = regionsInImageSpace(ctm, regions);
+  if (unitRegions.length === 0) return null;
+
+  const filters = filterNames(image.dict);
+  const unsupported = filters.find(filter => UNSUPPORTED_FILTERS.has(filter));
+  if (unsupported) {
+    throw new PdfRedactionError(`Cannot scrub image encoded with ${unsupported}`);
+  }
+
+  let replacement: PDFStream | null;
+  if (filters.includes('DCTDecode')) {
+    if (filters.length > 1) {
+      throw new PdfRedactionError('Cannot scrub JPEG image with additional filters');
+    }
+    replacement = await scrubJpeg(context, image, unitRegions);
+  } else {
+    replacement = scrubSampledImage(context, image, unitRegions);
+  }
+
+  // Soft masks and stencil masks share the image's unit square
+  for (const maskKey of ['SMask', 'Mask']) {
+    const mask = image.dict.lookup(PDFName.of(maskKey));
+    if (!(mask instanceof PDFStream)) continue;
+    const scrubbedMask = await scrubImageXObject(context, mask, ctm, regions);
+    if (scrubbedMask) {
+      // Keep the original encoding when only the mask changes
+      replacement = replacement ?? cloneStream(context, image);
+      replacement.dict.set(PDFName.of(maskKey), context.register(scrubbedMask));
+    }
+  }
+
+  return replacement;
+};
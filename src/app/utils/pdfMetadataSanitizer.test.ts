@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { sanitizeMetadata } from './pdfMetadataSanitizer';
+import { removeUnreachableObjects } from './pdfObjectCollector';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('sanitizeMetadata', () => {
+  // A document with an Info dictionary and XMP packets for the document and a page
+  const documentWithMetadata = async (): Promise<PDFDocument> => {
+    const pdfDoc = await PDFDocument.create({ updateMetadata: false });
+    const page = pdfDoc.addPage();
+    const { context } = pdfDoc;
+    context.trailerInfo.Info = context.register(context.obj({
+      Title: PDFString.of('SecretTitle'),
+      Author: PDFString.of('SecretAuthor')
+    }));
+    const xmp = (text: string) => context.register(context.stream(
+      `<x:xmpmeta xmlns:x="adobe:ns:meta/"><dc:creator>${text}</dc:creator></x:xmpmeta>`,
+      { Type: 'Metadata', Subtype: 'XML' }
+    ));
+    pdfDoc.catalog.set(PDFName.of('Metadata'), xmp('SecretXmpAuthor'));
+    page.node.set(PDFName.of('Metadata'), xmp('SecretPageXmp'));
+    return pdfDoc;
+  };
+
+  const saved = async (pdfDoc: PDFDocument): Promise<Uint8Array> => {
+    removeUnreachableObjects(pdfDoc.context);
+    return pdfDoc.save({ useObjectStreams: false });
+  };
+
+  it('removes the Info dictionary and every XMP packet', async () => {
+    const pdfDoc = await documentWithMetadata();
+    const stats = sanitizeMetadata(pdfDoc);
+    expect(stats).toMatchObject({ removedInfoEntries: 2, removedXmpStreams: 2, rewroteXmp: false, regeneratedId: true });
+
+    const text = latin1(await saved(pdfDoc));
+    ['SecretTitle', 'SecretAuthor', 'SecretXmpAuthor', 'SecretPageXmp', 'xmpmeta'].forEach(secret => {
+      expect(text).not.toContain(secret);
+    });
+    expect(pdfDoc.context.trailerInfo.Info).toBeUndefined();
+  });
+
+  it('rewrites the Info dictionary and XMP packet with only the given values', async () => {
+    const pdfDoc = await documentWithMetadata();
+    const stats = sanitizeMetadata(pdfDoc, { info: 'rewrite', xmp: 'rewrite', infoOverrides: { Title: 'Public & open' } });
+    expect(stats).toMatchObject({ removedXmpStreams: 2, rewroteXmp: true });
+
+    const pdfBytes = await saved(pdfDoc);
+    const text = latin1(pdfBytes);
+    ['SecretTitle', 'SecretAuthor', 'SecretXmpAuthor', 'SecretPageXmp'].forEach(secret => {
+      expect(text).not.toContain(secret);
+    });
+    expect(text).toContain('<rdf:li xml:lang="x-default">Public &amp; open</rdf:li>');
+    const reloaded = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+    expect(reloaded.getTitle()).toBe('Public & open');
+    expect(reloaded.getAuthor()).toBeUndefined();
+  });
+});
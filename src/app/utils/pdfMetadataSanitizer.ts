@@ -0,0 +1,141 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFStream } from 'pdf-lib';
+import { DocumentInfoField, MetadataOptions } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+
+/**
+ * Summary of the metadata changes made to a document
+ */
+export interface MetadataSanitizationStats {
+  /** Entries removed from the Info dictionary */
+  removedInfoEntries: number;
+  /** XMP metadata streams removed (document, page or resource level) */
+  removedXmpStreams: number;
+  /** Whether the XMP packet was replaced with a rewritten one */
+  rewroteXmp: boolean;
+  /** Whether a new /ID was written */
+  regeneratedId: boolean;
+  /** /PieceInfo dictionaries removed */
+  removedPieceInfo: number;
+}
+
+// XMP property written for each Info field when the packet is rewritten
+const XMP_PROPERTIES: Record<DocumentInfoField, (value: string) => string> = {
+  Title: value => `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${value}</rdf:li></rdf:Alt></dc:title>`,
+  Author: value => `<dc:creator><rdf:Seq><rdf:li>${value}</rdf:li></rdf:Seq></dc:creator>`,
+  Subject: value => `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${value}</rdf:li></rdf:Alt></dc:description>`,
+  Keywords: value => `<pdf:Keywords>${value}</pdf:Keywords>`,
+  Creator: value => `<xmp:CreatorTool>${value}</xmp:CreatorTool>`,
+  Producer: value => `<pdf:Producer>${value}</pdf:Producer>`
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Build an XMP packet containing only the given Info values
+ */
+const buildXmpPacket = (values: Partial<Record<DocumentInfoField, string>>): string => {
+  const properties = (Object.keys(XMP_PROPERTIES) as DocumentInfoField[])
+    .filter(field => values[field] !== undefined)
+    .map(field => XMP_PROPERTIES[field](escapeXml(values[field]!)))
+    .join('\n      ');
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '    <rdf:Description rdf:about=""',
+    '        xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '        xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    `      ${properties}`,
+    '    </rdf:Description>',
+    '  </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+};
+
+const randomHex = (byteCount: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(byteCount)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * Clear or rewrite the document metadata according to the options.
+ *
+ * - The Info dictionary is kept, removed, or replaced by one holding only
+ *   `infoOverrides`.
+ * - XMP packets are kept, removed everywhere, or removed everywhere and the
+ *   document packet replaced by one built from `infoOverrides`.
+ * - A new random /ID is written, unless the document is encrypted, since
+ *   the ID is part of its encryption key.
+ * - /PieceInfo is stripped from the pages and forms.
+ *
+ * Replaced objects are only detached here; `removeUnreachableObjects` must
+ * run before saving so that they are not written out.
+ */
+export const sanitizeMetadata = (
+  pdfDoc: PDFDocument,
+  overrides: Partial<MetadataOptions> = {}
+): MetadataSanitizationStats => {
+  const options: MetadataOptions = { ...REDACTION_SETTINGS.defaultMetadataOptions, ...overrides };
+  const { context, catalog } = pdfDoc;
+  const stats: MetadataSanitizationStats = {
+    removedInfoEntries: 0,
+    removedXmpStreams: 0,
+    rewroteXmp: false,
+    regeneratedId: false,
+    removedPieceInfo: 0
+  };
+
+  if (options.info !== 'keep') {
+    const info = context.trailerInfo.Info && context.lookup(context.trailerInfo.Info);
+    stats.removedInfoEntries = info instanceof PDFDict ? info.keys().length : 0;
+    context.trailerInfo.Info = undefined;
+
+    if (options.info === 'rewrite') {
+      const rewritten = context.obj({});
+      for (const [field, value] of Object.entries(options.infoOverrides)) {
+        if (value !== undefined) rewritten.set(PDFName.of(field), PDFHexString.fromText(value));
+      }
+      context.trailerInfo.Info = context.register(rewritten);
+    }
+  }
+
+  const metadataKey = PDFName.of('Metadata');
+  const pieceInfoKey = PDFName.of('PieceInfo');
+  for (const [, object] of context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object;
+    if (!(dict instanceof PDFDict)) continue;
+    if (options.xmp !== 'keep' && dict.has(metadataKey)) {
+      dict.delete(metadataKey);
+      stats.removedXmpStreams++;
+    }
+    if (options.stripPieceInfo && dict.has(pieceInfoKey)) {
+      dict.delete(pieceInfoKey);
+      stats.removedPieceInfo++;
+    }
+  }
+
+  if (options.xmp === 'rewrite') {
+    const packet = context.stream(buildXmpPacket(options.infoOverrides), {
+      Type: 'Metadata',
+      Subtype: 'XML'
+    });
+    catalog.set(metadataKey, context.register(packet));
+    stats.rewroteXmp = true;
+  }
+
+  if (options.regenerateId && !context.trailerInfo.Encrypt) {
+    const id = PDFHexString.of(randomHex(16));
+    context.trailerInfo.ID = context.obj([id, id]);
+    stats.regeneratedId = true;
+  }
+
+  return stats;
+};
+
@@ -0,0 +1,41 @@
+import { PDFArray, PDFContext, PDFDict, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+/**
+ * Delete every indirect object that can no longer be reached from the
+ * trailer. pdf-lib writes all objects it knows about, so replaced content
+ * streams, images and metadata would otherwise still be in the saved file.
+ * Returns the number of objects deleted.
+ */
+export const removeUnreachableObjects = (context: PDFContext): number => {
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [];
+  const { Root, Info, Encrypt, ID } = context.trailerInfo;
+  for (const entry of [Root, Info, Encrypt, ID]) {
+    if (entry) pending.push(entry);
+  }
+
+  while (pending.length > 0) {
+    const object = pending.pop()!;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref)) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+};
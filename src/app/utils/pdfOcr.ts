@@ -0,0 +1,137 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  TextRenderingMode,
+  beginText,
+  endText,
+  setCharacterSqueeze,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  showText
+} from 'pdf-lib';
+import type { Bbox, Page, Worker } from 'tesseract.js';
+import { OcrLanguage, OcrPageResult } from '../types/pdf';
+import { OCR_SETTINGS } from '../constants/pdf';
+import { Rect, rectsIntersect } from './pdfGeometry';
+
+// Fraction of a word box below the baseline, for Helvetica-like text
+const DESCENT_RATIO = 0.2;
+
+// Tesseract's OEM.LSTM_ONLY; the bundled engine only contains the LSTM models
+const LSTM_ONLY = 1;
+
+interface RecognizedWord {
+  text: string;
+  bbox: Bbox;
+}
+
+const wordsOf = (page: Page): RecognizedWord[] =>
+  (page.blocks ?? []).flatMap(block =>
+    block.paragraphs.flatMap(paragraph =>
+      paragraph.lines.flatMap(line => line.words)
+    )
+  );
+
+/**
+ * OCR engine adding invisible text layers to rasterised pages. The engine,
+ * its worker and the language data are loaded from the application's own
+ * files, never from the network.
+ */
+export class PageOcr {
+  private readonly results = new Map<number, OcrPageResult>();
+  private readonly fonts = new WeakMap<PDFDocument, PDFFont>();
+
+  private constructor(private readonly worker: Worker) {}
+
+  static async create(language: OcrLanguage): Promise<PageOcr> {
+    const { createWorker } = await import('tesseract.js');
+    // The worker resolves paths against its own URL, so they are made absolute
+    const resolve = (path: string) => new URL(path, window.location.href).href;
+    const worker = await createWorker(language, LSTM_ONLY, {
+      workerPath: resolve(OCR_SETTINGS.workerPath),
+      corePath: resolve(OCR_SETTINGS.corePath),
+      langPath: resolve(OCR_SETTINGS.langPath),
+      gzip: true
+    });
+    return new PageOcr(worker);
+  }
+
+  /** Results of the pages recognised so far, by page number */
+  get pageResults(): OcrPageResult[] {
+    return [...this.results.values()].sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+
+  /**
+   * Recognise the text on a rendered page and add it to the page as
+   * invisible text. `scale` is the canvas pixels per point; words touching
+   * one of the redacted rectangles (in page space) are left out.
+   */
+  async addTextLayer(
+    page: PDFPage,
+    canvas: HTMLCanvasElement,
+    pageNumber: number,
+    scale: number,
+    redactedRects: Rect[]
+  ): Promise<OcrPageResult> {
+    const { data } = await this.worker.recognize(canvas, {}, { blocks: true });
+    const { height: pageHeight } = page.getSize();
+    const font = await this.fontFor(page.doc);
+    const supported = new Set(font.getCharacterSet());
+    const fontName = page.node.newFontDictionary('OcrText', font.ref);
+
+    const operators = [beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+    let wordCount = 0;
+    let skippedWords = 0;
+    for (const word of wordsOf(data)) {
+      const text = [...word.text.trim()]
+        .map(char => (supported.has(char.codePointAt(0)!) ? char : '?'))
+        .join('');
+      if (!text) continue;
+
+      const box: Rect = {
+        x: word.bbox.x0 / scale,
+        y: pageHeight - word.bbox.y1 / scale,
+        width: (word.bbox.x1 - word.bbox.x0) / scale,
+        height: (word.bbox.y1 - word.bbox.y0) / scale
+      };
+      if (box.width <= 0 || box.height <= 0) continue;
+      if (redactedRects.some(rect => rectsIntersect(box, rect))) {
+        skippedWords++;
+        continue;
+      }
+
+      // Stretch the word so that it spans the recognised box
+      const size = box.height;
+      const naturalWidth = font.widthOfTextAtSize(text, size);
+      operators.push(
+        setFontAndSize(fontName, size),
+        setCharacterSqueeze(naturalWidth > 0 ? (box.width / naturalWidth) * 100 : 100),
+        setTextMatrix(1, 0, 0, 1, box.x, box.y + size * DESCENT_RATIO),
+        showText(font.encodeText(text))
+      );
+      wordCount++;
+    }
+    operators.push(endText());
+    page.pushOperators(...operators);
+
+    const result: OcrPageResult = { pageNumber, confidence: data.confidence, wordCount, skippedWords };
+    this.results.set(pageNumber, result);
+    return result;
+  }
+
+  async terminate(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private async fontFor(pdfDoc: PDFDocument): Promise<PDFFont> {
+    let font = this.fonts.get(pdfDoc);
+    if (!font) {
+      font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+      this.fonts.set(pdfDoc, font);
+    }
+    return font;
+  }
+}
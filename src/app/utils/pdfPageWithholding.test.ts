@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFObject, PDFRef, PDFString } from 'pdf-lib';
+import { buildWithholdingIndex, withholdPages } from './pdfPageWithholding';
+
+const latin1 = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('buildWithholdingIndex', () => {
+  it('lists withheld pages in page order', () => {
+    expect(buildWithholdingIndex({ 5: 'redact', 2: 'redact' })).toEqual([
+      { pageNumber: 2, action: 'redact', outputPage: 2 },
+      { pageNumber: 5, action: 'redact', outputPage: 5 }
+    ]);
+  });
+
+  it('moves pages after removed ones up', () => {
+    expect(buildWithholdingIndex({ 1: 'remove', 3: 'redact', 4: 'remove', 6: 'redact' })).toEqual([
+      { pageNumber: 1, action: 'remove', outputPage: null },
+      { pageNumber: 3, action: 'redact', outputPage: 2 },
+      { pageNumber: 4, action: 'remove', outputPage: null },
+      { pageNumber: 6, action: 'redact', outputPage: 4 }
+    ]);
+  });
+
+  it('skips pages without an action', () => {
+    expect(buildWithholdingIndex({ 1: undefined, 2: 'redact' })).toEqual([
+      { pageNumber: 2, action: 'redact', outputPage: 2 }
+    ]);
+    expect(buildWithholdingIndex({})).toEqual([]);
+  });
+});
+
+describe('withholdPages', () => {
+  // Three pages, with bookmarks, named destinations, an open action and a
+  // link leading to the second one
+  const documentWithDestinations = async (): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    const [first, second] = [pdfDoc.addPage(), pdfDoc.addPage(), pdfDoc.addPage()];
+    const { context } = pdfDoc;
+
+    const sharedDestination = context.register(context.obj([second.ref, 'Fit']));
+    pdfDoc.catalog.set(PDFName.of('OpenAction'), context.obj([second.ref, 'XYZ', null, null, null]));
+    pdfDoc.catalog.set(PDFName.of('Names'), context.obj({
+      Dests: context.obj({
+        Names: [
+          PDFHexString.fromText('first'), context.obj([first.ref, 'Fit']),
+          PDFHexString.fromText('second'), sharedDestination,
+          PDFHexString.fromText('action'), context.obj({ D: [second.ref, 'FitH', 700] })
+        ]
+      })
+    }));
+
+    const bookmark = context.register(context.obj({ Title: PDFHexString.fromText('Second'), Dest: sharedDestination }));
+    const outlines = context.register(context.obj({ Type: 'Outlines', First: bookmark, Last: bookmark, Count: 1 }));
+    context.lookup(bookmark, PDFDict).set(PDFName.of('Parent'), outlines);
+    pdfDoc.catalog.set(PDFName.of('Outlines'), outlines);
+
+    const link = context.register(context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [0, 0, 100, 20],
+      A: { S: 'GoTo', D: [second.ref, 'Fit'] }
+    }));
+    first.node.set(PDFName.of('Annots'), context.obj([link]));
+    return pdfDoc.save();
+  };
+
+  it('drops destinations and actions that lead to a removed page', async () => {
+    const { pdfBytes } = await withholdPages(await documentWithDestinations(), { 2: 'remove' });
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const { catalog } = pdfDoc;
+
+    expect(pdfDoc.getPageCount()).toBe(2);
+    expect(catalog.get(PDFName.of('OpenAction'))).toBeUndefined();
+
+    const names = catalog.lookup(PDFName.of('Names'), PDFDict)
+      .lookup(PDFName.of('Dests'), PDFDict)
+      .lookup(PDFName.of('Names'), PDFArray);
+    expect(names.size()).toBe(2);
+    expect(names.lookup(0, PDFHexString).decodeText()).toBe('first');
+    expect(names.lookup(1, PDFArray).get(0)).toBe(pdfDoc.getPage(0).ref);
+
+    const bookmark = catalog.lookup(PDFName.of('Outlines'), PDFDict).lookup(PDFName.of('First'), PDFDict);
+    expect(bookmark.get(PDFName.of('Dest'))).toBeUndefined();
+
+    const [linkRef] = pdfDoc.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray).asArray();
+    const link = pdfDoc.context.lookup(linkRef as PDFRef, PDFDict);
+    expect(link.get(PDFName.of('A'))).toBeUndefined();
+  });
+
+  it('keeps destinations to a blanked page', async () => {
+    const { pdfBytes } = await withholdPages(await documentWithDestinations(), { 2: 'redact' });
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    const openAction = pdfDoc.catalog.lookup(PDFName.of('OpenAction'), PDFArray);
+    expect(openAction.get(0)).toBe(pdfDoc.getPage(1).ref);
+  });
+
+  // Two pages with a tagged paragraph each, and a figure on the second page
+  // whose replacement text describes it; the section holding the figure has
+  // a caption on the first page
+  const taggedDocument = async (): Promise<Uint8Array> => {
+    const pdfDoc = await PDFDocument.create();
+    const [first, second] = [pdfDoc.addPage(), pdfDoc.addPage()];
+    const { context } = pdfDoc;
+    first.node.set(PDFName.of('StructParents'), context.obj(0));
+    second.node.set(PDFName.of('StructParents'), context.obj(1));
+
+    const root = context.nextRef();
+    const document = context.nextRef();
+    const section = context.nextRef();
+    const element = (fields: Record<string, PDFObject | string | number>, parent: PDFRef) =>
+      context.register(context.obj({ Type: 'StructElem', P: parent, ...fields }));
+    const kept = element({ S: 'P', Pg: first.ref, K: 0, ActualText: PDFString.of('KeptActual') }, document);
+    const caption = element({ S: 'Caption', Pg: first.ref, K: 1 }, section);
+    const figure = element({ S: 'Figure', K: 0, Alt: PDFString.of('SecretAltText') }, section);
+    const span = element({ S: 'Span', Pg: second.ref, K: 1, ActualText: PDFString.of('SecretActual') }, document);
+    context.assign(section, context.obj({ Type: 'StructElem', S: 'Sect', P: document, Pg: second.ref, K: [figure, caption] }));
+    context.assign(document, context.obj({ Type: 'StructElem', S: 'Document', P: root, K: [kept, section, span] }));
+    context.assign(root, context.obj({
+      Type: 'StructTreeRoot',
+      K: document,
+      ParentTree: { Nums: [0, [kept, section], 1, [figure, span]] },
+      ParentTreeNextKey: 2
+    }));
+    pdfDoc.catalog.set(PDFName.of('StructTreeRoot'), root);
+    return pdfDoc.save({ useObjectStreams: false });
+  };
+
+  it.each(['remove', 'redact'] as const)('drops the structure elements of a page set to %s', async action => {
+    const original = await taggedDocument();
+    expect(latin1(original)).toContain('SecretAltText');
+    const { pdfBytes } = await withholdPages(original, { 2: action });
+    const text = latin1(pdfBytes);
+    expect(text).not.toContain('SecretAltText');
+    expect(text).not.toContain('SecretActual');
+    expect(text).toContain('KeptActual');
+
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const root = pdfDoc.catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict);
+    const document = root.lookup(PDFName.of('K'), PDFDict);
+    const [kept, caption] = document.lookup(PDFName.of('K'), PDFArray).asArray();
+    expect(pdfDoc.context.lookup(kept, PDFDict).lookup(PDFName.of('S'))).toBe(PDFName.of('P'));
+    // The caption on the first page moves up out of the removed section
+    const captionElement = pdfDoc.context.lookup(caption, PDFDict);
+    expect(captionElement.lookup(PDFName.of('S'))).toBe(PDFName.of('Caption'));
+    expect(captionElement.get(PDFName.of('P'))).toBe(root.get(PDFName.of('K')));
+
+    const nums = root.lookup(PDFName.of('ParentTree'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    expect(nums.size()).toBe(2);
+    expect(nums.lookup(1, PDFArray).asArray()).toEqual([kept, root.get(PDFName.of('K'))]);
+  });
+});
@@ -0,0 +1,357 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRef,
+  PDFStream
+} from 'pdf-lib';
+import { PageWithholding, WithheldPage } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import { drawRedactionLabel } from './pdfRedactionLabel';
+import { removeUnreachableObjects } from './pdfObjectCollector';
+import { PdfRedactionError } from './errors';
+import { hexToRgb } from './pdfColor';
+
+// Page dictionary entries a blanked page keeps: its place in the page tree and
+// its geometry. Everything else can carry content.
+const BLANK_PAGE_ENTRIES = new Set(['Type', 'Parent', 'MediaBox', 'CropBox', 'Rotate', 'UserUnit']);
+
+/**
+ * Withheld pages in page order, skipping pages set to no action
+ */
+export const listWithheldPages = (
+  withheldPages: Partial<Record<number, PageWithholding>> = {}
+): { pageNumber: number; action: PageWithholding }[] =>
+  Object.entries(withheldPages)
+    .filter((entry): entry is [string, PageWithholding] => entry[1] !== undefined)
+    .map(([pageNumber, action]) => ({ pageNumber: Number(pageNumber), action }))
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+
+/**
+ * Index of the withheld pages: the output page number each one ends up at,
+ * given that removed pages close up the numbering after them
+ */
+export const buildWithholdingIndex = (
+  withheldPages: Partial<Record<number, PageWithholding>>
+): WithheldPage[] => {
+  let removedBefore = 0;
+  return listWithheldPages(withheldPages).map(({ pageNumber, action }) => {
+    if (action === 'remove') {
+      removedBefore++;
+      return { pageNumber, action, outputPage: null };
+    }
+    return { pageNumber, action, outputPage: pageNumber - removedBefore };
+  });
+};
+
+/**
+ * References to the annotations of a page
+ */
+const annotationRefs = (page: PDFPage): PDFRef[] => {
+  const annots = page.node.lookup(PDFName.of('Annots'));
+  if (!(annots instanceof PDFArray)) return [];
+  return annots.asArray().filter((item): item is PDFRef => item instanceof PDFRef);
+};
+
+/**
+ * Kids of a structure element or of the structure tree root, as a list
+ */
+const structureKids = (node: PDFDict): PDFObject[] => {
+  const kids = node.get(PDFName.of('K'));
+  if (kids === undefined) return [];
+  return kids instanceof PDFArray ? kids.asArray() : [kids];
+};
+
+/**
+ * Remove the structure elements of the given pages from the structure tree,
+ * since their alternate descriptions, replacement text and expansions (/Alt,
+ * /ActualText, /E) describe the withheld content. An element is on the page
+ * of its /Pg, or else on the page of its parent; an element whose content
+ * was all on those pages goes too. Elements and content on other pages under
+ * a removed element move up to its parent. The parent tree entries of the
+ * pages and of their annotations are dropped, and entries for a removed
+ * element lead to the element its content moved to. Returns the references
+ * of the removed elements.
+ */
+const pruneStructureTree = (pdfDoc: PDFDocument, pages: PDFPage[]): Set<PDFRef> => {
+  const removed = new Set<PDFRef>();
+  const rootRef = pdfDoc.catalog.get(PDFName.of('StructTreeRoot'));
+  const root = pdfDoc.catalog.lookupMaybe(PDFName.of('StructTreeRoot'), PDFDict);
+  if (!rootRef || !root) return removed;
+  const { context } = pdfDoc;
+  const withheld = new Set(pages.map(page => page.ref));
+  const isWithheld = (page: PDFObject | undefined) => page instanceof PDFRef && withheld.has(page);
+  const movedTo = new Map<PDFRef, PDFObject>();
+  const visited = new Set<PDFRef>();
+
+  // Replace the kids of a node when any of them changed
+  const setKids = (node: PDFDict, kids: PDFObject[], kept: PDFObject[]): void => {
+    if (kept.length === kids.length && kept.every((kid, i) => kid === kids[i])) return;
+    if (kept.length === 0) {
+      node.delete(PDFName.of('K'));
+    } else {
+      node.set(PDFName.of('K'), context.obj(kept));
+    }
+  };
+
+  // What takes the place of a kid in the /K of its parent: the kid, nothing,
+  // or the kids of a removed element
+  const pruneKid = (kid: PDFObject, page: PDFObject | undefined, parent: PDFObject): PDFObject[] => {
+    if (kid instanceof PDFNumber) return isWithheld(page) ? [] : [kid];
+    const node = context.lookup(kid);
+    if (!(node instanceof PDFDict)) return [kid];
+    const kidPage = node.get(PDFName.of('Pg')) ?? page;
+    const type = node.get(PDFName.of('Type'));
+    // Marked-content and object references
+    if (type === PDFName.of('MCR') || type === PDFName.of('OBJR')) return isWithheld(kidPage) ? [] : [kid];
+
+    if (kid instanceof PDFRef) {
+      if (visited.has(kid)) return [kid];
+      visited.add(kid);
+    }
+    const kids = structureKids(node);
+    const kept = kids.flatMap(item => pruneKid(item, kidPage, kid));
+    if (!isWithheld(kidPage) && (kids.length === 0 || kept.length > 0)) {
+      setKids(node, kids, kept);
+      return [kid];
+    }
+    if (kid instanceof PDFRef) {
+      removed.add(kid);
+      movedTo.set(kid, parent);
+    }
+    kept.forEach(item => {
+      const element = context.lookup(item);
+      if (element instanceof PDFDict && element.has(PDFName.of('P'))) element.set(PDFName.of('P'), parent);
+    });
+    return kept;
+  };
+  const kids = structureKids(root);
+  setKids(root, kids, kids.flatMap(kid => pruneKid(kid, undefined, rootRef)));
+
+  // Element the content of a removed element ended up in, if it is not the root
+  const replacement = (element: PDFRef): PDFObject => {
+    let current: PDFObject = element;
+    while (current instanceof PDFRef && movedTo.has(current)) current = movedTo.get(current)!;
+    return current === rootRef ? PDFNull : current;
+  };
+  const parentKeys = new Set<number>();
+  for (const page of pages) {
+    const keys = [
+      page.node.get(PDFName.of('StructParents')),
+      ...annotationRefs(page).map(ref => context.lookupMaybe(ref, PDFDict)?.get(PDFName.of('StructParent')))
+    ];
+    keys.forEach(key => {
+      if (key instanceof PDFNumber) parentKeys.add(key.asNumber());
+    });
+  }
+  const pruneParentTree = (node: PDFDict): void => {
+    node.lookupMaybe(PDFName.of('Kids'), PDFArray)?.asArray().forEach(kid => {
+      const child = context.lookup(kid);
+      if (child instanceof PDFDict) pruneParentTree(child);
+    });
+    const nums = node.lookupMaybe(PDFName.of('Nums'), PDFArray);
+    if (!nums) return;
+    // Each key is followed by its value
+    for (let i = nums.size() - 2; i >= 0; i -= 2) {
+      const key = nums.get(i);
+      const value = nums.get(i + 1);
+      if (key instanceof PDFNumber && parentKeys.has(key.asNumber())) {
+        nums.remove(i + 1);
+        nums.remove(i);
+      } else if (value instanceof PDFRef && removed.has(value)) {
+        nums.set(i + 1, replacement(value));
+      } else {
+        const elements = context.lookup(value);
+        if (!(elements instanceof PDFArray)) continue;
+        elements.asArray().forEach((element, j) => {
+          if (element instanceof PDFRef && removed.has(element)) elements.set(j, replacement(element));
+        });
+      }
+    }
+  };
+  const parentTree = root.lookupMaybe(PDFName.of('ParentTree'), PDFDict);
+  if (parentTree) pruneParentTree(parentTree);
+  return removed;
+};
+
+/**
+ * Strip a page down to an empty page of the same size and orientation, and
+ * draw the withheld-page label in the middle of its crop box. The page keeps
+ * its object, so links and bookmarks to it now lead to the blank page.
+ */
+const blankPage = async (page: PDFPage): Promise<void> => {
+  for (const key of page.node.keys()) {
+    if (!BLANK_PAGE_ENTRIES.has(key.decodeText())) page.node.delete(key);
+  }
+  page.node.set(PDFName.of('Resources'), page.doc.context.obj({}));
+  const label = REDACTION_SETTINGS.withheldPageLabel;
+  await drawRedactionLabel(page, label, page.getCropBox(), hexToRgb(label.color));
+};
+
+// Fit types of an explicit destination, [page /XYZ left top zoom] and the like
+const DESTINATION_FITS = new Set(['XYZ', 'Fit', 'FitH', 'FitV', 'FitR', 'FitB', 'FitBH', 'FitBV']);
+
+/**
+ * Whether an object leads to one of the given objects: a reference to one,
+ * an explicit destination on one of them, or a go-to action or destination
+ * dictionary whose /D does
+ */
+const targetsRefs = (object: PDFObject, refs: Set<PDFRef>): boolean => {
+  if (object instanceof PDFRef) return refs.has(object);
+  if (object instanceof PDFArray) {
+    const page = object.get(0);
+    const fit = object.get(1);
+    return page instanceof PDFRef && refs.has(page) && fit instanceof PDFName && DESTINATION_FITS.has(fit.decodeText());
+  }
+  if (object instanceof PDFDict) {
+    const destination = object.get(PDFName.of('D'));
+    return (destination instanceof PDFRef || destination instanceof PDFArray) && targetsRefs(destination, refs);
+  }
+  return false;
+};
+
+/**
+ * Remove every reference to the given objects from the document, dropping
+ * dictionary entries and array items that point at them. Destinations and
+ * actions that lead to them are dropped whole, together with their name in a
+ * name tree, rather than left without their page. Bookmarks, named
+ * destinations, form fields and structure elements would otherwise keep a
+ * removed page or annotation, and its content, in the saved file.
+ */
+const dropReferences = (context: PDFContext, refs: Set<PDFRef>): void => {
+  // Indirect destinations and actions that lead to the objects go with them,
+  // and so do actions whose destination is one of those
+  const dropped = new Set(refs);
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      if (!dropped.has(ref) && !(object instanceof PDFRef) && targetsRefs(object, dropped)) {
+        dropped.add(ref);
+        grown = true;
+      }
+    }
+  }
+
+  const visit = (object: PDFObject, key?: string): void => {
+    if (object instanceof PDFDict) {
+      for (const [name, value] of object.entries()) {
+        if (targetsRefs(value, dropped)) {
+          object.delete(name);
+        } else if (!(value instanceof PDFRef)) {
+          visit(value, name.decodeText());
+        }
+      }
+    } else if (object instanceof PDFArray) {
+      // Name trees list each name before its value
+      const namePairs = key === 'Names';
+      for (let i = object.size() - 1; i >= 0; i--) {
+        const item = object.get(i);
+        if (targetsRefs(item, dropped)) {
+          object.remove(i);
+          if (namePairs && i % 2 === 1) object.remove(--i);
+        } else if (!(item instanceof PDFRef)) {
+          visit(item);
+        }
+      }
+    } else if (object instanceof PDFStream) {
+      visit(object.dict);
+    }
+  };
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!dropped.has(ref)) visit(object);
+  }
+};
+
+/**
+ * Number the output pages with their original page numbers (/PageLabels),
+ * so that a viewer shows where the gaps left by removed pages are. Labels
+ * the document had are replaced, since removing pages shifts them.
+ */
+const labelOriginalPageNumbers = (pdfDoc: PDFDocument, originalNumbers: number[]): void => {
+  const nums: (number | PDFDict)[] = [];
+  originalNumbers.forEach((pageNumber, index) => {
+    if (index === 0 || pageNumber !== originalNumbers[index - 1] + 1) {
+      nums.push(index, pdfDoc.context.obj({ S: 'D', St: pageNumber }));
+    }
+  });
+  pdfDoc.catalog.set(PDFName.of('PageLabels'), pdfDoc.context.obj({ Nums: nums }));
+};
+
+/**
+ * Withhold whole pages of a redacted document: pages set to 'redact' are
+ * replaced by a blank page with a "Page withheld" label, pages set to
+ * 'remove' are left out and the remaining pages are labelled with their
+ * original numbers. The annotations and structure elements of withheld
+ * pages and every reference to a removed page are dropped, and the objects
+ * this leaves unreferenced are deleted. Returns the document and the index of the withheld pages.
+ * Throws a `PdfRedactionError` if a withheld page does not exist or every
+ * page would be removed.
+ */
+export const withholdPages = async (
+  pdfBytes: Uint8Array,
+  withheldPages: Partial<Record<number, PageWithholding>> = {}
+): Promise<{ pdfBytes: Uint8Array; index: WithheldPage[] }> => {
+  const entries = listWithheldPages(withheldPages);
+  if (entries.length === 0) return { pdfBytes, index: [] };
+
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const pageCount = pdfDoc.getPageCount();
+  const missing = entries.filter(({ pageNumber }) => pageNumber < 1 || pageNumber > pageCount);
+  if (missing.length > 0) {
+    throw new PdfRedactionError(
+      `Cannot withhold page(s) ${missing.map(entry => entry.pageNumber).join(', ')}: not in the document`,
+      undefined,
+      { failedPages: missing.map(({ pageNumber }) => ({ pageNumber, reason: 'Page does not exist in the document' })) }
+    );
+  }
+  const removed = entries.filter(entry => entry.action === 'remove');
+  if (removed.length === pageCount) {
+    throw new PdfRedactionError('Every page is set to be removed; blank at least one page instead');
+  }
+
+  const pages = pdfDoc.getPages();
+  const droppedRefs = pruneStructureTree(pdfDoc, entries.map(({ pageNumber }) => pages[pageNumber - 1]));
+  for (const { pageNumber, action } of entries) {
+    const page = pages[pageNumber - 1];
+    annotationRefs(page).forEach(ref => droppedRefs.add(ref));
+    if (action === 'remove') {
+      droppedRefs.add(page.ref);
+    } else {
+      await blankPage(page);
+    }
+  }
+  // From the last page back, so that the indices of the others stay valid
+  for (const { pageNumber } of [...removed].reverse()) {
+    pdfDoc.removePage(pageNumber - 1);
+  }
+  dropReferences(pdfDoc.context, droppedRefs);
+
+  if (removed.length > 0) {
+    const removedNumbers = new Set(removed.map(entry => entry.pageNumber));
+    labelOriginalPageNumbers(
+      pdfDoc,
+      pages.map((_, index) => index + 1).filter(pageNumber => !removedNumbers.has(pageNumber))
+    );
+  }
+
+  const removedObjects = removeUnreachableObjects(pdfDoc.context);
+  console.log(
+    `Withheld ${entries.length} page(s), ${removed.length} of them removed; ` +
+    `deleted ${removedObjects} unreferenced objects`
+  );
+  return {
+    pdfBytes: await pdfDoc.save({
+      useObjectStreams: false,
+      addDefaultPage: false,
+      updateFieldAppearances: false
+    }),
+    index: buildWithholdingIndex(withheldPages)
+  };
+};
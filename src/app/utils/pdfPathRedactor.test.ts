@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { ContentOperation, operandNumber, parseContentStream } from './pdfContentStream';
+import {
+  IDENTITY_MATRIX,
+  Point,
+  Rect,
+  boundsOfPoints,
+  pointInPolygon,
+  rectToPolygon,
+  signedPolygonArea,
+  subtractConvexPolygon
+} from './pdfGeometry';
+import { CLIPPING_OPERATORS, ContentPath } from './pdfPathRedactor';
+
+const encode = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const square = rectToPolygon({ x: 0, y: 0, width: 100, height: 100 });
+
+// Redact a path given as content stream source, ending with the operator
+// that paints it and any clipping operator before that
+const redactPath = (source: string, regions: Rect[], lineWidth = 1) => {
+  const operations = parseContentStream(encode(source));
+  const path = new ContentPath(IDENTITY_MATRIX);
+  let clip: ContentOperation | null = null;
+  operations.slice(0, -1).forEach(operation => {
+    if (CLIPPING_OPERATORS.has(operation.operator)) {
+      clip = operation;
+    } else {
+      path.append(operation);
+    }
+  });
+  return path.redact(operations[operations.length - 1], clip, lineWidth, regions.map(rectToPolygon));
+};
+
+// Operations as source text, with coordinates rounded
+const written = (operations: ContentOperation[]): string[] =>
+  operations.map(({ operator, operands }) =>
+    [...operands.map(operand => Math.round(operandNumber(operand) * 1000) / 1000), operator].join(' '));
+
+// Subpaths of the rewritten path construction as polygons
+const polygonsOf = (operations: ContentOperation[]): Point[][] => {
+  const polygons: Point[][] = [];
+  operations.forEach(({ operator, operands }) => {
+    const [x, y, width, height] = operands.map(operandNumber);
+    if (operator === 'm') polygons.push([{ x, y }]);
+    if (operator === 'l') polygons[polygons.length - 1].push({ x, y });
+    if (operator === 're') polygons.push(rectToPolygon({ x, y, width, height }));
+  });
+  return polygons;
+};
+
+const covers = (polygons: Point[][], point: Point): boolean =>
+  polygons.some(polygon => pointInPolygon(point, polygon));
+
+const totalArea = (polygons: Point[][]): number =>
+  polygons.reduce((sum, polygon) => sum + Math.abs(signedPolygonArea(polygon)), 0);
+
+describe('subtractConvexPolygon', () => {
+  it.each([
+    { name: 'a clip covering the subject', clip: { x: -10, y: -10, width: 120, height: 120 }, area: 0 },
+    { name: 'a clip over half of the subject', clip: { x: 50, y: -10, width: 100, height: 120 }, area: 5000 },
+    { name: 'a clip inside the subject', clip: { x: 40, y: 40, width: 20, height: 20 }, area: 9600 },
+    { name: 'a clip away from the subject', clip: { x: 200, y: 200, width: 10, height: 10 }, area: 10000 }
+  ])('leaves the area outside $name', ({ clip, area }) => {
+    const pieces = subtractConvexPolygon(square, rectToPolygon(clip));
+    expect(totalArea(pieces)).toBeCloseTo(area);
+    pieces.forEach(piece => expect(signedPolygonArea(piece)).toBeGreaterThan(0));
+    expect(covers(pieces, { x: clip.x + 5, y: clip.y + 5 })).toBe(false);
+  });
+
+  it('gives no pieces for a subject without area', () => {
+    const line = [{ x: 0, y: 10 }, { x: 50, y: 10 }, { x: 100, y: 10 }];
+    expect(subtractConvexPolygon(line, rectToPolygon({ x: 40, y: 0, width: 20, height: 20 }))).toEqual([]);
+  });
+});
+
+describe('ContentPath.redact', () => {
+  it.each([
+    {
+      name: 'drops a rectangle fully inside a region',
+      source: '10 10 20 20 re f',
+      region: { x: 0, y: 0, width: 100, height: 100 },
+      removed: true,
+      operations: []
+    },
+    {
+      name: 'drops a fill without area',
+      source: '10 10 m 50 10 l 90 10 l h f',
+      region: { x: 0, y: 0, width: 40, height: 40 },
+      removed: true,
+      operations: []
+    },
+    {
+      name: 'cuts a stroke where it crosses a region, widened by half the line width',
+      source: '0 50 m 100 50 l S',
+      region: { x: 40, y: 0, width: 20, height: 100 },
+      removed: false,
+      operations: ['0 50 m', '39 50 l', '61 50 m', '100 50 l', 'S']
+    },
+    {
+      name: 'keeps a clip path inside a region, with no area left',
+      source: '10 10 20 20 re W n',
+      region: { x: 0, y: 0, width: 100, height: 100 },
+      removed: true,
+      operations: ['0 0 0 0 re', 'W', 'n']
+    }
+  ])('$name', ({ source, region, removed, operations }) => {
+    const result = redactPath(source, [region], 2);
+    expect(result?.removed).toBe(removed);
+    expect(written(result?.operations ?? [])).toEqual(operations);
+  });
+
+  it.each([
+    { name: 'the fill of a rectangle', source: '0 0 100 100 re f', operator: 'f' },
+    { name: 'a clip path', source: '0 0 100 100 re W n', operator: 'n' }
+  ])('keeps the part of $name outside a region that overlaps it', ({ source, operator }) => {
+    const result = redactPath(source, [{ x: 50, y: -10, width: 100, height: 120 }]);
+    expect(result?.removed).toBe(false);
+    const operations = result?.operations ?? [];
+    expect(operations[operations.length - 1].operator).toBe(operator);
+    const pieces = polygonsOf(operations);
+    expect(pieces.map(boundsOfPoints)).toEqual([{ x: 0, y: 0, width: 50, height: 100 }]);
+    expect(covers(pieces, { x: 25, y: 50 })).toBe(true);
+    expect(covers(pieces, { x: 75, y: 50 })).toBe(false);
+  });
+
+  it('leaves a path away from every region alone', () => {
+    expect(redactPath('200 200 10 10 re f', [{ x: 0, y: 0, width: 100, height: 100 }])).toBeNull();
+  });
+});
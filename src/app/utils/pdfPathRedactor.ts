@@ -0,0 +1,323 @@
+import { ContentOperation, operandNumber } from './pdfContentStream';
+import {
+  Matrix,
+  Point,
+  Rect,
+  applyMatrix,
+  boundsOfPoints,
+  clipPolygon,
+  clipSegmentToConvex,
+  expandConvexPolygon,
+  flattenCubicBezier,
+  invertMatrix,
+  rectsIntersect,
+  subtractConvexPolygon
+} from './pdfGeometry';
+
+// Operators that build the current path
+export const PATH_CONSTRUCTION_OPERATORS = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're']);
+
+// Operators that paint (or discard) the current path
+export const PATH_PAINTING_OPERATORS = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+
+export const CLIPPING_OPERATORS = new Set(['W', 'W*']);
+
+const FILLING_OPERATORS = new Set(['f', 'F', 'f*', 'B', 'B*', 'b', 'b*']);
+const STROKING_OPERATORS = new Set(['S', 's', 'B', 'B*', 'b', 'b*']);
+const CLOSING_OPERATORS = new Set(['s', 'b', 'b*']);
+const EVEN_ODD_OPERATORS = new Set(['f*', 'B*', 'b*']);
+
+// Stroke width assumed for zero-width ("thinnest possible") lines
+const HAIRLINE_WIDTH = 1;
+
+interface Subpath {
+  /** Original construction operations */
+  operations: ContentOperation[];
+  /** Start point in the user space of the path */
+  start: Point;
+  /** Flattened outline in page space */
+  points: Point[];
+  closed: boolean;
+}
+
+/**
+ * Outcome of redacting a painted path
+ */
+export interface PathRedactionResult {
+  /** Operations replacing the path construction, clipping and painting */
+  operations: ContentOperation[];
+  /** Whether nothing of the path is painted any more */
+  removed: boolean;
+}
+
+const number = (value: number) => ({ type: 'number' as const, value });
+
+const operation = (operator: string, ...values: number[]): ContentOperation => ({
+  operator,
+  operands: values.map(number)
+});
+
+/**
+ * The current path of a content stream, collected between its construction
+ * operators and the operator that paints it. Coordinates are flattened into
+ * page space as the path is built, since the CTM cannot change mid-path.
+ */
+export class ContentPath {
+  /** Every operation received, in order, for re-emitting the path unchanged */
+  readonly operations: ContentOperation[] = [];
+  private readonly subpaths: Subpath[] = [];
+  private active: Subpath | null = null;
+  private current: Point = { x: 0, y: 0 };
+
+  constructor(private readonly ctm: Matrix) {}
+
+  get isEmpty(): boolean {
+    return this.operations.length === 0;
+  }
+
+  append(op: ContentOperation): void {
+    this.operations.push(op);
+    const n = op.operands.map(operandNumber);
+    const toPage = (x: number, y: number) => applyMatrix(this.ctm, { x, y });
+
+    switch (op.operator) {
+      case 'm':
+        this.active = { operations: [op], start: { x: n[0], y: n[1] }, points: [toPage(n[0], n[1])], closed: false };
+        this.subpaths.push(this.active);
+        this.current = { x: n[0], y: n[1] };
+        break;
+      case 'l':
+        this.ensureSubpath(op).points.push(toPage(n[0], n[1]));
+        this.current = { x: n[0], y: n[1] };
+        break;
+      case 'c':
+      case 'v':
+      case 'y': {
+        const subpath = this.ensureSubpath(op);
+        const [c1, c2, end] =
+          op.operator === 'c' ? [[n[0], n[1]], [n[2], n[3]], [n[4], n[5]]] :
+          op.operator === 'v' ? [[this.current.x, this.current.y], [n[0], n[1]], [n[2], n[3]]] :
+          [[n[0], n[1]], [n[2], n[3]], [n[2], n[3]]];
+        subpath.points.push(...flattenCubicBezier(
+          toPage(this.current.x, this.current.y),
+          toPage(c1[0], c1[1]),
+          toPage(c2[0], c2[1]),
+          toPage(end[0], end[1])
+        ));
+        this.current = { x: end[0], y: end[1] };
+        break;
+      }
+      case 'h':
+        if (this.active) {
+          this.active.operations.push(op);
+          this.active.closed = true;
+          this.current = this.active.start;
+          this.active = null;
+        }
+        break;
+      case 're': {
+        const [x, y, width, height] = n;
+        this.subpaths.push({
+          operations: [op],
+          start: { x, y },
+          points: [
+            toPage(x, y),
+            toPage(x + width, y),
+            toPage(x + width, y + height),
+            toPage(x, y + height)
+          ],
+          closed: true
+        });
+        this.active = null;
+        this.current = { x, y };
+        break;
+      }
+    }
+  }
+
+  /** The subpath being built, starting a new one at the current point if needed */
+  private ensureSubpath(op: ContentOperation): Subpath {
+    if (!this.active) {
+      const start = this.current;
+      this.active = { operations: [], start, points: [applyMatrix(this.ctm, start)], closed: false };
+      this.subpaths.push(this.active);
+    }
+    this.active.operations.push(op);
+    return this.active;
+  }
+
+  /**
+   * Remove the parts of this path that fall inside the regions when it is
+   * painted with `paint`, optionally also being used as a clipping path.
+   * Returns null when the path does not touch any region.
+   */
+  redact(
+    paint: ContentOperation,
+    clip: ContentOperation | null,
+    lineWidth: number,
+    regions: Point[][]
+  ): PathRedactionResult | null {
+    const inverse = invertMatrix(this.ctm);
+    if (!inverse || regions.length === 0 || this.subpaths.length === 0) return null;
+
+    const fills = FILLING_OPERATORS.has(paint.operator) || clip !== null;
+    const strokes = STROKING_OPERATORS.has(paint.operator);
+    const scale = Math.sqrt(Math.abs(this.ctm[0] * this.ctm[3] - this.ctm[1] * this.ctm[2]));
+    const halfWidth = strokes ? Math.max(lineWidth * scale, HAIRLINE_WIDTH) / 2 : 0;
+    const strokeRegions = regions.map(region => expandConvexPolygon(region, halfWidth));
+    const regionBounds = strokeRegions.map(boundsOfPoints);
+
+    if (CLOSING_OPERATORS.has(paint.operator)) {
+      this.subpaths[this.subpaths.length - 1].closed = true;
+    }
+
+    const fillGeometry: ContentOperation[] = [];
+    const strokeGeometry: ContentOperation[] = [];
+    let changed = false;
+
+    for (const subpath of this.subpaths) {
+      const bounds = expandRect(boundsOfPoints(subpath.points), halfWidth);
+      const touched = regionBounds.some(region => rectsIntersect(bounds, region));
+      const fillPieces = touched && fills ? subtractRegions(subpath.points, regions) : null;
+      const strokePieces = touched && strokes ? strokeOutside(subpath, strokeRegions) : null;
+      changed = changed || fillPieces !== null || strokePieces !== null;
+
+      const original = originalOperations(subpath);
+      if (fillPieces) {
+        for (const piece of fillPieces) {
+          fillGeometry.push(...polylineOperations(piece, inverse), operation('h'));
+        }
+      } else {
+        fillGeometry.push(...original);
+      }
+      if (strokePieces) {
+        for (const piece of strokePieces) {
+          strokeGeometry.push(...polylineOperations(piece, inverse));
+        }
+      } else {
+        strokeGeometry.push(...original);
+        if (subpath.closed && !subpath.operations.some(op => op.operator === 'h' || op.operator === 're')) {
+          strokeGeometry.push(operation('h'));
+        }
+      }
+    }
+
+    if (!changed) return null;
+
+    const operations: ContentOperation[] = [];
+    if (FILLING_OPERATORS.has(paint.operator) && fillGeometry.length > 0) {
+      operations.push(...fillGeometry, operation(EVEN_ODD_OPERATORS.has(paint.operator) ? 'f*' : 'f'));
+    }
+    if (strokes && strokeGeometry.length > 0) {
+      operations.push(...strokeGeometry, operation('S'));
+    }
+    if (clip) {
+      // A clip that lost all its area must still hide what is drawn after it
+      operations.push(
+        ...(fillGeometry.length > 0 ? fillGeometry : [operation('re', 0, 0, 0, 0)]),
+        clip,
+        operation('n')
+      );
+    }
+
+    return {
+      operations,
+      removed: (!fills || fillGeometry.length === 0) && (!strokes || strokeGeometry.length === 0)
+    };
+  }
+}
+
+const expandRect = (rect: Rect, distance: number): Rect => ({
+  x: rect.x - distance,
+  y: rect.y - distance,
+  width: rect.width + distance * 2,
+  height: rect.height + distance * 2
+});
+
+/** The subpath's construction operations, made to start with a moveto */
+const originalOperations = (subpath: Subpath): ContentOperation[] => {
+  const first = subpath.operations[0]?.operator;
+  return first === 'm' || first === 're'
+    ? subpath.operations
+    : [operation('m', subpath.start.x, subpath.start.y), ...subpath.operations];
+};
+
+/**
+ * Fill area of a subpath outside every region, or null when the subpath does
+ * not overlap any of them
+ */
+const subtractRegions = (points: Point[], regions: Point[][]): Point[][] | null => {
+  if (points.length < 3) return null;
+  let pieces = [points];
+  let changed = false;
+  for (const region of regions) {
+    if (!pieces.some(piece => clipPolygon(piece, region).length >= 3)) continue;
+    changed = true;
+    pieces = pieces.flatMap(piece => subtractConvexPolygon(piece, region));
+  }
+  return changed ? pieces : null;
+};
+
+/**
+ * Polylines of a subpath's stroke that stay outside every region, or null
+ * when no segment enters any of them
+ */
+const strokeOutside = (subpath: Subpath, regions: Point[][]): Point[][] | null => {
+  const points = subpath.closed ? [...subpath.points, subpath.points[0]] : subpath.points;
+  const polylines: Point[][] = [];
+  let currentLine: Point[] | null = null;
+  let changed = false;
+
+  for (let i = 0; i + 1 < points.length; i++) {
+    const p = points[i];
+    const q = points[i + 1];
+    const inside = mergeIntervals(
+      regions
+        .map(region => clipSegmentToConvex(p, q, region))
+        .filter((interval): interval is [number, number] => interval !== null)
+    );
+    if (inside.length > 0) changed = true;
+
+    let t = 0;
+    for (const [start, end] of [...inside, [1, 1] as [number, number]]) {
+      if (start > t) {
+        const from = lerp(p, q, t);
+        if (!currentLine || t > 0) {
+          currentLine = [from];
+          polylines.push(currentLine);
+        }
+        currentLine.push(lerp(p, q, start));
+      }
+      if (start < 1) currentLine = null;
+      t = Math.max(t, end);
+    }
+  }
+
+  return changed ? polylines.filter(line => line.length >= 2) : null;
+};
+
+const mergeIntervals = (intervals: [number, number][]): [number, number][] => {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+  return merged;
+};
+
+const lerp = (p: Point, q: Point, t: number): Point => ({
+  x: p.x + (q.x - p.x) * t,
+  y: p.y + (q.y - p.y) * t
+});
+
+/** Page-space points as moveto/lineto operations in the path's user space */
+const polylineOperations = (points: Point[], inverse: Matrix): ContentOperation[] =>
+  points.map((point, i) => {
+    const user = applyMatrix(inverse, point);
+    return operation(i === 0 ? 'm' : 'l', user.x, user.y);
+  });
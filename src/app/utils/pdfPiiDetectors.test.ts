@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PiiCategory } from '../types/pdf';
+import { PageText } from './pdfTextIndex';
+import { detectPii, passesIbanCheck, passesLuhn } from './pdfPiiDetectors';
+
+const pageOf = (text: string): PageText => ({ pageNumber: 1, text, runs: [], runOffsets: [] });
+
+// Text of the hits of one detector
+const hits = (text: string, category: PiiCategory): string[] =>
+  detectPii([pageOf(text)], [category]).map(match => match.text);
+
+describe('passesLuhn', () => {
+  it('accepts valid card numbers, grouped or not', () => {
+    expect(passesLuhn('4111 1111 1111 1111')).toBe(true);
+    expect(passesLuhn('5500-0000-0000-0004')).toBe(true);
+    expect(passesLuhn('378282246310005')).toBe(true);
+  });
+
+  it('rejects a wrong check digit and lengths no card has', () => {
+    expect(passesLuhn('4111 1111 1111 1112')).toBe(false);
+    expect(passesLuhn('000000000000')).toBe(false);
+    expect(passesLuhn('00000000000000000000')).toBe(false);
+  });
+});
+
+describe('passesIbanCheck', () => {
+  it('accepts valid IBANs, grouped or not', () => {
+    expect(passesIbanCheck('GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(passesIbanCheck('DE89370400440532013000')).toBe(true);
+  });
+
+  it('rejects a wrong check and lengths no IBAN has', () => {
+    expect(passesIbanCheck('GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(passesIbanCheck('GB82 WEST 1234')).toBe(false);
+  });
+});
+
+describe('detectPii', () => {
+  it('finds US social security numbers that can be issued', () => {
+    expect(hits('SSN 123-45-6789, alt 123 45 6789', 'ssn')).toEqual(['123-45-6789', '123 45 6789']);
+    expect(hits('000-12-3456 666-12-3456 900-12-3456 123-00-4567 123-45-0000', 'ssn')).toEqual([]);
+    expect(hits('123-45 6789 and 1123-45-6789', 'ssn')).toEqual([]);
+  });
+
+  it('finds UK National Insurance numbers with valid prefixes and suffixes', () => {
+    expect(hits('NI: AB 12 34 56 C, or AB123456C', 'uk-ni-number')).toEqual(['AB 12 34 56 C', 'AB123456C']);
+    expect(hits('QQ123456C GB123456A AO123456A AB123456E XAB123456C', 'uk-ni-number')).toEqual([]);
+  });
+
+  it('keeps only card numbers that pass the Luhn check', () => {
+    expect(hits('Card 4111 1111 1111 1111, not 4111 1111 1111 1112', 'payment-card'))
+      .toEqual(['4111 1111 1111 1111']);
+  });
+
+  it('reports overlapping hits once, for the stricter detector', () => {
+    const matches = detectPii([pageOf('Pay to GB82 WEST 1234 5698 7654 32 today')], ['iban', 'payment-card', 'phone']);
+    expect(matches.map(match => match.category)).toEqual(['iban']);
+  });
+});
@@ -0,0 +1,148 @@
+import { PiiCategory, PiiMatch, RedactionArea } from '../types/pdf';
+import { PageText } from './pdfTextIndex';
+import { findPatternMatches, matchAreas } from './pdfTextSearch';
+
+/**
+ * A pattern for one kind of personal data
+ */
+interface PiiDetector {
+  pattern: RegExp;
+  /** Check a hit beyond its shape, such as a checksum */
+  isValid?: (value: string) => boolean;
+}
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+/**
+ * Luhn check of a payment card number
+ */
+export const passesLuhn = (value: string): boolean => {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * ISO 13616 check of an IBAN: with the country code and check digits moved to
+ * the end and letters read as 10 to 35, the number leaves 1 when divided by 97
+ */
+export const passesIbanCheck = (value: string): boolean => {
+  const iban = value.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+// Month names, full or abbreviated
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const MONTH_NUMBERS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12
+};
+
+/**
+ * Whether a date written with digits, in either day-month or month-day order,
+ * or with a month name, can be a real date
+ */
+const isPlausibleDate = (value: string): boolean => {
+  const numbers = (value.match(/\d+/g) ?? []).map(Number);
+  const monthName = value.toLowerCase().match(/[a-z]{3}/);
+  const monthOfName = monthName ? MONTH_NUMBERS[monthName[0]] : undefined;
+  const isDay = (day: number) => day >= 1 && day <= 31;
+  const isMonth = (month: number) => month >= 1 && month <= 12;
+  if (monthOfName) return numbers.length === 2 && isDay(numbers[0]);
+  if (numbers.length !== 3) return false;
+  const [first, second, third] = numbers;
+  // Year first, as in 1980-04-23
+  if (first > 31) return isMonth(second) && isDay(third);
+  return (isDay(first) && isMonth(second)) || (isMonth(first) && isDay(second));
+};
+
+// Dates written with digits or with a month name
+const DATE = [
+  '\\d{4}-\\d{1,2}-\\d{1,2}',
+  '\\d{1,2}[./-]\\d{1,2}[./-](?:\\d{4}|\\d{2})',
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4}`,
+  `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`
+].join('|');
+
+// Labels a date of birth follows, such as "DOB:" or "born on"
+const BIRTH_LABEL = '\\b(?:date\\s+of\\s+birth|birth\\s*date|d\\.?o\\.?b\\.?|born(?:\\s+on)?)[\\s:.-]*';
+
+/**
+ * The detectors in the order their hits take precedence, when hits of
+ * different kinds overlap: the stricter checks first
+ */
+const DETECTORS: Record<PiiCategory, PiiDetector> = {
+  'iban': {
+    pattern: /(?<![A-Za-z0-9])[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?(?![A-Za-z0-9])/g,
+    isValid: passesIbanCheck
+  },
+  'payment-card': {
+    // Groups of four, the 4-6-5 grouping of 15 digit cards, or no grouping
+    pattern: /(?<![\d-])(?:\d{4}([ -]?)\d{4}\1\d{4}\1\d{4}(?:\1\d{3})?|\d{4}([ -]?)\d{6}\2\d{5}|\d{13,19})(?![\d-])/g,
+    isValid: passesLuhn
+  },
+  'ssn': {
+    // Area, group and serial numbers of all zeros, and areas 666 and 900 up, are never issued
+    pattern: /(?<![\d-])(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}(?![\d-])/g
+  },
+  'uk-ni-number': {
+    pattern: /(?<![A-Za-z0-9])(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D](?![A-Za-z0-9])/g
+  },
+  'email': {
+    pattern: /(?<![\w.%+-])[\w.%+-]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)*\.[A-Za-z]{2,}(?![\w-])/g
+  },
+  'date-of-birth': {
+    pattern: new RegExp(`(?<=${BIRTH_LABEL})(?:${DATE})(?!\\d)`, 'gi'),
+    isValid: isPlausibleDate
+  },
+  'phone': {
+    // A country code after + or 00, or an area code in brackets
+    pattern: /(?<![\w+)])(?:(?:\+|00)[1-9]\d{0,3}(?:[ .-]?\(\d{1,4}\))?(?:[ .-]?\d{2,4}){2,5}|\(\d{2,5}\)[ .-]?\d{3,4}[ .-]?\d{3,4})(?!\d)/g,
+    // The longest numbers have 15 digits, plus a trunk prefix such as (0)
+    isValid: value => digitsOf(value).length >= 7 && digitsOf(value).length <= 16
+  }
+};
+
+/**
+ * Hits of the enabled detectors in the text of the pages, in page and text
+ * order. Where hits of different kinds overlap, only the one of the stricter
+ * detector is kept, so that a card number is not also reported as a phone
+ * number.
+ */
+export const detectPii = (pages: PageText[], categories: PiiCategory[]): PiiMatch[] => {
+  const kept: PiiMatch[] = [];
+  (Object.keys(DETECTORS) as PiiCategory[])
+    .filter(category => categories.includes(category))
+    .forEach(category => {
+      const { pattern, isValid } = DETECTORS[category];
+      for (const match of findPatternMatches(pages, pattern)) {
+        if (isValid && !isValid(match.text)) continue;
+        const overlaps = kept.some(other =>
+          other.pageNumber === match.pageNumber && other.start < match.end && match.start < other.end
+        );
+        if (!overlaps) kept.push({ ...match, category });
+      }
+    });
+  return kept.sort((a, b) => a.pageNumber - b.pageNumber || a.start - b.start);
+};
+
+/**
+ * Redaction areas covering the glyphs of a detector hit, marked with its
+ * category and the text matched
+ */
+export const piiMatchAreas = (pages: PageText[], match: PiiMatch): RedactionArea[] =>
+  matchAreas(pages, match, 'detector').map(area => ({ ...area, category: match.category, term: match.text }));
@@ -0,0 +1,192 @@
+import {
+  PDFContext,
+  PDFPage,
+  PDFRef,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState
+} from 'pdf-lib';
+import { RasterColorMode, RasterOptions } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import { PdfRedactionError } from './errors';
+import { Matrix } from './pdfGeometry';
+
+// pdf.js renders one pixel per point at scale 1
+const POINTS_PER_INCH = 72;
+
+// Luminance below which a pixel becomes black in 1-bit images
+const BILEVEL_THRESHOLD = 128;
+
+// Typical compressed size per pixel of a rendered document page. Pages are
+// mostly white, so they compress far better than photographs.
+const ESTIMATED_BYTES_PER_PIXEL: Record<RasterColorMode, number> = {
+  color: 0.35,
+  grayscale: 0.15,
+  bilevel: 0.02
+};
+
+// JPEG size grows steeply towards the top of the quality range
+const estimatedJpegBytesPerPixel = (quality: number): number => 0.03 + 0.2 * quality ** 3;
+
+/**
+ * Raster options with the defaults filled in, the resolution clamped to the
+ * accepted range, and the bilevel colour mode and encoding kept together
+ */
+export const resolveRasterOptions = (overrides: Partial<RasterOptions> = {}): RasterOptions => {
+  const options: RasterOptions = { ...REDACTION_SETTINGS.defaultRasterOptions, ...overrides };
+  const dpi = Number.isFinite(options.dpi) ? options.dpi : REDACTION_SETTINGS.defaultRasterOptions.dpi;
+  const bilevel = options.colorMode === 'bilevel' || options.encoding === 'bilevel';
+  return {
+    dpi: Math.min(Math.max(dpi, REDACTION_SETTINGS.minRasterDpi), REDACTION_SETTINGS.maxRasterDpi),
+    colorMode: bilevel ? 'bilevel' : options.colorMode,
+    encoding: bilevel ? 'bilevel' : options.encoding,
+    jpegQuality: Math.min(Math.max(options.jpegQuality, 0), 1)
+  };
+};
+
+/**
+ * pdf.js viewport scale that renders at the resolution of the options
+ */
+export const rasterScale = (options: RasterOptions): number => options.dpi / POINTS_PER_INCH;
+
+const luminance = (data: Uint8ClampedArray, offset: number): number =>
+  (data[offset] * 299 + data[offset + 1] * 587 + data[offset + 2] * 114) / 1000;
+
+/**
+ * Uncompressed image samples of the canvas in the colour mode. 1-bit rows
+ * are padded to whole bytes, with 1 for white as in DeviceGray.
+ */
+const canvasSamples = (canvas: HTMLCanvasElement, colorMode: RasterColorMode): Uint8Array => {
+  const { width, height } = canvas;
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+  const pixelCount = width * height;
+
+  if (colorMode === 'color') {
+    const samples = new Uint8Array(pixelCount * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      samples[i * 3] = data[i * 4];
+      samples[i * 3 + 1] = data[i * 4 + 1];
+      samples[i * 3 + 2] = data[i * 4 + 2];
+    }
+    return samples;
+  }
+
+  if (colorMode === 'grayscale') {
+    const samples = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      samples[i] = Math.round(luminance(data, i * 4));
+    }
+    return samples;
+  }
+
+  const rowBytes = Math.ceil(width / 8);
+  const samples = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance(data, (y * width + x) * 4) >= BILEVEL_THRESHOLD) {
+        samples[y * rowBytes + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return samples;
+};
+
+/**
+ * Replace the canvas pixels with their grey values, for JPEG encoding
+ */
+const convertCanvasToGrayscale = (canvas: HTMLCanvasElement): void => {
+  const ctx = canvas.getContext('2d')!;
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = pixels;
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const grey = luminance(data, offset);
+    data[offset] = grey;
+    data[offset + 1] = grey;
+    data[offset + 2] = grey;
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new PdfRedactionError('Could not encode page image as JPEG'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', quality);
+  });
+
+/**
+ * Encode the canvas as an image XObject of the document, in the colour mode
+ * and encoding of the options. The canvas may be modified.
+ */
+export const embedCanvasImage = async (
+  context: PDFContext,
+  canvas: HTMLCanvasElement,
+  options: RasterOptions
+): Promise<PDFRef> => {
+  const { width, height } = canvas;
+
+  if (options.encoding === 'jpeg') {
+    if (options.colorMode === 'grayscale') convertCanvasToGrayscale(canvas);
+    const jpegBytes = await canvasToJpeg(canvas, options.jpegQuality);
+    return context.register(context.stream(jpegBytes, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: width,
+      Height: height,
+      ColorSpace: 'DeviceRGB',
+      BitsPerComponent: 8,
+      Filter: 'DCTDecode'
+    }));
+  }
+
+  return context.register(context.flateStream(canvasSamples(canvas, options.colorMode), {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: width,
+    Height: height,
+    ColorSpace: options.colorMode === 'color' ? 'DeviceRGB' : 'DeviceGray',
+    BitsPerComponent: options.colorMode === 'bilevel' ? 1 : 8
+  }));
+};
+
+/**
+ * Draw an image XObject on the page. `matrix` maps the unit square of the
+ * image onto the page; by default the image covers the whole page.
+ */
+export const drawRasterImage = (
+  page: PDFPage,
+  imageRef: PDFRef,
+  matrix: Matrix = [page.getWidth(), 0, 0, page.getHeight(), 0, 0]
+): void => {
+  const name = page.node.newXObject('PageImage', imageRef);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(...matrix),
+    drawObject(name),
+    popGraphicsState()
+  );
+};
+
+/**
+ * Estimated number of bytes the images take for pages or regions of the
+ * given sizes (in points). This is a rough guide: the real size depends on how
+ * much of each page is blank.
+ */
+export const estimateRasterBytes = (
+  sizes: { width: number; height: number }[],
+  options: RasterOptions
+): number => {
+  const scale = rasterScale(options);
+  const bytesPerPixel = options.encoding === 'jpeg'
+    ? estimatedJpegBytesPerPixel(options.jpegQuality) * (options.colorMode === 'grayscale' ? 0.8 : 1)
+    : ESTIMATED_BYTES_PER_PIXEL[options.colorMode];
+  return sizes.reduce(
+    (total, { width, height }) => total + Math.ceil(width * scale) * Math.ceil(height * scale) * bytesPerPixel,
+    0
+  );
+};
@@ -0,0 +1,133 @@
+import {
+  Color,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFString,
+  colorToComponents,
+  rectangle,
+  setLineWidth,
+  setStrokingRgbColor,
+  stroke
+} from 'pdf-lib';
+import { RedactionArea, RedactionLabel, RedactionLabelFont } from '../types/pdf';
+import { hexToRgb } from './pdfColor';
+import { Point, Rect } from './pdfGeometry';
+
+// Annotation flag asking viewers to print the annotation
+const FLAG_PRINT = 1 << 2;
+
+// Outline of proposed redactions, before they are applied
+const MARKUP_OUTLINE: [number, number, number] = [1, 0, 0];
+
+// Font resource names viewers provide for the standard fonts in default appearances
+const DEFAULT_APPEARANCE_FONTS: Record<RedactionLabelFont, string> = {
+  'helvetica': 'Helv',
+  'helvetica-bold': 'HeBo',
+  'times': 'TiRo',
+  'courier': 'Cour'
+};
+
+// Centred overlay text (/Q)
+const QUADDING_CENTRED = 1;
+
+/**
+ * Default appearance string of the overlay text; size 0 lets the viewer fit it
+ */
+const defaultAppearance = (label: RedactionLabel): string => {
+  const [r, g, b] = colorToComponents(hexToRgb(label.color));
+  const size = label.autoFit ? 0 : label.fontSize;
+  return `/${DEFAULT_APPEARANCE_FONTS[label.font]} ${size} Tf ${r} ${g} ${b} rg`;
+};
+
+/**
+ * A redaction box drawn on a page, with its rectangle in PDF space and, for
+ * areas that are not rectangles, its outline
+ */
+export interface RedactionBox {
+  area: RedactionArea;
+  rect: Rect;
+  outline?: Point[];
+}
+
+/**
+ * Add a Square annotation over each box, or a Polygon annotation following
+ * its outline, recording in the document which areas were redacted and with
+ * which label. The redaction itself is already applied, so the annotation is
+ * a note for reviewers, not a /Redact annotation that a viewer would offer to
+ * apply again.
+ */
+export const addRedactionAnnotations = (page: PDFPage, boxes: RedactionBox[], color: Color): void => {
+  const { context } = page.doc;
+  const modified = PDFString.fromDate(new Date());
+  boxes.forEach(({ area, rect, outline }, index) => {
+    const annotation = context.obj({
+      Type: 'Annot',
+      Subtype: outline ? 'Polygon' : 'Square',
+      Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+      C: colorToComponents(color),
+      BS: { W: 1 },
+      F: FLAG_PRINT,
+      M: modified,
+      NM: PDFHexString.fromText(`redaction-${area.pageNumber}-${index + 1}`),
+      T: PDFHexString.fromText('Redaction'),
+      Contents: PDFHexString.fromText(area.label?.text.trim() ? `Redacted: ${area.label.text.trim()}` : 'Redacted')
+    });
+    if (outline) {
+      annotation.set(PDFName.of('Vertices'), context.obj(outline.flatMap(point => [point.x, point.y])));
+    }
+    page.node.addAnnot(context.register(annotation));
+  });
+};
+
+/**
+ * Add a /Redact annotation for each box, proposing the redaction without
+ * applying it. The annotation carries the bounding box of the area as
+ * QuadPoints, since they cannot describe other shapes, the colour the
+ * area is filled with once applied (/IC), and the label as overlay text, so
+ * that Acrobat or this tool can apply it later. Its own appearance is only a
+ * red outline.
+ */
+export const addRedactAnnotations = (page: PDFPage, boxes: RedactionBox[], interiorColor: Color): void => {
+  const { context } = page.doc;
+  const modified = PDFString.fromDate(new Date());
+  boxes.forEach(({ area, rect }, index) => {
+    const left = rect.x;
+    const bottom = rect.y;
+    const right = rect.x + rect.width;
+    const top = rect.y + rect.height;
+
+    const appearance = context.formXObject(
+      [
+        setStrokingRgbColor(...MARKUP_OUTLINE),
+        setLineWidth(1),
+        rectangle(0.5, 0.5, rect.width - 1, rect.height - 1),
+        stroke()
+      ],
+      { BBox: [0, 0, rect.width, rect.height] }
+    );
+    const overlayText = area.label?.text.trim();
+    const annotation = context.obj({
+      Type: 'Annot',
+      Subtype: 'Redact',
+      Rect: [left, bottom, right, top],
+      // Upper left, upper right, lower left, lower right
+      QuadPoints: [left, top, right, top, left, bottom, right, bottom],
+      C: MARKUP_OUTLINE,
+      IC: colorToComponents(interiorColor),
+      F: FLAG_PRINT,
+      M: modified,
+      NM: PDFHexString.fromText(`redact-${area.pageNumber}-${index + 1}`),
+      T: PDFHexString.fromText('Redaction'),
+      Contents: PDFHexString.fromText(overlayText ? `Proposed redaction: ${overlayText}` : 'Proposed redaction'),
+      AP: { N: context.register(appearance) }
+    });
+    if (overlayText && area.label) {
+      annotation.set(PDFName.of('OverlayText'), PDFHexString.fromText(overlayText));
+      annotation.set(PDFName.of('DA'), PDFString.of(defaultAppearance(area.label)));
+      annotation.set(PDFName.of('Q'), PDFNumber.of(QUADDING_CENTRED));
+    }
+    page.node.addAnnot(context.register(annotation));
+  });
+};
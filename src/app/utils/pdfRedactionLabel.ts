@@ -0,0 +1,157 @@
+import {
+  Color,
+  PDFDocument,
+  PDFFont,
+  PDFPage,
+  StandardFonts,
+  clip,
+  degrees,
+  endPath,
+  popGraphicsState,
+  pushGraphicsState,
+  rectangle
+} from 'pdf-lib';
+import { RedactionLabel, RedactionLabelFont } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import { Rect } from './pdfGeometry';
+
+// Distance from the vertical centre of a line of capitals to its baseline, per point of size
+const CENTRE_TO_BASELINE = 0.35;
+
+const STANDARD_FONTS: Record<RedactionLabelFont, StandardFonts> = {
+  'helvetica': StandardFonts.Helvetica,
+  'helvetica-bold': StandardFonts.HelveticaBold,
+  'times': StandardFonts.TimesRoman,
+  'courier': StandardFonts.Courier
+};
+
+// Canvas equivalents of the standard fonts, with the metric-compatible system fonts first
+const CANVAS_FONTS: Record<RedactionLabelFont, { weight: string; family: string }> = {
+  'helvetica': { weight: 'normal', family: 'Arial, Helvetica, sans-serif' },
+  'helvetica-bold': { weight: 'bold', family: 'Arial, Helvetica, sans-serif' },
+  'times': { weight: 'normal', family: '"Times New Roman", Times, serif' },
+  'courier': { weight: 'normal', family: '"Courier New", Courier, monospace' }
+};
+
+// Size at which canvas text is measured; small sizes are rounded too coarsely
+const MEASURE_SIZE = 100;
+
+const canvasFont = (font: RedactionLabelFont, size: number): string =>
+  `${CANVAS_FONTS[font].weight} ${size}px ${CANVAS_FONTS[font].family}`;
+
+const embeddedFonts = new WeakMap<PDFDocument, Map<RedactionLabelFont, PDFFont>>();
+
+const embedLabelFont = async (pdfDoc: PDFDocument, font: RedactionLabelFont): Promise<PDFFont> => {
+  let fonts = embeddedFonts.get(pdfDoc);
+  if (!fonts) {
+    fonts = new Map();
+    embeddedFonts.set(pdfDoc, fonts);
+  }
+  let embedded = fonts.get(font);
+  if (!embedded) {
+    embedded = await pdfDoc.embedFont(STANDARD_FONTS[font]);
+    fonts.set(font, embedded);
+  }
+  return embedded;
+};
+
+/**
+ * Font size for a label in a box, given the width of its text at size 1.
+ * A fitted label shrinks to fit inside the padded box, and is left out
+ * (null) when that makes it smaller than `minLabelFontSize`; other labels
+ * keep their size and are clipped to the box.
+ */
+export const fitLabelFontSize = (
+  label: RedactionLabel,
+  unitTextWidth: number,
+  box: { width: number; height: number }
+): number | null => {
+  if (!label.text.trim() || label.fontSize <= 0) return null;
+  if (!label.autoFit) return label.fontSize;
+
+  const padding = REDACTION_SETTINGS.labelPadding * 2;
+  const size = Math.min(
+    label.fontSize,
+    (box.width - padding) / Math.max(unitTextWidth, Number.EPSILON),
+    box.height - padding
+  );
+  return size >= REDACTION_SETTINGS.minLabelFontSize ? size : null;
+};
+
+/**
+ * Draw the label of a redaction box centred in the box, a rectangle in PDF
+ * space (bottom-left origin). The text is turned with the /Rotate of the page
+ * so that it reads upright when displayed. Characters the font cannot encode
+ * become '?'.
+ */
+export const drawRedactionLabel = async (
+  page: PDFPage,
+  label: RedactionLabel,
+  rect: Rect,
+  color: Color
+): Promise<void> => {
+  const font = await embedLabelFont(page.doc, label.font);
+  const supported = new Set(font.getCharacterSet());
+  const text = [...label.text.trim()]
+    .map(char => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  // The box as the reader sees it, on its side for quarter turns
+  const box = rotation % 180 === 0 ? rect : { width: rect.height, height: rect.width };
+  const size = fitLabelFontSize(label, font.widthOfTextAtSize(text, 1), box);
+  if (size === null) return;
+
+  // Text past the edges of the box would cover content the box leaves visible
+  page.pushOperators(
+    pushGraphicsState(),
+    rectangle(rect.x, rect.y, rect.width, rect.height),
+    clip(),
+    endPath()
+  );
+  // Start of the baseline relative to the centre of the box, turned with the page
+  const dx = -font.widthOfTextAtSize(text, size) / 2;
+  const dy = -size * CENTRE_TO_BASELINE;
+  const cos = Math.cos((rotation * Math.PI) / 180);
+  const sin = Math.sin((rotation * Math.PI) / 180);
+  page.drawText(text, {
+    x: rect.x + rect.width / 2 + dx * cos - dy * sin,
+    y: rect.y + rect.height / 2 + dx * sin + dy * cos,
+    size,
+    font,
+    color,
+    rotate: degrees(rotation)
+  });
+  page.pushOperators(popGraphicsState());
+};
+
+/**
+ * Draw the label of a redaction box on a canvas, for rasterised pages and
+ * for the editing preview. `rect` is in points from the canvas origin (top-left)
+ * and `scale` is the canvas pixels per point.
+ */
+export const drawCanvasRedactionLabel = (
+  ctx: CanvasRenderingContext2D,
+  label: RedactionLabel,
+  rect: Rect,
+  scale: number
+): void => {
+  const text = label.text.trim();
+  ctx.font = canvasFont(label.font, MEASURE_SIZE);
+  const size = fitLabelFontSize(label, ctx.measureText(text).width / MEASURE_SIZE, rect);
+  if (size === null) return;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale);
+  ctx.clip();
+  ctx.font = canvasFont(label.font, size * scale);
+  ctx.fillStyle = label.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(
+    text,
+    (rect.x + rect.width / 2) * scale,
+    (rect.y + rect.height / 2 + size * CENTRE_TO_BASELINE) * scale
+  );
+  ctx.restore();
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { RedactionArea } from '../types/pdf';
+import { Point, boundsOfPoints, isConvexPolygon, pointInPolygon, signedPolygonArea } from './pdfGeometry';
+import { areaRegions } from './pdfRedactionShape';
+
+const polygonArea = (points: Point[]): RedactionArea => ({
+  pageNumber: 1,
+  ...boundsOfPoints(points),
+  shape: 'polygon',
+  points
+});
+
+const covers = (regions: Point[][], point: Point): boolean =>
+  regions.some(region => pointInPolygon(point, region));
+
+describe('areaRegions', () => {
+  it('gives a rectangle as one counter-clockwise region', () => {
+    const regions = areaRegions({ pageNumber: 1, x: 10, y: 20, width: 30, height: 40 });
+    expect(regions).toHaveLength(1);
+    expect(boundsOfPoints(regions[0])).toEqual({ x: 10, y: 20, width: 30, height: 40 });
+    expect(signedPolygonArea(regions[0])).toBeGreaterThan(0);
+  });
+
+  it('covers the whole of an ellipse', () => {
+    const area: RedactionArea = { pageNumber: 1, x: 0, y: 0, width: 100, height: 50, shape: 'ellipse' };
+    const regions = areaRegions(area);
+    expect(regions).toHaveLength(1);
+    for (let i = 0; i < 360; i++) {
+      const angle = (i * Math.PI) / 180;
+      // Just inside the ellipse, so that points on the outline do not depend on rounding
+      const point = { x: 50 + 49.99 * Math.cos(angle), y: 25 + 24.99 * Math.sin(angle) };
+      expect(covers(regions, point)).toBe(true);
+    }
+  });
+
+  it('splits a concave outline into convex pieces that keep out of the notch', () => {
+    // An L shape, clockwise
+    const regions = areaRegions(polygonArea([
+      { x: 0, y: 0 }, { x: 0, y: 100 }, { x: 20, y: 100 }, { x: 20, y: 20 }, { x: 100, y: 20 }, { x: 100, y: 0 }
+    ]));
+    expect(regions.length).toBeGreaterThan(1);
+    regions.forEach(region => {
+      expect(isConvexPolygon(region)).toBe(true);
+      expect(signedPolygonArea(region)).toBeGreaterThan(0);
+    });
+    [{ x: 10, y: 90 }, { x: 10, y: 10 }, { x: 90, y: 10 }, { x: 19.9, y: 19.9 }].forEach(point => {
+      expect(covers(regions, point)).toBe(true);
+    });
+    [{ x: 50, y: 50 }, { x: 21, y: 21 }, { x: 90, y: 90 }].forEach(point => {
+      expect(covers(regions, point)).toBe(false);
+    });
+  });
+
+  it('uses the convex hull of an outline that crosses itself', () => {
+    // A bow tie
+    const regions = areaRegions(polygonArea([{ x: 0, y: 0 }, { x: 100, y: 100 }, { x: 100, y: 0 }, { x: 0, y: 100 }]));
+    expect(regions).toHaveLength(1);
+    expect(covers(regions, { x: 50, y: 10 })).toBe(true);
+    expect(covers(regions, { x: 50, y: 90 })).toBe(true);
+  });
+
+  it('gives no region for an outline of fewer than three points', () => {
+    expect(areaRegions(polygonArea([{ x: 0, y: 0 }, { x: 10, y: 10 }]))).toEqual([]);
+  });
+});
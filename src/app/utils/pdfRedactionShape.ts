@@ -0,0 +1,95 @@
+import { RedactionArea } from '../types/pdf';
+import {
+  Matrix,
+  Point,
+  Rect,
+  applyMatrix,
+  boundsOfPoints,
+  convexHull,
+  expandConvexPolygon,
+  isConvexPolygon,
+  isSimplePolygon,
+  mergeConvexPieces,
+  rectToPolygon,
+  toCounterClockwise,
+  transformRect,
+  triangulatePolygon
+} from './pdfGeometry';
+
+// Sides of the polygon that stands in for an ellipse
+const ELLIPSE_SEGMENTS = 64;
+
+// Overlap given to the convex pieces of a shape, so that no pixel centre or
+// glyph on a seam between two pieces falls outside both of them
+const PIECE_OVERLAP = 0.01;
+
+/**
+ * Outline of an area in user space. Ellipses are approximated by a polygon
+ * whose sides touch the ellipse from outside, so the outline covers it.
+ */
+export const areaOutline = (area: RedactionArea): Point[] => {
+  switch (area.shape) {
+    case 'polygon':
+    case 'freehand':
+      return area.points;
+    case 'ellipse': {
+      const rx = area.width / 2 / Math.cos(Math.PI / ELLIPSE_SEGMENTS);
+      const ry = area.height / 2 / Math.cos(Math.PI / ELLIPSE_SEGMENTS);
+      const cx = area.x + area.width / 2;
+      const cy = area.y + area.height / 2;
+      return Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / ELLIPSE_SEGMENTS;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+      });
+    }
+    default:
+      return rectToPolygon(area);
+  }
+};
+
+/**
+ * Convex, counter-clockwise polygons that together cover an area, as the
+ * content and annotation redactors expect. Concave outlines are triangulated
+ * and the triangles merged back into convex pieces; an outline that crosses
+ * itself is replaced by its convex hull, which redacts more rather than less.
+ */
+export const areaRegions = (area: RedactionArea): Point[][] => {
+  const outline = toCounterClockwise(areaOutline(area));
+  if (outline.length < 3) {
+    return [];
+  }
+  if (isConvexPolygon(outline)) {
+    return [outline];
+  }
+  const triangles = isSimplePolygon(outline) ? triangulatePolygon(outline) : null;
+  if (!triangles || triangles.length === 0) {
+    return [convexHull(outline)];
+  }
+  return mergeConvexPieces(triangles).map(piece => expandConvexPolygon(piece, PIECE_OVERLAP));
+};
+
+/**
+ * An area moved, scaled or turned by a matrix in user space. Matrices other
+ * than scales, translations and quarter turns would leave rectangles and
+ * ellipses axis-aligned around their turned bounding box.
+ */
+export const transformArea = (area: RedactionArea, m: Matrix): RedactionArea => {
+  switch (area.shape) {
+    case 'polygon':
+    case 'freehand': {
+      const points = area.points.map(point => applyMatrix(m, point));
+      return { ...area, ...boundsOfPoints(points), points };
+    }
+    default:
+      return { ...area, ...transformRect(m, area) };
+  }
+};
+
+/**
+ * An area moved and stretched so that its bounding box becomes `bounds`
+ */
+export const setAreaBounds = (area: RedactionArea, bounds: Rect): RedactionArea => {
+  const sx = area.width > 0 ? bounds.width / area.width : 1;
+  const sy = area.height > 0 ? bounds.height / area.height : 1;
+  return { ...transformArea(area, [sx, 0, 0, sy, bounds.x - area.x * sx, bounds.y - area.y * sy]), ...bounds };
+};
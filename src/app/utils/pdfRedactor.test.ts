@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { RedactionArea, RedactionOptions } from '../types/pdf';
+import { getAppliedPageStrategy } from './pdfRedactor';
+
+const areaOn = (pageNumber: number): RedactionArea => ({ pageNumber, x: 10, y: 10, width: 50, height: 20 });
+
+// Strategy of each of three pages
+const appliedStrategies = (areas: RedactionArea[], options: Partial<RedactionOptions>, encrypted: boolean) =>
+  [1, 2, 3].map(pageNumber => getAppliedPageStrategy(pageNumber, areas, options, encrypted));
+
+describe('getAppliedPageStrategy', () => {
+  it('only rasterises the pages with redaction areas', () => {
+    expect(appliedStrategies([areaOn(2)], { strategy: 'region-raster' }, false))
+      .toEqual(['vector', 'region-raster', 'vector']);
+  });
+
+  it('rasterises every page of an encrypted document once any page is', () => {
+    const options: Partial<RedactionOptions> = { strategy: 'vector', pageStrategies: { 2: 'region-raster' } };
+    expect(appliedStrategies([areaOn(1), areaOn(2)], options, true))
+      .toEqual(['page-raster', 'page-raster', 'page-raster']);
+  });
+
+  it('keeps the pages of an encrypted document when none is rasterised', () => {
+    expect(appliedStrategies([areaOn(2)], { strategy: 'vector' }, true))
+      .toEqual(['vector', 'vector', 'vector']);
+  });
+});
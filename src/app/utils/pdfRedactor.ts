@@ -1,7 +1,44 @@
-import { PDFDocument, rgb, Color } from 'pdf-lib';
-import { RedactionArea } from '../types/pdf';
+import { PDFDocument, PDFName, PDFNumber, PDFPage } from 'pdf-lib';
+import { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import {
+  OcrOptions,
+  PageFailure,
+  RasterOptions,
+  RedactionArea,
+  RedactionAttempt,
+  RedactionMethod,
+  RedactionOptions,
+  RedactionResult,
+  RedactionStrategy,
+  SanitizationResult
+} from '../types/pdf';
 import { REDACTION_SETTINGS } from '../constants/pdf';
-// import { unlockPdf, isPdfEncrypted } from './pdfUnlocker';
+import { redactPageAnnotations } from './pdfAnnotationRedactor';
+import { redactPageContent } from './pdfContentRedactor';
+import { sanitizeHiddenContent } from './pdfHiddenContentSanitizer';
+import { sanitizeMetadata } from './pdfMetadataSanitizer';
+import { removeUnreachableObjects } from './pdfObjectCollector';
+import { drawRasterImage, embedCanvasImage, rasterScale, resolveRasterOptions } from './pdfRasterEncoder';
+import {
+  Matrix,
+  Point,
+  Rect,
+  applyMatrix,
+  boundsOfPoints,
+  invertMatrix,
+  multiplyMatrices,
+  rectToPolygon,
+  scaleRect,
+  transformRect
+} from './pdfGeometry';
+import { areaOutline, areaRegions } from './pdfRedactionShape';
+import { PageOcr } from './pdfOcr';
+import { buildWithholdingIndex, listWithheldPages, withholdPages } from './pdfPageWithholding';
+import { drawCanvasRedactionLabel, drawRedactionLabel } from './pdfRedactionLabel';
+import { RedactionBox, addRedactAnnotations, addRedactionAnnotations } from './pdfRedactionAnnotation';
+import { PdfRedactionError } from './errors';
+import { hexToRgb } from './pdfColor';
+import { isPdfEncrypted } from './pdfUnlocker';
 
 /**
  * Creates a clean copy of the PDF without modifying it
@@ -45,21 +82,504 @@ export const downloadPdfBlob = (pdfBytes: Uint8Array, filename: string): void =>
   }
 };
 
+/**
+ * Clamp a redaction area (in user space) to the MediaBox of its page. Areas
+ * entirely off the page give an empty rectangle.
+ */
+const toPdfRect = (area: Rect, page: PDFPage): Rect => {
+  const mediaBox = page.getMediaBox();
+  const x = Math.max(area.x, mediaBox.x);
+  const y = Math.max(area.y, mediaBox.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(area.x + area.width, mediaBox.x + mediaBox.width) - x),
+    height: Math.max(0, Math.min(area.y + area.height, mediaBox.y + mediaBox.height) - y)
+  };
+};
+
+/**
+ * Rectangle of an area in the pixels of a page rendered with a pdf.js
+ * viewport (top-left origin). The viewport accounts for the /Rotate and the
+ * crop box of the page.
+ */
+const toViewportRect = (area: Rect, viewport: PageViewport): Rect =>
+  transformRect(viewport.transform as Matrix, area);
+
+/**
+ * Outline of an area in the pixels of a page rendered with a pdf.js viewport
+ */
+const toViewportOutline = (area: RedactionArea, viewport: PageViewport): Point[] =>
+  areaOutline(area).map(point => applyMatrix(viewport.transform as Matrix, point));
+
+/**
+ * pdf.js viewport scale that renders a page at the resolution of `scale`
+ * (pixels per point). pdf.js does not apply /UserUnit, so pages with larger
+ * units are rendered with a larger scale.
+ */
+const pageRenderScale = (page: PDFPageProxy, scale: number): number => scale * (page.userUnit || 1);
+
+/**
+ * Add a page for the rendered image of a page, with the size of the viewport
+ * and the /UserUnit of the original, so that it prints at the same size
+ */
+const addRasterPage = (pdfDoc: PDFDocument, page: PDFPageProxy, viewport: PageViewport): PDFPage => {
+  const newPage = pdfDoc.addPage([viewport.width / viewport.scale, viewport.height / viewport.scale]);
+  if (page.userUnit && page.userUnit !== 1) {
+    newPage.node.set(PDFName.of('UserUnit'), PDFNumber.of(page.userUnit));
+  }
+  return newPage;
+};
+
+/**
+ * Rectangle on a page added by `addRasterPage` of a rectangle in the pixels
+ * of its image
+ */
+const toRasterPageRect = (rect: Rect, viewport: PageViewport): Rect => {
+  const pageRect = scaleRect(rect, 1 / viewport.scale);
+  return { ...pageRect, y: viewport.height / viewport.scale - pageRect.y - pageRect.height };
+};
+
+/**
+ * Redaction box of an area on a page added by `addRasterPage`, with the
+ * outline of the area when it is not a rectangle
+ */
+const toRasterPageBox = (area: RedactionArea, viewport: PageViewport): RedactionBox => {
+  const box: RedactionBox = { area, rect: toRasterPageRect(toViewportRect(area, viewport), viewport) };
+  if (area.shape && area.shape !== 'rectangle') {
+    box.outline = toViewportOutline(area, viewport).map(point => ({
+      x: point.x / viewport.scale,
+      y: (viewport.height - point.y) / viewport.scale
+    }));
+  }
+  return box;
+};
+
+/**
+ * SVG path data of a closed outline, for `PDFPage.drawSvgPath` at the origin
+ * (which flips the y axis)
+ */
+const outlineSvgPath = (outline: Point[]): string =>
+  outline.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x} ${-point.y}`).join(' ') + ' Z';
+
+/**
+ * Colour and opacity of the redaction boxes, with the defaults for missing
+ * or malformed values
+ */
+const boxStyle = (options: Partial<RedactionOptions>): { color: string; opacity: number } => {
+  const color = options.color && /^#?[0-9a-f]{6}$/i.test(options.color)
+    ? options.color
+    : REDACTION_SETTINGS.defaultRedactionColor;
+  const opacity = options.opacity ?? REDACTION_SETTINGS.defaultRedactionOpacity;
+  return {
+    color,
+    opacity: Number.isFinite(opacity) ? Math.min(Math.max(opacity, 0), 1) : REDACTION_SETTINGS.defaultRedactionOpacity
+  };
+};
+
+/**
+ * Paint a redaction box, given by its outline in canvas pixels, on a rendered
+ * canvas. With content removal the pixels underneath are wiped first, so that
+ * a translucent box does not show what it covers.
+ */
+const fillCanvasBox = (
+  ctx: CanvasRenderingContext2D,
+  outline: Point[],
+  options: Partial<RedactionOptions>
+): void => {
+  const { color, opacity } = boxStyle(options);
+  ctx.save();
+  ctx.beginPath();
+  outline.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.closePath();
+  if (options.removeContent ?? REDACTION_SETTINGS.removeContent) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fill();
+  }
+  ctx.globalAlpha = opacity;
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Apply the redactions of a single page: handle the annotations under the
+ * areas, remove the content underneath them (unless disabled), draw the
+ * redaction boxes on top and annotate them if requested
+ */
+const applyRedactionsToPage = async (
+  page: PDFPage,
+  areas: RedactionArea[],
+  options: Partial<RedactionOptions>
+): Promise<void> => {
+  const boxes: RedactionBox[] = areas
+    .map(area => ({
+      area,
+      rect: toPdfRect(area, page),
+      outline: area.shape && area.shape !== 'rectangle' ? areaOutline(area) : undefined
+    }))
+    .filter(({ rect }) => rect.width > 0 && rect.height > 0);
+  const regions = boxes.flatMap(({ area, rect, outline }) => (outline ? areaRegions(area) : [rectToPolygon(rect)]));
+  
+  // Flattened annotations become page content, so they go first
+  const annotationStats = redactPageAnnotations(page, regions, options.annotationPolicies);
+  console.log(
+    `Removed ${annotationStats.removedAnnotations} annotations, flattened ` +
+    `${annotationStats.flattenedAnnotations}, kept ${annotationStats.keptAnnotations}`
+  );
+  
+  // Content must be removed before the boxes are drawn, otherwise the boxes
+  // would become part of the content being redacted
+  if (options.removeContent ?? REDACTION_SETTINGS.removeContent) {
+    const stats = await redactPageContent(page, regions);
+    console.log(
+      `Removed ${stats.removedGlyphs} glyphs, ${stats.removedPaths} paths and ` +
+      `${stats.removedInlineImages} inline images, split ${stats.splitPaths} paths, ` +
+      `scrubbed ${stats.scrubbedImages} images (${stats.rewrittenForms} forms rewritten)`
+    );
+  }
+  
+  const { color, opacity } = boxStyle(options);
+  const redactionColor = hexToRgb(color);
+  for (const { area, rect, outline } of boxes) {
+    console.log(`Drawing ${area.shape ?? 'rectangle'} at PDF coordinates: (${rect.x}, ${rect.y}) size: ${rect.width}x${rect.height}`);
+    if (outline) {
+      page.drawSvgPath(outlineSvgPath(outline), {
+        x: 0,
+        y: 0,
+        color: redactionColor,
+        opacity,
+        borderWidth: 0
+      });
+    } else {
+      page.drawRectangle({
+        ...rect,
+        color: redactionColor,
+        opacity,
+        borderWidth: 0
+      });
+    }
+    if (area.label) {
+      await drawRedactionLabel(page, area.label, rect, hexToRgb(area.label.color));
+    }
+  }
+  
+  if (options.addAnnotation) {
+    addRedactionAnnotations(page, boxes, redactionColor);
+  }
+};
+
+/**
+ * The rectangle rasterised for an area by the region-raster strategy: the
+ * area grown by the padding, clamped to the page
+ */
+const regionRect = (area: RedactionArea, page: PDFPage): Rect => {
+  const padding = REDACTION_SETTINGS.regionRasterPadding;
+  return toPdfRect({
+    x: area.x - padding,
+    y: area.y - padding,
+    width: area.width + padding * 2,
+    height: area.height + padding * 2
+  }, page);
+};
+
+/**
+ * Prepare a page using the region-raster strategy: handle the annotations
+ * and remove all content inside the padded rectangle around each area. No
+ * boxes are drawn; `drawRasterisedRegions` later covers each rectangle with
+ * its rendered image.
+ */
+const applyRegionRedactionsToPage = async (
+  page: PDFPage,
+  areas: RedactionArea[],
+  options: Partial<RedactionOptions>
+): Promise<void> => {
+  const regions = areas
+    .map(area => regionRect(area, page))
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rectToPolygon);
+  
+  const annotationStats = redactPageAnnotations(page, regions, options.annotationPolicies);
+  const stats = await redactPageContent(page, regions);
+  console.log(
+    `Region redaction removed ${annotationStats.removedAnnotations} annotations, ` +
+    `${stats.removedGlyphs} glyphs and ${stats.removedPaths} paths, split ${stats.splitPaths} paths, ` +
+    `scrubbed ${stats.scrubbedImages} images`
+  );
+};
+
+/**
+ * Render the padded rectangle around each area of a page using the
+ * region-raster strategy, burn in the redaction boxes and draw the image over
+ * the page prepared by `applyRegionRedactionsToPage`
+ */
+const drawRasterisedRegions = async (
+  pdfPage: PDFPageProxy,
+  page: PDFPage,
+  areas: RedactionArea[],
+  rasterOptions: RasterOptions,
+  annotationMode: number,
+  options: Partial<RedactionOptions>
+): Promise<void> => {
+  const scale = pageRenderScale(pdfPage, rasterScale(rasterOptions));
+  const viewport = pdfPage.getViewport({ scale });
+  // Maps the pixels of the rendered page back to user space
+  const toUserSpace = invertMatrix(viewport.transform as Matrix);
+  if (!toUserSpace) {
+    throw new Error(`Page ${pdfPage.pageNumber} has a singular viewport transform`);
+  }
+  
+  for (const area of areas) {
+    const userRegion = regionRect(area, page);
+    if (userRegion.width <= 0 || userRegion.height <= 0) continue;
+    // The region as it appears on the rendered, possibly rotated, page
+    const region = toViewportRect(userRegion, viewport);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(region.width));
+    canvas.height = Math.max(1, Math.ceil(region.height));
+    const ctx = canvas.getContext('2d', { alpha: false, willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Could not create canvas context');
+    }
+    
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await pdfPage.render({
+      canvasContext: ctx,
+      viewport,
+      annotationMode,
+      // Shift the page so that the region lands at the canvas origin
+      transform: [1, 0, 0, 1, -region.x, -region.y]
+    }).promise;
+    
+    // Every box is burned in, since regions of neighbouring areas may overlap
+    const boxes = areas.map(box => {
+      const rect = toViewportRect(box, viewport);
+      return {
+        box,
+        rect: { ...rect, x: rect.x - region.x, y: rect.y - region.y },
+        outline: toViewportOutline(box, viewport).map(point => ({ x: point.x - region.x, y: point.y - region.y }))
+      };
+    });
+    for (const { outline } of boxes) {
+      fillCanvasBox(ctx, outline, options);
+    }
+    for (const { box, rect } of boxes) {
+      if (box.label) {
+        drawCanvasRedactionLabel(ctx, box.label, scaleRect(rect, 1 / scale), scale);
+      }
+    }
+    
+    // The image rows run top to bottom from the region origin, in viewport space
+    const imageToViewport: Matrix = [canvas.width, 0, 0, -canvas.height, region.x, region.y + canvas.height];
+    const imageRef = await embedCanvasImage(page.doc.context, canvas, rasterOptions);
+    drawRasterImage(page, imageRef, multiplyMatrices(imageToViewport, toUserSpace));
+  }
+  
+  if (options.addAnnotation) {
+    const boxes = areas.map(area => ({
+      area,
+      rect: toPdfRect(area, page),
+      outline: area.shape && area.shape !== 'rectangle' ? areaOutline(area) : undefined
+    }));
+    addRedactionAnnotations(page, boxes, hexToRgb(boxStyle(options).color));
+  }
+};
+
+/**
+ * Sanitise the document metadata and delete every object the redaction left
+ * unreferenced, so that none of the removed content is written out
+ */
+const prepareForSave = (pdfDoc: PDFDocument, options: Partial<RedactionOptions>): void => {
+  const stats = sanitizeMetadata(pdfDoc, options.metadata);
+  const removedObjects = removeUnreachableObjects(pdfDoc.context);
+  console.log(
+    `Removed ${stats.removedInfoEntries} Info entries, ${stats.removedXmpStreams} XMP streams, ` +
+    `${stats.removedPieceInfo} PieceInfo dictionaries and ${removedObjects} unreferenced objects`
+  );
+};
+
+/**
+ * Apply the annotation policies to a copy of the document before it is
+ * rasterised, so that annotations under redaction areas are not painted into
+ * the page images. Returns null if pdf-lib cannot load the document.
+ */
+const prepareAnnotationsForRendering = async (
+  arrayBuffer: ArrayBuffer,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions>
+): Promise<Uint8Array | null> => {
+  try {
+    const pdfDoc = await PDFDocument.load(arrayBuffer, {
+      ignoreEncryption: true,
+      updateMetadata: false
+    });
+    for (const area of redactionAreas) {
+      if (area.pageNumber <= 0 || area.pageNumber > pdfDoc.getPageCount()) continue;
+      const page = pdfDoc.getPage(area.pageNumber - 1);
+      redactPageAnnotations(page, areaRegions(area), options.annotationPolicies);
+    }
+    return await pdfDoc.save({ useObjectStreams: false });
+  } catch (error) {
+    console.warn('Could not apply annotation policies before rendering:', error);
+    return null;
+  }
+};
+
+/**
+ * Message of an unknown thrown value
+ */
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Apply the redactions to the pages of a loaded document. Pages that fail
+ * are reported instead of skipped, so that a partially redacted document is
+ * never saved.
+ */
+const redactPages = async (
+  pdfDoc: PDFDocument,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions>,
+  redactPage = applyRedactionsToPage
+): Promise<PageFailure[]> => {
+  // Group redactions by page number
+  const redactionsByPage = new Map<number, RedactionArea[]>();
+  for (const area of redactionAreas) {
+    if (!redactionsByPage.has(area.pageNumber)) {
+      redactionsByPage.set(area.pageNumber, []);
+    }
+    redactionsByPage.get(area.pageNumber)!.push(area);
+  }
+  
+  const failedPages: PageFailure[] = [];
+  for (const [pageNumber, areas] of redactionsByPage) {
+    // PDF page numbers are 1-based, but array is 0-based
+    if (pageNumber <= 0 || pageNumber > pdfDoc.getPageCount()) {
+      console.warn(`Invalid page number: ${pageNumber}`);
+      failedPages.push({ pageNumber, reason: 'Page does not exist in the document' });
+      continue;
+    }
+    
+    console.log(`Processing page ${pageNumber} with ${areas.length} redaction areas`);
+    try {
+      await redactPage(pdfDoc.getPage(pageNumber - 1), areas, options);
+    } catch (error) {
+      console.error(`Error redacting page ${pageNumber}:`, error);
+      failedPages.push({ pageNumber, reason: describeError(error) });
+    }
+  }
+  return failedPages;
+};
+
+/**
+ * Strategy for a page: its own override, or else the document default
+ */
+export const getPageStrategy = (
+  pageNumber: number,
+  options: Partial<RedactionOptions>
+): RedactionStrategy =>
+  options.pageStrategies?.[pageNumber] ?? options.strategy ?? REDACTION_SETTINGS.defaultRedactionStrategy;
+
+/**
+ * Strategy a page actually gets: only pages with redaction areas are
+ * rasterised, every other page keeps its content. The pages of an
+ * `encrypted` document cannot be copied, so once any of its pages is
+ * rasterised every page is rendered in full
+ */
+export const getAppliedPageStrategy = (
+  pageNumber: number,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions>,
+  encrypted = false
+): RedactionStrategy => {
+  if (encrypted && redactionAreas.some(area => getPageStrategy(area.pageNumber, options) !== 'vector')) {
+    return 'page-raster';
+  }
+  const strategy = getPageStrategy(pageNumber, options);
+  return strategy !== 'vector' && redactionAreas.some(area => area.pageNumber === pageNumber)
+    ? strategy
+    : 'vector';
+};
+
+/**
+ * Redact the pages that are not rasterised in full in place, so that a
+ * rasterising method can copy them into its output. Pages using the
+ * region-raster strategy only have the content around their areas removed.
+ * Pages without redaction areas are left untouched. Returns null when every
+ * page is rasterised, which is always the case for an encrypted document.
+ */
+const redactKeptPages = async (
+  arrayBuffer: ArrayBuffer,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions>,
+  method: RedactionMethod
+): Promise<{ pdfDoc: PDFDocument; pageIndices: number[] } | null> => {
+  const pdfDoc = await PDFDocument.load(arrayBuffer, {
+    ignoreEncryption: true,
+    updateMetadata: false
+  });
+  const pageIndices = pdfDoc.getPageIndices()
+    .filter(index => getAppliedPageStrategy(index + 1, redactionAreas, options, pdfDoc.isEncrypted) !== 'page-raster');
+  if (pageIndices.length === 0) return null;
+  
+  // Copied pages would keep strings and streams encrypted for a key the
+  // output no longer has; only reached when no page is rasterised at all
+  if (pdfDoc.isEncrypted) {
+    throw new PdfRedactionError(
+      'Pages of an encrypted PDF cannot be copied; unlock it first',
+      undefined,
+      { method }
+    );
+  }
+  
+  const keptAreas = redactionAreas.filter(area => pageIndices.includes(area.pageNumber - 1));
+  const isRegionArea = (area: RedactionArea) =>
+    getAppliedPageStrategy(area.pageNumber, redactionAreas, options) === 'region-raster';
+  const failedPages = [
+    ...await redactPages(pdfDoc, keptAreas.filter(area => !isRegionArea(area)), options),
+    ...await redactPages(pdfDoc, keptAreas.filter(isRegionArea), options, applyRegionRedactionsToPage)
+  ];
+  if (failedPages.length > 0) {
+    throw new PdfRedactionError(
+      `Could not redact ${failedPages.length} page(s)`,
+      undefined,
+      { method, failedPages }
+    );
+  }
+  return { pdfDoc, pageIndices };
+};
+
+/**
+ * Copy the pages prepared by `redactKeptPages` into the output document,
+ * keyed by page number
+ */
+const copyKeptPages = async (
+  newPdfDoc: PDFDocument,
+  keptPages: { pdfDoc: PDFDocument; pageIndices: number[] } | null
+): Promise<Map<number, PDFPage>> => {
+  const copiedPages = new Map<number, PDFPage>();
+  if (keptPages) {
+    const pages = await newPdfDoc.copyPages(keptPages.pdfDoc, keptPages.pageIndices);
+    keptPages.pageIndices.forEach((index, i) => copiedPages.set(index + 1, pages[i]));
+  }
+  return copiedPages;
+};
+
 /**
  * Process all redactions for a PDF
+ * Text and image pixels under the areas are removed from the content
+ * streams unless `options.removeContent` is false. Annotations under the areas
+ * are handled according to `options.annotationPolicies` and the
+ * metadata is sanitised according to `options.metadata`
+ * Throws a `PdfRedactionError` if any page cannot be redacted
  */
 export const processRedactions = async (
   pdfFile: File,
-  redactionAreas: RedactionArea[]
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions> = {}
 ): Promise<Uint8Array> => {
   try {
-    // Return early if no redaction areas
-    if (!redactionAreas.length) {
-      console.log('No redaction areas. Returning original PDF.');
-      const arrayBuffer = await pdfFile.arrayBuffer();
-      return new Uint8Array(arrayBuffer);
-    }
-
     console.log('Starting redaction process with simplified approach...');
     
     // Get the file data as buffer
@@ -76,9 +596,6 @@ export const processRedactions = async (
       throw new Error('Unable to process this PDF. The file may be damaged or incompatible.');
     }
     
-    // Create backup of original PDF data
-    const originalPdfBytes = new Uint8Array(arrayBuffer);
-    
     // Try a simpler approach first - just copy the original and add redactions
     try {
       console.log('Loading PDF document for redaction...');
@@ -106,80 +623,18 @@ export const processRedactions = async (
         }
       }
       
-      // Get the redaction color in RGB format
-      const redactionColor = hexToRgb(REDACTION_SETTINGS.defaultRedactionColor);
-    
-    // Group redactions by page number
-    const redactionsByPage: Record<string, RedactionArea[]> = {};
-    redactionAreas.forEach(area => {
-      const pageKey = area.pageNumber.toString();
-      if (!redactionsByPage[pageKey]) {
-        redactionsByPage[pageKey] = [];
-      }
-      redactionsByPage[pageKey].push(area);
-    });
-    
-    // Process each page with redactions
-    for (const [pageNumberStr, areas] of Object.entries(redactionsByPage)) {
-      const pageNumber = parseInt(pageNumberStr, 10);
-      
-      // PDF page numbers are 1-based, but array is 0-based
-      if (pageNumber <= 0 || pageNumber > pdfDoc.getPageCount()) {
-        console.warn(`Skipping invalid page number: ${pageNumber}`);
-        continue;
-      }
-      
-      console.log(`Processing page ${pageNumber} with ${areas.length} redaction areas`);
-      
-      // Get the page
-      const page = pdfDoc.getPage(pageNumber - 1);
-      
-      // Get the page dimensions
-      const { width: pageWidth, height: pageHeight } = page.getSize();
-      console.log(`Page dimensions: ${pageWidth}x${pageHeight}`);
-      
-      // Process each redaction on this page
-      for (const area of areas) {
-        try {
-          console.log(`Processing redaction area: (${area.x}, ${area.y}) - ${area.width}x${area.height}`);
-          
-          // Calculate PDF coordinates (PDF uses bottom-left origin)
-          // Convert from top-left (web) to bottom-left (PDF) coordinate system
-            // Ensure coordinates are within page boundaries
-          const x = Math.max(0, Math.min(area.x, pageWidth));
-            
-            // The y-coordinate needs to be flipped (PDF origin is bottom-left)
-            // Calculate the bottom coordinate of the rectangle in PDF coordinates
-            const y = Math.max(0, pageHeight - (area.y + area.height));
-            
-            // Ensure width and height are positive and within page boundaries
-            const rectWidth = Math.max(1, Math.min(area.width, pageWidth - x));
-            const rectHeight = Math.max(1, Math.min(area.height, area.y + area.height - Math.max(0, area.y)));
-          
-          console.log(`Drawing rectangle at PDF coordinates: (${x}, ${y}) size: ${rectWidth}x${rectHeight}`);
-          
-          // Draw the redaction rectangle
-          if (rectWidth > 0 && rectHeight > 0) {
-            page.drawRectangle({
-              x,
-              y,
-              width: rectWidth,
-              height: rectHeight,
-              color: redactionColor,
-              opacity: 1.0,  // Ensure full opacity
-              borderWidth: 0
-            });
-          } else {
-            console.warn('Skipping redaction with invalid dimensions');
-          }
-        } catch (redactionError) {
-          console.error('Error applying individual redaction:', redactionError);
-          // Continue with other redactions even if one fails
-        }
-      }
+    // Remove the underlying content and draw the redaction boxes
+    const failedPages = await redactPages(pdfDoc, redactionAreas, options);
+    if (failedPages.length > 0) {
+      throw new PdfRedactionError(
+        `Could not redact ${failedPages.length} page(s)`,
+        undefined,
+        { method: 'vector', failedPages }
+      );
     }
     
     console.log('All redactions applied, saving document...');
+    prepareForSave(pdfDoc, options);
     
       // Save the document as PDF bytes with proper options for maximum compatibility
     const redactedPdfBytes = await pdfDoc.save({
@@ -243,56 +698,17 @@ export const processRedactions = async (
         console.log(`Created new PDF with ${newDoc.getPageCount()} pages`);
         
         // Apply redactions to the new document
-        // Group redactions by page number
-        const redactionsByPage: Record<string, RedactionArea[]> = {};
-        redactionAreas.forEach(area => {
-          const pageKey = area.pageNumber.toString();
-          if (!redactionsByPage[pageKey]) {
-            redactionsByPage[pageKey] = [];
-          }
-          redactionsByPage[pageKey].push(area);
-        });
-        
-        // Get the redaction color in RGB format
-        const redactionColor = hexToRgb(REDACTION_SETTINGS.defaultRedactionColor);
-        
-        // Process each page with redactions
-        for (const [pageNumberStr, areas] of Object.entries(redactionsByPage)) {
-          const pageNumber = parseInt(pageNumberStr, 10);
-          
-          if (pageNumber <= 0 || pageNumber > newDoc.getPageCount()) {
-            console.warn(`Skipping invalid page number: ${pageNumber}`);
-            continue;
-          }
-          
-          // Get the page
-          const page = newDoc.getPage(pageNumber - 1);
-          
-          // Get the page dimensions
-          const { width: pageWidth, height: pageHeight } = page.getSize();
-          
-          // Apply each redaction
-          for (const area of areas) {
-            const x = Math.max(0, Math.min(area.x, pageWidth));
-            const y = Math.max(0, pageHeight - (area.y + area.height));
-            const rectWidth = Math.max(1, Math.min(area.width, pageWidth - x));
-            const rectHeight = Math.max(1, Math.min(area.height, area.y + area.height - Math.max(0, area.y)));
-            
-            if (rectWidth > 0 && rectHeight > 0) {
-              page.drawRectangle({
-                x,
-                y,
-                width: rectWidth,
-                height: rectHeight,
-                color: redactionColor,
-                opacity: 1.0,  // Ensure full opacity
-                borderWidth: 0
-              });
-            }
-          }
+        const failedPages = await redactPages(newDoc, redactionAreas, options);
+        if (failedPages.length > 0) {
+          throw new PdfRedactionError(
+            `Could not redact ${failedPages.length} page(s)`,
+            undefined,
+            { method: 'vector', failedPages }
+          );
         }
         
         // Save the new document
+        prepareForSave(newDoc, options);
         const fallbackBytes = await newDoc.save({
           useObjectStreams: false,
           addDefaultPage: false
@@ -324,146 +740,302 @@ export const processRedactions = async (
         return fallbackBytes;
       } catch (fallbackError) {
         console.error('Fallback approach also failed:', fallbackError);
-        
-        // Last resort: just return the original PDF with a warning in console
-        console.log('All redaction approaches failed. Returning original PDF.');
         console.log('Original error:', mainError);
-        console.log('Fallback error:', fallbackError);
         
-        return originalPdfBytes;
+        // Never fall back to the unredacted original
+        const failedPages = [fallbackError, mainError]
+          .find((error): error is PdfRedactionError => error instanceof PdfRedactionError)
+          ?.details.failedPages ?? [];
+        throw new PdfRedactionError(
+          `Vector redaction failed: ${describeError(fallbackError)}`,
+          fallbackError instanceof Error ? fallbackError : undefined,
+          { method: 'vector', failedPages }
+        );
       }
     }
   } catch (error) {
     console.error('Unrecoverable error in PDF redaction:', error);
-    // In case of complete failure, return the original PDF
-    const originalBuffer = await pdfFile.arrayBuffer();
-    return new Uint8Array(originalBuffer);
+    if (error instanceof PdfRedactionError) {
+      throw error;
+    }
+    throw new PdfRedactionError(
+      `Vector redaction failed: ${describeError(error)}`,
+      error instanceof Error ? error : undefined,
+      { method: 'vector' }
+    );
   }
 };
 
 /**
- * Alternative canvas-based redaction approach
- * This works by rendering each page to a canvas, applying redactions, and creating a new PDF
+ * Hatching and a border over a screenshot redaction box, following the
+ * outline of the area in canvas pixels, to make clear that it is a redaction
  */
-export async function canvasRedaction(
-  pdfFile: File,
-  redactionAreas: RedactionArea[]
-): Promise<Uint8Array> {
-  console.log('Starting canvas-based redaction...');
+const drawHatchedBorder = (ctx: CanvasRenderingContext2D, outline: Point[], scale: number): void => {
+  const { x, y, width, height } = boundsOfPoints(outline);
+  const shapePath = new Path2D();
+  outline.forEach(point => shapePath.lineTo(point.x, point.y));
+  shapePath.closePath();
+  ctx.save();
+  ctx.clip(shapePath);
   
-  try {
-    // Load PDF.js dynamically
-    const pdfjsLib = await import('pdfjs-dist');
-    
-    // Get file data
-    const arrayBuffer = await pdfFile.arrayBuffer();
-    
-    // Load PDF with PDF.js
-    const loadingTask = pdfjsLib.getDocument({
-      data: arrayBuffer
-    });
-    
-    const pdfDoc = await loadingTask.promise;
-    console.log(`PDF loaded successfully with ${pdfDoc.numPages} pages`);
-    
-    // Create a new PDF document with pdf-lib
-    const newPdfDoc = await PDFDocument.create();
+  // Add a cross-hatch pattern for better visibility
+  ctx.fillStyle = '#333333';
+  const patternSize = 10 * scale;
+  
+  // Draw diagonal lines for pattern
+  for (let i = 0; i < width + height; i += patternSize) {
+    ctx.beginPath();
+    ctx.moveTo(x + Math.min(i, width), y);
+    ctx.lineTo(x, y + Math.min(i, height));
+    ctx.lineWidth = 2 * scale;
+    ctx.stroke();
     
-    // Group redactions by page
-    const redactionsByPage = new Map<number, RedactionArea[]>();
-    for (const area of redactionAreas) {
-      if (!redactionsByPage.has(area.pageNumber)) {
-        redactionsByPage.set(area.pageNumber, []);
-      }
-      redactionsByPage.get(area.pageNumber)!.push(area);
+    ctx.beginPath();
+    ctx.moveTo(x + Math.max(0, i - height), y + Math.min(i, height));
+    ctx.lineTo(x + Math.min(i, width), y + Math.max(0, i - width));
+    ctx.lineWidth = 2 * scale;
+    ctx.stroke();
+  }
+  
+  // Add a border to make it clear this is a redaction
+  ctx.strokeStyle = '#000000';
+  ctx.lineWidth = 2;
+  ctx.stroke(shapePath);
+  ctx.restore();
+};
+
+/**
+ * State shared by the pages of a rasterising method: the document as pdf.js
+ * renders it, the output with the kept pages copied into it, and the canvas
+ * the pages are rendered on
+ */
+interface RasterJob {
+  source: PDFDocumentProxy;
+  output: PDFDocument;
+  copiedPages: Map<number, PDFPage>;
+  redactionAreas: RedactionArea[];
+  areasByPage: Map<number, RedactionArea[]>;
+  options: Partial<RedactionOptions>;
+  rasterOptions: RasterOptions;
+  annotationMode: number;
+  ocr: PageOcr | null;
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+}
+
+/**
+ * Set up a rasterising method: redact the pages that are not rasterised in
+ * full in place and copy them into a new output document, and load the
+ * document with pdf.js, with the annotations under the areas already handled
+ */
+const startRasterJob = async (
+  pdfFile: File,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions>,
+  ocr: PageOcr | null,
+  method: RedactionMethod,
+  loadParams: { disableRange?: boolean; disableStream?: boolean; disableAutoFetch?: boolean } = {}
+): Promise<RasterJob> => {
+  // Load PDF.js dynamically
+  const pdfjsLib = await import('pdfjs-dist');
+  
+  // Get file data, with the annotations under the areas already handled
+  const arrayBuffer = await pdfFile.arrayBuffer();
+  // pdf.js may take over the buffer, so the pages that are kept are prepared first
+  const keptPages = await redactKeptPages(arrayBuffer, redactionAreas, options, method);
+  const preparedBytes = await prepareAnnotationsForRendering(arrayBuffer, redactionAreas, options);
+  // If the annotations could not be handled, none of them are rendered
+  const annotationMode = preparedBytes
+    ? pdfjsLib.AnnotationMode.ENABLE
+    : pdfjsLib.AnnotationMode.DISABLE;
+  
+  // Load PDF with PDF.js
+  const source = await pdfjsLib.getDocument({ data: preparedBytes ?? arrayBuffer, ...loadParams }).promise;
+  console.log(`PDF loaded successfully with ${source.numPages} pages`);
+  
+  // Create a new PDF document with pdf-lib
+  const output = await PDFDocument.create();
+  const copiedPages = await copyKeptPages(output, keptPages);
+  
+  // Group redactions by page
+  const areasByPage = new Map<number, RedactionArea[]>();
+  for (const area of redactionAreas) {
+    if (!areasByPage.has(area.pageNumber)) {
+      areasByPage.set(area.pageNumber, []);
     }
-    
-    // Create an off-screen canvas
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { alpha: false }); // no alpha for PDFs
-    if (!ctx) {
-      throw new Error('Could not create canvas context');
+    areasByPage.get(area.pageNumber)!.push(area);
+  }
+  
+  // Create an off-screen canvas
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { alpha: false, willReadFrequently: true }); // no alpha for PDFs, optimize for reading pixels
+  if (!ctx) {
+    throw new Error('Could not create canvas context');
+  }
+  
+  return {
+    source,
+    output,
+    copiedPages,
+    redactionAreas,
+    areasByPage,
+    options,
+    rasterOptions: resolveRasterOptions(options.raster),
+    annotationMode,
+    ocr,
+    canvas,
+    ctx
+  };
+};
+
+/**
+ * Add a page to the output of a rasterising method. Pages that are not
+ * rasterised in full are copied, with any rasterised regions drawn on top.
+ * The others are rendered, get their redaction boxes burned in, each
+ * finished by `decorateBox` when given, and are added as an image, with
+ * annotations and an OCR text layer if the options ask for them. Throws if
+ * the page cannot be rendered.
+ */
+const addRedactedPage = async (
+  job: RasterJob,
+  pageNumber: number,
+  decorateBox?: (ctx: CanvasRenderingContext2D, outline: Point[], scale: number) => void
+): Promise<void> => {
+  const { source, output, canvas, ctx, options, rasterOptions } = job;
+  const pageRedactions = job.areasByPage.get(pageNumber) || [];
+  
+  // Only pages with redactions under the page-raster strategy are rendered
+  // in full; the others are copied, with any rasterised regions drawn on top
+  const copiedPage = job.copiedPages.get(pageNumber);
+  if (copiedPage) {
+    output.addPage(copiedPage);
+    if (getAppliedPageStrategy(pageNumber, job.redactionAreas, options) === 'region-raster') {
+      await drawRasterisedRegions(
+        await source.getPage(pageNumber), copiedPage, pageRedactions, rasterOptions, job.annotationMode, options
+      );
     }
+    console.log(`Page ${pageNumber} copied without rasterising the whole page`);
+    return;
+  }
+  
+  // Get the PDF.js page
+  const page = await source.getPage(pageNumber);
+  
+  const viewport = page.getViewport({ scale: pageRenderScale(page, rasterScale(rasterOptions)) });
+  
+  // Set canvas size to match the page
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  
+  console.log(`Canvas size for page ${pageNumber}: ${canvas.width}x${canvas.height}`);
+  
+  // Clear canvas with white background
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  
+  // Render the page to the canvas
+  try {
+    await page.render({ canvasContext: ctx, viewport, annotationMode: job.annotationMode }).promise;
+    console.log(`Page ${pageNumber} rendered to canvas successfully`);
+  } catch (renderError) {
+    throw new Error(`Rendering failed: ${describeError(renderError)}`);
+  }
+  
+  // Apply redactions to this page
+  if (pageRedactions.length > 0) {
+    console.log(`Applying ${pageRedactions.length} redactions to page ${pageNumber}`);
     
-    // Process each page
-    for (let i = 1; i <= pdfDoc.numPages; i++) {
-      console.log(`Processing page ${i} of ${pdfDoc.numPages}...`);
+    for (const area of pageRedactions) {
+      // Map the area onto the rendered page
+      const outline = toViewportOutline(area, viewport);
+      const bounds = boundsOfPoints(outline);
       
-      // Get the PDF.js page
-      const page = await pdfDoc.getPage(i);
+      console.log(`Drawing redaction at (${bounds.x},${bounds.y}) size ${bounds.width}x${bounds.height}`);
       
-      // Use scale of 2 for better quality
-      const scale = 2.0;
-      const viewport = page.getViewport({ scale });
+      // Draw the box in the colour and opacity of the options
+      fillCanvasBox(ctx, outline, options);
+      if (decorateBox) decorateBox(ctx, outline, viewport.scale);
       
-      // Set canvas size to match the page
-      canvas.width = Math.floor(viewport.width);
-      canvas.height = Math.floor(viewport.height);
-      
-      console.log(`Canvas size: ${canvas.width}x${canvas.height}`);
-      
-      // Clear canvas
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Render the page to the canvas
-      try {
-        const renderContext = {
-          canvasContext: ctx,
-          viewport: viewport
-        };
-        
-        await page.render(renderContext).promise;
-        console.log(`Page ${i} rendered to canvas`);
-      } catch (renderError) {
-        console.error(`Error rendering page ${i}:`, renderError);
-        continue; // Skip this page if rendering fails
+      // The label goes over the box, so that it stays legible
+      if (area.label) {
+        drawCanvasRedactionLabel(ctx, area.label, scaleRect(bounds, 1 / viewport.scale), viewport.scale);
       }
-      
-      // Apply redactions to this page
-      const pageRedactions = redactionsByPage.get(i) || [];
-      if (pageRedactions.length > 0) {
-        console.log(`Applying ${pageRedactions.length} redactions to page ${i}`);
-        
-        // Draw redaction boxes
-        ctx.fillStyle = REDACTION_SETTINGS.defaultRedactionColor;
-        for (const area of pageRedactions) {
-          // Scale coordinates to match our higher-resolution rendering
-          const x = area.x * scale;
-          const y = area.y * scale;
-          const width = area.width * scale;
-          const height = area.height * scale;
-          
-          console.log(`Drawing redaction at (${x},${y}) size ${width}x${height}`);
-          ctx.fillRect(x, y, width, height);
-        }
-      }
-      
-      // Convert canvas to JPEG data URL
-      const imageData = canvas.toDataURL('image/jpeg', 0.92);
-      
-      // Add a page to the new PDF
-      const jpegImage = await newPdfDoc.embedJpg(imageData);
-      
-      // Calculate the page dimensions
-      const pageWidth = viewport.width / scale;
-      const pageHeight = viewport.height / scale;
-      
-      // Add the page and draw the image
-      const newPage = newPdfDoc.addPage([pageWidth, pageHeight]);
-      newPage.drawImage(jpegImage, {
-        x: 0,
-        y: 0,
-        width: pageWidth,
-        height: pageHeight
-      });
-      
-      console.log(`Page ${i} added to new PDF`);
     }
+  }
+  
+  // Encode the canvas in the requested colour mode and format
+  const imageRef = await embedCanvasImage(output.context, canvas, rasterOptions);
+  
+  // Add a page and draw the image
+  const newPage = addRasterPage(output, page, viewport);
+  drawRasterImage(newPage, imageRef);
+  
+  const boxes = pageRedactions.map(area => toRasterPageBox(area, viewport));
+  if (options.addAnnotation) {
+    addRedactionAnnotations(newPage, boxes, hexToRgb(boxStyle(options).color));
+  }
+  
+  // Make the page searchable again, without the redacted words
+  if (job.ocr) {
+    await job.ocr.addTextLayer(newPage, canvas, pageNumber, viewport.scale, boxes.map(({ rect }) => rect));
+  }
+  
+  console.log(`Page ${pageNumber} added to new PDF document`);
+};
+
+/**
+ * Add every page to the output of a rasterising method. A document with
+ * missing pages must not be passed off as redacted, so a `PdfRedactionError`
+ * listing the pages that failed is thrown instead of adding placeholders.
+ */
+const addRedactedPages = async (
+  job: RasterJob,
+  method: RedactionMethod,
+  decorateBox?: (ctx: CanvasRenderingContext2D, outline: Point[], scale: number) => void
+): Promise<void> => {
+  const failedPages: PageFailure[] = [];
+  for (let i = 1; i <= job.source.numPages; i++) {
+    console.log(`Processing page ${i} of ${job.source.numPages}...`);
+    try {
+      await addRedactedPage(job, i, decorateBox);
+    } catch (pageError) {
+      console.error(`Error processing page ${i}:`, pageError);
+      failedPages.push({ pageNumber: i, reason: describeError(pageError) });
+    }
+  }
+  
+  if (failedPages.length > 0) {
+    throw new PdfRedactionError(
+      `Could not render ${failedPages.length} page(s)`,
+      undefined,
+      { method, failedPages }
+    );
+  }
+};
+
+/**
+ * Alternative canvas-based redaction approach
+ * This works by rendering each page to a canvas, applying redactions, and creating a new PDF
+ * Only pages with redactions under the page-raster strategy are rendered; the
+ * others are copied, after redacting them in place if they use the vector or
+ * region-raster strategy
+ */
+export async function canvasRedaction(
+  pdfFile: File,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions> = {},
+  ocr: PageOcr | null = null
+): Promise<Uint8Array> {
+  console.log('Starting canvas-based redaction...');
+  
+  try {
+    const job = await startRasterJob(pdfFile, redactionAreas, options, ocr, 'canvas');
+    await addRedactedPages(job, 'canvas');
     
     // Save the PDF
     console.log('Saving PDF...');
-    const pdfBytes = await newPdfDoc.save();
+    prepareForSave(job.output, options);
+    const pdfBytes = await job.output.save();
     
     // Verify the PDF
     if (pdfBytes.length < 1000) {
@@ -479,180 +1051,34 @@ export async function canvasRedaction(
 }
 
 /**
- * Screenshot-based redaction that renders each page as an image
+ * Screenshot-based redaction that renders each page as an image, with
+ * hatched and bordered boxes
  * This approach works with any PDF, even if restricted or encrypted
+ * Only pages with redactions under the page-raster strategy are rendered; the
+ * others are copied, after redacting them in place if they use the vector or
+ * region-raster strategy
  */
 export async function screenshotBasedRedaction(
   pdfFile: File,
-  redactionAreas: RedactionArea[]
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions> = {},
+  ocr: PageOcr | null = null
 ): Promise<Uint8Array> {
   console.log('Starting screenshot-based redaction...');
   
   try {
-    // Load PDF.js dynamically
-    const pdfjsLib = await import('pdfjs-dist');
-    
-    // Get file data
-    const arrayBuffer = await pdfFile.arrayBuffer();
-    
-    // Load PDF with PDF.js
-    const loadingTask = pdfjsLib.getDocument({
-      data: arrayBuffer,
+    const job = await startRasterJob(pdfFile, redactionAreas, options, ocr, 'screenshot', {
       // Turn off additional security checks so we can at least render it
       disableRange: true,
       disableStream: true,
       disableAutoFetch: true
     });
+    await addRedactedPages(job, 'screenshot', drawHatchedBorder);
     
-    const pdfDoc = await loadingTask.promise;
-    console.log(`PDF loaded successfully with ${pdfDoc.numPages} pages`);
-    
-    // Create a new PDF document with pdf-lib
-    const newPdfDoc = await PDFDocument.create();
-    
-    // Group redactions by page
-    const redactionsByPage = new Map<number, RedactionArea[]>();
-    for (const area of redactionAreas) {
-      if (!redactionsByPage.has(area.pageNumber)) {
-        redactionsByPage.set(area.pageNumber, []);
-      }
-      redactionsByPage.get(area.pageNumber)!.push(area);
-    }
-    
-    // Create an off-screen canvas
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { alpha: false, willReadFrequently: true }); // no alpha for PDFs, optimize for reading pixels
-    if (!ctx) {
-      throw new Error('Could not create canvas context');
-    }
-    
-    // Process each page
-    for (let i = 1; i <= pdfDoc.numPages; i++) {
-      console.log(`Processing page ${i} of ${pdfDoc.numPages}...`);
-      
-      try {
-        // Get the PDF.js page
-        const page = await pdfDoc.getPage(i);
-        
-        // Use higher scale for better quality
-        const scale = 2.0;
-        const viewport = page.getViewport({ scale });
-        
-        // Set canvas size to match the page
-        canvas.width = Math.floor(viewport.width);
-        canvas.height = Math.floor(viewport.height);
-        
-        console.log(`Canvas size for page ${i}: ${canvas.width}x${canvas.height}`);
-        
-        // Clear canvas with white background
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Render the page to the canvas
-        try {
-          const renderContext = {
-            canvasContext: ctx,
-            viewport: viewport
-          };
-          
-          await page.render(renderContext).promise;
-          console.log(`Page ${i} rendered to canvas successfully`);
-        } catch (renderError) {
-          console.error(`Error rendering page ${i}:`, renderError);
-          
-          // Instead of skipping, create a blank page with error message
-          ctx.fillStyle = '#FFFFFF';
-          ctx.fillRect(0, 0, canvas.width, canvas.height);
-          ctx.fillStyle = '#FF0000';
-          ctx.font = '20px Arial';
-          ctx.fillText(`Error rendering page ${i}`, 50, 100);
-        }
-        
-        // Apply redactions to this page - draw with 100% solid color to ensure complete coverage
-        const pageRedactions = redactionsByPage.get(i) || [];
-        if (pageRedactions.length > 0) {
-          console.log(`Applying ${pageRedactions.length} redactions to page ${i}`);
-          
-          // Use a solid fill style with no transparency
-          ctx.fillStyle = REDACTION_SETTINGS.defaultRedactionColor;
-          
-          for (const area of pageRedactions) {
-            // Scale coordinates to match our higher-resolution rendering
-            const x = area.x * scale;
-            const y = area.y * scale;
-            const width = area.width * scale;
-            const height = area.height * scale;
-            
-            console.log(`Drawing redaction at (${x},${y}) size ${width}x${height}`);
-            
-            // Draw a solid rectangle with no transparency
-            ctx.fillRect(x, y, width, height);
-            
-            // Add a cross-hatch pattern for better visibility
-            ctx.fillStyle = '#333333';
-            const patternSize = 10 * scale;
-            
-            // Draw diagonal lines for pattern
-            for (let i = 0; i < width + height; i += patternSize) {
-              ctx.beginPath();
-              ctx.moveTo(x + Math.min(i, width), y);
-              ctx.lineTo(x, y + Math.min(i, height));
-              ctx.lineWidth = 2 * scale;
-              ctx.stroke();
-              
-              ctx.beginPath();
-              ctx.moveTo(x + Math.max(0, i - height), y + Math.min(i, height));
-              ctx.lineTo(x + Math.min(i, width), y + Math.max(0, i - width));
-              ctx.lineWidth = 2 * scale;
-              ctx.stroke();
-            }
-            
-            // Reset fill style
-            ctx.fillStyle = REDACTION_SETTINGS.defaultRedactionColor;
-            
-            // Add a border to make it clear this is a redaction
-            ctx.strokeStyle = '#000000';
-            ctx.lineWidth = 2;
-            ctx.strokeRect(x, y, width, height);
-          }
-        }
-        
-        // Convert canvas to PNG for best quality (instead of JPEG)
-        const imageData = canvas.toDataURL('image/png', 1.0);
-        
-        // Add to PDF document
-        const pngImage = await newPdfDoc.embedPng(imageData);
-        
-        // Calculate the true page dimensions at 1x scale
-        const pageWidth = viewport.width / scale;
-        const pageHeight = viewport.height / scale;
-        
-        // Add a page and draw the image
-        const newPage = newPdfDoc.addPage([pageWidth, pageHeight]);
-        newPage.drawImage(pngImage, {
-          x: 0,
-          y: 0,
-          width: pageWidth,
-          height: pageHeight
-        });
-        
-        console.log(`Page ${i} added to new PDF document`);
-      } catch (pageError) {
-        console.error(`Error processing page ${i}:`, pageError);
-        
-        // Add a blank page with error message instead
-        const blankPage = newPdfDoc.addPage([612, 792]); // Standard US Letter size
-        blankPage.drawText(`Error processing page ${i}`, {
-          x: 50,
-          y: 700,
-          size: 20,
-          color: rgb(1, 0, 0)
-        });
-      }
-    }
+    prepareForSave(job.output, options);
     
     // Use compression options for smaller file size while maintaining quality
-    const pdfBytes = await newPdfDoc.save({
+    const pdfBytes = await job.output.save({
       useObjectStreams: true,
       addDefaultPage: false
     });
@@ -666,112 +1092,266 @@ export async function screenshotBasedRedaction(
 }
 
 /**
- * Applies redactions to a PDF file and returns the redacted PDF as a byte array
- * This version focuses on reliability over feature completeness
+ * Run the hidden-content sanitisation pass over a finished document
+ */
+const removeHiddenContent = async (
+  pdfBytes: Uint8Array,
+  options: Partial<RedactionOptions>
+): Promise<SanitizationResult> => {
+  const status = await sanitizeHiddenContent(pdfBytes, options.hiddenContent);
+  if (!status.success || !status.result) {
+    throw new PdfRedactionError(status.error ?? 'Failed to remove hidden content');
+  }
+  return status.result;
+};
+
+/**
+ * Check that a method produced a loadable PDF and return its page count
+ */
+const validateRedactedPdf = async (pdfBytes: Uint8Array): Promise<number> => {
+  if (!pdfBytes || pdfBytes.length < 1000) {
+    throw new Error(`Output is suspiciously small (${pdfBytes?.length || 0} bytes)`);
+  }
+  
+  // Verify the PDF header
+  const pdfHeader = new TextDecoder().decode(pdfBytes.slice(0, 8));
+  if (!pdfHeader.startsWith('%PDF')) {
+    throw new Error(`Output has an invalid PDF header: ${pdfHeader}`);
+  }
+  
+  // Try to load the PDF to verify its validity
+  try {
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    return pdfDoc.getPageCount();
+  } catch (loadError) {
+    throw new Error(`Output cannot be loaded back: ${describeError(loadError)}`);
+  }
+};
+
+/**
+ * Propose the redactions of a page as /Redact annotations, leaving its
+ * content as it is
+ */
+const markUpPage = async (
+  page: PDFPage,
+  areas: RedactionArea[],
+  options: Partial<RedactionOptions>
+): Promise<void> => {
+  const boxes = areas
+    .map(area => ({ area, rect: toPdfRect(area, page) }))
+    .filter(({ rect }) => rect.width > 0 && rect.height > 0);
+  addRedactAnnotations(page, boxes, hexToRgb(boxStyle(options).color));
+};
+
+/**
+ * Export the redaction areas as /Redact annotations without applying them.
+ * Pages withheld in full (`options.withheldPages`) get one annotation over
+ * the whole page instead of their areas.
+ * Nothing is removed from the document, not even its metadata; the result is
+ * a proposal for another reviewer to apply.
+ * Throws a `PdfRedactionError` if any area cannot be marked up
+ */
+export const exportRedactionMarkup = async (
+  pdfFile: File,
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions> = {}
+): Promise<Uint8Array> => {
+  const arrayBuffer = await pdfFile.arrayBuffer();
+  const pdfDoc = await PDFDocument.load(arrayBuffer, {
+    ignoreEncryption: true,
+    updateMetadata: false
+  });
+  
+  // The annotations would be written unencrypted into an encrypted file
+  if (pdfDoc.isEncrypted) {
+    throw new PdfRedactionError('An encrypted PDF cannot be marked up; unlock it first', undefined, {
+      method: 'markup'
+    });
+  }
+  
+  // A page withheld in full is proposed as one box over the whole page; whether
+  // it is blanked or removed is up to whoever applies the mark-up
+  const withheldPageAreas: RedactionArea[] = listWithheldPages(options.withheldPages)
+    .filter(({ pageNumber }) => pageNumber > 0 && pageNumber <= pdfDoc.getPageCount())
+    .map(({ pageNumber }) => ({
+      pageNumber,
+      ...pdfDoc.getPage(pageNumber - 1).getMediaBox(),
+      label: { ...REDACTION_SETTINGS.defaultRedactionLabel, text: REDACTION_SETTINGS.withheldPageLabel.text }
+    }));
+  const withheldPageNumbers = new Set(withheldPageAreas.map(area => area.pageNumber));
+  const markedUpAreas = [
+    ...redactionAreas.filter(area => !withheldPageNumbers.has(area.pageNumber)),
+    ...withheldPageAreas
+  ];
+  
+  const failedPages = await redactPages(pdfDoc, markedUpAreas, options, markUpPage);
+  if (failedPages.length > 0) {
+    throw new PdfRedactionError(
+      `Could not mark up ${failedPages.length} page(s)`,
+      undefined,
+      { method: 'markup', failedPages }
+    );
+  }
+  
+  console.log(`Marked up ${markedUpAreas.length} redaction areas`);
+  return await pdfDoc.save({
+    useObjectStreams: false,
+    addDefaultPage: false,
+    updateFieldAppearances: false
+  });
+};
+
+/**
+ * Applies redactions to a PDF file and returns the redacted PDF
+ * Each page with redaction areas is redacted with its strategy from
+ * `options.strategy` and `options.pageStrategies`; pages without areas are
+ * kept as they are. When any page is rasterised the screenshot method
+ * is tried first and the canvas method second; otherwise the pages are
+ * redacted in place. Every strategy draws the boxes in `options.color` and
+ * `options.opacity`, removes what they cover unless `options.removeContent`
+ * is false, and records each box as an annotation when `options.addAnnotation`
+ * is set. With `options.ocr` enabled, rasterised pages get an
+ * invisible text layer without the redacted words. Hidden content is removed
+ * from the result according to `options.hiddenContent`, also when there are
+ * no redaction areas. Pages in `options.withheldPages` are blanked or removed
+ * after the other pages are redacted, and the areas on them are ignored; the
+ * result lists them in `withholdingIndex`. In mark-up mode (`options.mode`) the
+ * areas are only exported as /Redact annotations by `exportRedactionMarkup`,
+ * and nothing is removed.
+ * If every method fails, a `PdfRedactionError` recording each attempt is
+ * thrown; the original document is never returned.
  */
 export async function redactPDF(
   pdfFile: File,
   redactionAreas: RedactionArea[],
-  copyOnly: boolean = false
-): Promise<Uint8Array> {
+  options: Partial<RedactionOptions> = {}
+): Promise<RedactionResult> {
   // Add diagnostic information
   console.log('PDF redaction started:', {
     fileName: pdfFile.name,
     fileSize: pdfFile.size,
-    redactionCount: redactionAreas.length,
-    copyOnly
+    redactionCount: redactionAreas.length
   });
 
-  // For empty redactions or copyOnly flag, return unmodified PDF
-  if (copyOnly || redactionAreas.length === 0) {
-    console.log('Creating exact copy without redactions');
-    const arrayBuffer = await pdfFile.arrayBuffer();
-    const pdfBytes = new Uint8Array(arrayBuffer);
-    console.log(`Returning unmodified PDF (${pdfBytes.length} bytes)`);
-    return pdfBytes;
-  }
-
-  console.log(`Processing PDF with ${redactionAreas.length} redaction areas`);
+  // Suggestions the user has not accepted are never applied
+  const acceptedAreas = redactionAreas.filter(area => !area.suggested);
 
-  // Store the original PDF data to use as fallback
-  const originalPdfBytes = new Uint8Array(await pdfFile.arrayBuffer());
-  console.log(`Original PDF size: ${originalPdfBytes.length} bytes`);
+  if ((options.mode ?? REDACTION_SETTINGS.defaultRedactionMode) === 'markup') {
+    try {
+      const pdfBytes = await exportRedactionMarkup(pdfFile, acceptedAreas, options);
+      await validateRedactedPdf(pdfBytes);
+      // Nothing is removed yet, so every page keeps its number
+      const withholdingIndex = buildWithholdingIndex(options.withheldPages ?? {})
+        .map(entry => ({ ...entry, outputPage: entry.pageNumber }));
+      return {
+        pdfBytes,
+        method: 'markup',
+        pageStrategies: {},
+        withholdingIndex,
+        failedAttempts: [],
+        hiddenContent: null,
+        ocrPages: [],
+        encryptedFallback: false
+      };
+    } catch (error) {
+      if (error instanceof PdfRedactionError) throw error;
+      throw new PdfRedactionError(
+        `Mark-up failed: ${describeError(error)}`,
+        error instanceof Error ? error : undefined,
+        { method: 'markup' }
+      );
+    }
+  }
 
-  try {
-    // Try multiple approaches in sequence, with screenshot-based approach first
-    const attempts = [
-      {
-        name: 'Screenshot approach',
-        method: async () => await screenshotBasedRedaction(pdfFile, redactionAreas)
-      },
-      {
-        name: 'Primary approach',
-        method: async () => await processRedactions(pdfFile, redactionAreas)
-      },
-      {
-        name: 'Canvas approach',
-        method: async () => await canvasRedaction(pdfFile, redactionAreas)
-      }
-    ];
-    
-    // Try each approach in sequence
-    for (const attempt of attempts) {
-      try {
-        console.log(`Trying ${attempt.name}...`);
-        const result = await attempt.method();
-        
-        // Validate the result
-        if (!result || result.length < 1000) {
-          console.warn(`${attempt.name} produced suspicious output (${result?.length || 0} bytes)`);
-          continue;
+  // Areas on pages withheld in full are not redacted; the whole page goes
+  const withheldPages = options.withheldPages ?? {};
+  const areas = acceptedAreas.filter(area => !withheldPages[area.pageNumber]);
+  const encrypted = await isPdfEncrypted(pdfFile);
+  
+  // Pages without redactions are never rasterised, unless the document is
+  // encrypted and any page is
+  const rasterises = areas.some(area =>
+    getAppliedPageStrategy(area.pageNumber, areas, options, encrypted) !== 'vector'
+  );
+  const encryptedFallback = encrypted && rasterises;
+  // Only whole rendered pages lose their text, so only they are recognised
+  const ocrOptions: OcrOptions = { ...REDACTION_SETTINGS.defaultOcrOptions, ...options.ocr };
+  const ocr = ocrOptions.enabled && areas.some(area =>
+    getAppliedPageStrategy(area.pageNumber, areas, options, encrypted) === 'page-raster'
+  )
+    ? await PageOcr.create(ocrOptions.language).catch(error => {
+        throw new PdfRedactionError(`The OCR engine could not be loaded: ${describeError(error)}`, error);
+      })
+    : null;
+  const attempts: { method: RedactionMethod; run: () => Promise<Uint8Array> }[] = rasterises
+    ? [
+        {
+          method: 'screenshot',
+          run: async () => await screenshotBasedRedaction(pdfFile, areas, options, ocr)
+        },
+        {
+          method: 'canvas',
+          run: async () => await canvasRedaction(pdfFile, areas, options, ocr)
         }
-        
-        // Verify the PDF header
-        const pdfHeader = new TextDecoder().decode(result.slice(0, 8));
-        if (!pdfHeader.startsWith('%PDF')) {
-          console.warn(`${attempt.name} produced invalid PDF header: ${pdfHeader}`);
-          continue;
+      ]
+    : [
+        {
+          method: 'vector',
+          run: async () => await processRedactions(pdfFile, areas, options)
         }
-        
-        // Try to load the PDF to verify its validity
-        try {
-          await PDFDocument.load(result);
-          console.log(`${attempt.name} succeeded with valid PDF`);
-          return result;
-        } catch (loadError) {
-          console.warn(`${attempt.name} produced PDF that cannot be loaded back:`, loadError);
-          continue;
+      ];
+  
+  const failedAttempts: RedactionAttempt[] = [];
+  try {
+    for (const { method, run } of attempts) {
+      try {
+        console.log(`Trying ${method} redaction...`);
+        const redactedBytes = await run();
+        const pageCount = await validateRedactedPdf(redactedBytes);
+        const withheld = await withholdPages(redactedBytes, withheldPages);
+      
+        const { pdfBytes, report } = await removeHiddenContent(withheld.pdfBytes, options);
+        console.log(`${method} redaction succeeded with valid PDF (${pdfBytes.length} bytes)`);
+      
+        // Report what each page actually got
+        const pageStrategies: Record<number, RedactionStrategy> = {};
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+          if (withheldPages[pageNumber]) continue;
+          pageStrategies[pageNumber] = getAppliedPageStrategy(pageNumber, areas, options, encrypted);
         }
+        const ocrPages = ocr?.pageResults ?? [];
+        return {
+          pdfBytes,
+          method,
+          pageStrategies,
+          withholdingIndex: withheld.index,
+          failedAttempts,
+          hiddenContent: report,
+          ocrPages,
+          encryptedFallback
+        };
       } catch (error) {
-        console.error(`${attempt.name} failed:`, error);
+        console.error(`${method} redaction failed:`, error);
+        failedAttempts.push({
+          method,
+          reason: describeError(error),
+          failedPages: error instanceof PdfRedactionError ? error.details.failedPages : []
+        });
       }
     }
-    
-    console.error('All redaction approaches failed, returning original PDF');
-    return originalPdfBytes;
-  } catch (error) {
-    console.error('Critical error in PDF processing:', error);
-    
-    // Always return the original PDF on critical error
-    console.log('Returning original PDF due to critical error');
-    return originalPdfBytes;
+  } finally {
+    await ocr?.terminate();
   }
-}
-
-/**
- * Convert hex color string to RGB color
- */
-export const hexToRgb = (hex: string): Color => {
-  // Remove # if present
-  hex = hex.replace(/^#/, '');
   
-  // Parse hex values
-  const r = parseInt(hex.substring(0, 2), 16) / 255;
-  const g = parseInt(hex.substring(2, 4), 16) / 255;
-  const b = parseInt(hex.substring(4, 6), 16) / 255;
-  
-  return rgb(r, g, b);
-};
+  throw new PdfRedactionError(
+    `All redaction methods failed. ${failedAttempts.map(attempt => `${attempt.method}: ${attempt.reason}`).join('; ')}`,
+    undefined,
+    {
+      failedPages: failedAttempts.flatMap(attempt => attempt.failedPages),
+      attempts: failedAttempts
+    }
+  );
+}
 
 /**
  * Creates a redacted PDF and triggers a download
@@ -779,8 +1359,9 @@ export const hexToRgb = (hex: string): Color => {
  */
 export async function downloadRedactedPDF(
   pdfFile: File,
-  redactionAreas: RedactionArea[]
-): Promise<void> {
+  redactionAreas: RedactionArea[],
+  options: Partial<RedactionOptions> = {}
+): Promise<RedactionResult> {
   try {
     console.log(`Starting PDF download process with ${redactionAreas.length} redaction areas`);
     
@@ -789,34 +1370,18 @@ export async function downloadRedactedPDF(
     const fileNameParts = originalName.split('.');
     const extension = fileNameParts.pop() || 'pdf';
     const baseName = fileNameParts.join('.');
-    const newFileName = `${baseName}-redacted.${extension}`;
+    const suffix = options.mode === 'markup' ? 'markup' : 'redacted';
+    const newFileName = `${baseName}-${suffix}.${extension}`;
     
-    try {
-      // Process the redactions
-      const redactedPdfBytes = await redactPDF(pdfFile, redactionAreas);
-      
-      // Verify we have actual content
-      if (!redactedPdfBytes || redactedPdfBytes.length < 100) {
-        throw new Error('Redacted PDF appears to be invalid (too small or empty)');
-      }
-      
-      console.log(`Redacted PDF size: ${redactedPdfBytes.length} bytes`);
-      
-      // Download the redacted PDF
-      downloadPdfBlob(redactedPdfBytes, newFileName);
-      
-      console.log('PDF redacted successfully!');
-    } catch (error) {
-      let errorMessage = 'Failed to redact the PDF.';
-      
-      if (error instanceof Error) {
-        errorMessage = error.message;
-        console.error('Error in PDF redaction:', errorMessage);
-      }
-      
-      // Rethrow the error for the caller to handle
-      throw new Error(errorMessage);
-    }
+    // Process the redactions; this throws rather than producing an unredacted file
+    const result = await redactPDF(pdfFile, redactionAreas, options);
+    console.log(`Redacted PDF size: ${result.pdfBytes.length} bytes (${result.method} method)`);
+    
+    // Download the redacted PDF
+    downloadPdfBlob(result.pdfBytes, newFileName);
+    
+    console.log('PDF redacted successfully!');
+    return result;
   } catch (error) {
     console.error('Error in downloadRedactedPDF:', error);
     throw error;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PageText } from './pdfTextIndex';
+import { findTermMatches, parseTermList } from './pdfTermList';
+
+const pageOf = (text: string, pageNumber = 1): PageText => ({ pageNumber, text, runs: [], runOffsets: [] });
+
+// Text of the occurrences of each term
+const occurrences = (pages: PageText[], terms: string[]): string[][] =>
+  findTermMatches(pages, terms).map(result => result.matches.map(match => match.text));
+
+describe('parseTermList', () => {
+  it('reads one term per line of a text file', () => {
+    expect(parseTermList('\uFEFFJane Doe\r\n\n  ACME   Ltd \nSecret', 'text')).toEqual(['Jane Doe', 'ACME Ltd', 'Secret']);
+  });
+
+  it('reads every cell of a CSV file, quoted or not', () => {
+    expect(parseTermList('name,company\r\n"Doe, Jane","ACME ""North"""\n,Bob', 'csv'))
+      .toEqual(['name', 'company', 'Doe, Jane', 'ACME "North"', 'Bob']);
+  });
+
+  it('keeps a term given again with other accents or case once, as first written', () => {
+    expect(parseTermList('Zoë\nzoe\nZOË\nStraße\nstrasse', 'text')).toEqual(['Zoë', 'Straße']);
+  });
+});
+
+describe('findTermMatches', () => {
+  it('ignores accents and case, and lists terms without occurrences', () => {
+    const pages = [pageOf('Zoe met ZOË.'), pageOf('Then zoë left.', 2)];
+    const [zoe, missing] = findTermMatches(pages, ['Zoë', 'Nobody']);
+    expect(zoe.matches.map(match => [match.pageNumber, match.text])).toEqual([[1, 'Zoe'], [1, 'ZOË'], [2, 'zoë']]);
+    expect(missing).toEqual({ term: 'Nobody', matches: [] });
+  });
+
+  it('only matches whole words', () => {
+    expect(occurrences([pageOf('Ann, Anna and Joanne')], ['Ann'])).toEqual([['Ann']]);
+  });
+
+  it('matches across whitespace, line breaks and hyphens added at a line end', () => {
+    expect(occurrences([pageOf('Jane\n  Doe, Smith-\nson and Jean-\nPaul')], ['Jane Doe', 'Smithson', 'Jean-Paul']))
+      .toEqual([['Jane\n  Doe'], ['Smith-\nson'], ['Jean-\nPaul']]);
+  });
+
+  it('maps ligatures back to the text they stand for', () => {
+    const [result] = findTermMatches([pageOf('The \uFB01nal offer')], ['final']);
+    expect(result.matches.map(match => [match.start, match.end, match.text])).toEqual([[4, 8, '\uFB01nal']]);
+  });
+
+  it('matches a word broken across lines with a soft hyphen', () => {
+    expect(occurrences([pageOf('Mr Schmid\u00AD\nt and Ms Schmid\u00AD \n  t')], ['Schmidt']))
+      .toEqual([['Schmid\u00AD\nt', 'Schmid\u00AD \n  t']]);
+  });
+});
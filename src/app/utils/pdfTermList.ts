@@ -0,0 +1,165 @@
+import { TermMatches, TextMatch } from '../types/pdf';
+import { PageText } from './pdfTextIndex';
+import { WORD_CHARACTER, matchContext } from './pdfTextSearch';
+
+/**
+ * Format of an uploaded term list: comma separated cells, or one term per line
+ */
+export type TermListFormat = 'csv' | 'text';
+
+/**
+ * Text folded for matching, with the offset in the original text of each
+ * folded character
+ */
+interface FoldedText {
+  text: string;
+  offsets: number[];
+}
+
+// Letters that do not decompose into a base letter and accents
+const FOLDED_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i'
+};
+
+// Hyphen added where a word is broken across lines
+const LINE_BREAK_HYPHEN = '(?:-[^\\S\\n]*\\n\\s*)?';
+
+/**
+ * One character without accents, in lower case; ligatures such as "ﬁ" become
+ * their letters and soft hyphens disappear
+ */
+const foldCharacter = (char: string): string => {
+  const lower = char.toLowerCase();
+  if (FOLDED_LETTERS[lower]) return FOLDED_LETTERS[lower];
+  return lower.normalize('NFKD').replace(/[\p{M}\u00AD]/gu, '').toLowerCase();
+};
+
+// Soft hyphen where a word is broken across lines, with the line break
+const SOFT_HYPHEN_LINE_BREAK = /\u00AD[^\S\n]*\n\s*/y;
+
+const foldText = (text: string): FoldedText => {
+  let folded = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  while (offset < text.length) {
+    // The two halves of a word broken with a soft hyphen are joined
+    SOFT_HYPHEN_LINE_BREAK.lastIndex = offset;
+    const lineBreak = SOFT_HYPHEN_LINE_BREAK.exec(text);
+    if (lineBreak) {
+      offset += lineBreak[0].length;
+      continue;
+    }
+    const char = String.fromCodePoint(text.codePointAt(offset) ?? 0);
+    const replacement = foldCharacter(char);
+    folded += replacement;
+    for (let i = 0; i < replacement.length; i++) offsets.push(offset);
+    offset += char.length;
+  }
+  return { text: folded, offsets };
+};
+
+/**
+ * Split a term list into terms. CSV cells may be quoted, with "" for a quote
+ * inside a cell. Blank entries are skipped, and a term given again with other
+ * accents or case is kept once, as first written.
+ */
+export const parseTermList = (content: string, format: TermListFormat): string[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const cells: string[] = [];
+  if (format === 'text') {
+    cells.push(...text.split(/\r?\n/));
+  } else {
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && !cell.trim()) {
+        quoted = true;
+        cell = '';
+      } else if (char === ',' || char === '\n') {
+        cells.push(cell);
+        cell = '';
+      } else if (char !== '\r') {
+        cell += char;
+      }
+    }
+    cells.push(cell);
+  }
+
+  const seen = new Set<string>();
+  return cells
+    .map(cell => cell.trim().replace(/\s+/g, ' '))
+    .filter(term => {
+      const key = foldText(term).text;
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Regular expression for a folded term: whitespace matches any whitespace, a
+ * line break may follow a hyphen of the term, and a word may be broken across
+ * lines with an added hyphen. Terms only match whole words.
+ */
+const buildTermPattern = (term: string): RegExp | null => {
+  const chars = [...foldText(term).text.trim().replace(/\s+/g, ' ')];
+  if (chars.length === 0) return null;
+  const wordCharacter = new RegExp(`^${WORD_CHARACTER}$`, 'u');
+  let source = '';
+  chars.forEach((char, i) => {
+    if (char === ' ') {
+      source += '\\s+';
+    } else if (char === '-') {
+      source += '-\\s*';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      const next = chars[i + 1];
+      if (next && wordCharacter.test(char) && wordCharacter.test(next)) source += LINE_BREAK_HYPHEN;
+    }
+  });
+  if (wordCharacter.test(chars[0])) source = `(?<!${WORD_CHARACTER})${source}`;
+  if (wordCharacter.test(chars[chars.length - 1])) source = `${source}(?!${WORD_CHARACTER})`;
+  return new RegExp(source, 'gu');
+};
+
+/**
+ * The occurrences of each term in the text of the pages, in page order,
+ * ignoring accents and case. Terms are listed in the order given, those
+ * without occurrences included.
+ */
+export const findTermMatches = (pages: PageText[], terms: string[]): TermMatches[] => {
+  const folded = pages.map(page => ({ page, ...foldText(page.text) }));
+  return terms.map(term => {
+    const pattern = buildTermPattern(term);
+    const matches: TextMatch[] = [];
+    if (pattern) {
+      for (const { page, text, offsets } of folded) {
+        for (const match of text.matchAll(pattern)) {
+          if (match[0].length === 0 || match.index === undefined) continue;
+          // Back to the original text, where a folded character may stand for several
+          const start = offsets[match.index];
+          const lastOffset = offsets[match.index + match[0].length - 1];
+          const end = lastOffset + String.fromCodePoint(page.text.codePointAt(lastOffset) ?? 0).length;
+          matches.push({
+            pageNumber: page.pageNumber,
+            start,
+            end,
+            text: page.text.slice(start, end),
+            context: matchContext(page.text, start, end)
+          });
+        }
+      }
+    }
+    return { term, matches };
+  });
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PageText, TextRun, textRangeAreas } from './pdfTextIndex';
+
+// Without a canvas every character counts as equally wide, 10 units here
+const runOf = (str: string, x: number): TextRun => ({
+  str,
+  transform: [10, 0, 0, 10, x, 100],
+  width: str.length * 10,
+  fontFamily: 'sans-serif',
+  ascent: 0.8,
+  descent: -0.2
+});
+
+const pageOf = (...runs: TextRun[]): PageText => {
+  let text = '';
+  const runOffsets = runs.map(run => {
+    const offset = text.length;
+    text += `${run.str}\n`;
+    return offset;
+  });
+  return { pageNumber: 1, text, runs, runOffsets };
+};
+
+const boxes = (pageText: PageText, start: number, end: number) =>
+  textRangeAreas(pageText, start, end, 'search').map(({ x, y, width, height }) => ({ x, y, width, height }));
+
+describe('textRangeAreas', () => {
+  it('covers whole runs exactly', () => {
+    expect(boxes(pageOf(runOf('Secret', 50)), 0, 6)).toEqual([{ x: 50, y: 98, width: 60, height: 10 }]);
+  });
+
+  it('widens ends inside a run by a fifth of the font size', () => {
+    const page = pageOf(runOf('Hello Secret', 0));
+    expect(boxes(page, 6, 12)).toEqual([{ x: 58, y: 98, width: 62, height: 10 }]);
+    expect(boxes(page, 0, 5)).toEqual([{ x: 0, y: 98, width: 52, height: 10 }]);
+    expect(boxes(page, 2, 4)).toEqual([{ x: 18, y: 98, width: 24, height: 10 }]);
+  });
+
+  it('leaves out whitespace at the ends of a run', () => {
+    expect(boxes(pageOf(runOf(' Secret ', 0)), 0, 8)).toEqual([{ x: 8, y: 98, width: 64, height: 10 }]);
+  });
+});
@@ -0,0 +1,248 @@
+import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { RedactionArea, RedactionAreaOrigin } from '../types/pdf';
+import { Matrix, Point, boundsOfPoints } from './pdfGeometry';
+
+/**
+ * The parts of a pdf.js text item used here
+ */
+interface TextItemData {
+  str: string;
+  transform: number[];
+  width: number;
+  fontName: string;
+  hasEOL: boolean;
+}
+
+/**
+ * The parts of a pdf.js text style used here
+ */
+interface TextStyleData {
+  fontFamily: string;
+  ascent: number;
+  descent: number;
+}
+
+/**
+ * A run of text drawn with one font and text matrix
+ */
+export interface TextRun {
+  str: string;
+  /** From text space to user space, the origin on the baseline where the run starts */
+  transform: Matrix;
+  /** Advance of the whole run along the baseline, in user space units */
+  width: number;
+  /** CSS font family used to measure how far along the run each character starts */
+  fontFamily: string;
+  /** Top and bottom of the glyphs relative to the baseline, per unit of font size */
+  ascent: number;
+  descent: number;
+}
+
+/**
+ * The text of a page and where each character of it is drawn
+ */
+export interface PageText {
+  /** Page number (1-indexed) */
+  pageNumber: number;
+  /** Text of the runs in reading order, separated by spaces and line breaks */
+  text: string;
+  runs: TextRun[];
+  /** Offset in `text` of the first character of each run */
+  runOffsets: number[];
+}
+
+// Glyph extents used when the font does not report them
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = -0.2;
+
+// Gap between runs on one line, per unit of font size, read as a word space
+const WORD_GAP = 0.15;
+
+// Pieces of a line closer than this, per unit of font size, are joined into one box
+const JOIN_GAP = 0.3;
+
+// Margin added, per unit of font size, where a box ends inside a run, since
+// the character offsets are measured in a stand-in font and can drift
+const SLICE_MARGIN = 0.2;
+
+const fontSizeOf = (transform: Matrix): number => Math.hypot(transform[2], transform[3]);
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Width of a text in a font at an arbitrary size. Without a canvas, as during
+ * export in a worker, every character counts as equally wide.
+ */
+const measureText = (text: string, fontFamily: string): number => {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return [...text].length;
+  measureContext.font = `100px ${fontFamily}`;
+  return measureContext.measureText(text).width;
+};
+
+/**
+ * Distance along the baseline from the start of a run to a character offset
+ */
+const advanceTo = (run: TextRun, offset: number): number => {
+  if (offset <= 0) return 0;
+  if (offset >= run.str.length) return run.width;
+  const total = measureText(run.str, run.fontFamily);
+  return total > 0 ? (run.width * measureText(run.str.slice(0, offset), run.fontFamily)) / total : 0;
+};
+
+/**
+ * What separates two runs in the page text: a line break after the end of a
+ * line, a space where the next run starts away from the end of this one, or
+ * nothing where it continues the same word
+ */
+const separatorBetween = (run: TextRun, hasEOL: boolean, next: TextRun | undefined): string => {
+  if (hasEOL) return '\n';
+  if (!next || /\s$/.test(run.str) || /^\s/.test(next.str)) return '';
+  const [a, b, c, d] = run.transform;
+  const size = fontSizeOf(run.transform) || 1;
+  const inverse = 1 / (a * d - b * c || 1);
+  // Start of the next run in the text space of this one, scaled back to user space units
+  const dx = next.transform[4] - run.transform[4];
+  const dy = next.transform[5] - run.transform[5];
+  const along = (dx * d - dy * c) * inverse * Math.hypot(a, b);
+  const across = (dy * a - dx * b) * inverse * size;
+  if (Math.abs(across) > size / 2) return '\n';
+  return along - run.width > size * WORD_GAP ? ' ' : '';
+};
+
+/**
+ * The text content of a page as pdf.js reads it
+ */
+export type PageTextContent = Awaited<ReturnType<PDFPageProxy['getTextContent']>>;
+
+/**
+ * The text runs of a page from its text content, one for each text item, in
+ * the order pdf.js lays them out in its text layer
+ */
+export const pageTextFromContent = (pageNumber: number, content: PageTextContent): PageText => {
+  const styles = content.styles as Record<string, TextStyleData>;
+  const items = (content.items as Partial<TextItemData>[])
+    .filter((item): item is TextItemData => typeof item.str === 'string' && Array.isArray(item.transform));
+  const runs = items.map(item => ({
+    str: item.str,
+    transform: item.transform as Matrix,
+    width: item.width,
+    fontFamily: styles[item.fontName]?.fontFamily ?? 'sans-serif',
+    ascent: styles[item.fontName]?.ascent || DEFAULT_ASCENT,
+    descent: styles[item.fontName]?.descent || DEFAULT_DESCENT
+  }));
+
+  let text = '';
+  const runOffsets: number[] = [];
+  runs.forEach((run, index) => {
+    runOffsets.push(text.length);
+    text += run.str + separatorBetween(run, items[index].hasEOL, runs[index + 1]);
+  });
+  return { pageNumber, text, runs, runOffsets };
+};
+
+/**
+ * Read the text runs of a page with pdf.js
+ */
+export const extractPageText = async (page: PDFPageProxy): Promise<PageText> =>
+  pageTextFromContent(page.pageNumber, await page.getTextContent());
+
+/**
+ * Read the text of every page of a document, reporting progress after each page
+ */
+export const extractDocumentText = async (
+  pdfDocument: PDFDocumentProxy,
+  onProgress?: (pagesDone: number, totalPages: number) => void
+): Promise<PageText[]> => {
+  const pages: PageText[] = [];
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const page = await pdfDocument.getPage(pageNumber);
+    pages.push(await extractPageText(page));
+    onProgress?.(pageNumber, pdfDocument.numPages);
+  }
+  return pages;
+};
+
+/**
+ * Corners of the glyph boxes of part of a run, in user space. Ends inside the
+ * run are widened by a margin, without going past the ends of the run.
+ */
+const runSliceCorners = (run: TextRun, from: number, to: number): Point[] => {
+  const [a, b, c, d, e, f] = run.transform;
+  const size = fontSizeOf(run.transform) || 1;
+  const scale = Math.hypot(a, b) || 1;
+  // Unit vectors along the baseline and up the glyphs
+  const along = { x: a / scale, y: b / scale };
+  const up = { x: c / size, y: d / size };
+  const margin = SLICE_MARGIN * size;
+  const start = from > 0 ? Math.max(advanceTo(run, from) - margin, 0) : 0;
+  const end = to < run.str.length ? Math.min(advanceTo(run, to) + margin, run.width) : run.width;
+  const bottom = run.descent * size;
+  const top = run.ascent * size;
+  return [
+    [start, bottom],
+    [end, bottom],
+    [end, top],
+    [start, top]
+  ].map(([s, t]) => ({ x: e + along.x * s + up.x * t, y: f + along.y * s + up.y * t }));
+};
+
+/**
+ * Whether the corners of a box lie on the axes of user space
+ */
+const isAxisAligned = (corners: Point[]): boolean =>
+  corners.every((corner, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return Math.abs(corner.x - next.x) < 0.01 || Math.abs(corner.y - next.y) < 0.01;
+  });
+
+/**
+ * Redaction areas covering the glyphs of a range of the page text, one per
+ * line. Whitespace at either end of each run is left out so that the boxes
+ * are tight; text that is not upright on the page gets polygons following
+ * the turned glyph boxes.
+ */
+export const textRangeAreas = (
+  pageText: PageText,
+  start: number,
+  end: number,
+  origin: RedactionAreaOrigin
+): RedactionArea[] => {
+  const areas: RedactionArea[] = [];
+  pageText.runs.forEach((run, index) => {
+    const offset = pageText.runOffsets[index];
+    let from = Math.max(start - offset, 0);
+    let to = Math.min(end - offset, run.str.length);
+    while (from < to && /\s/.test(run.str[from])) from++;
+    while (to > from && /\s/.test(run.str[to - 1])) to--;
+    if (from >= to) return;
+
+    const corners = runSliceCorners(run, from, to);
+    const bounds = boundsOfPoints(corners);
+    if (!isAxisAligned(corners)) {
+      areas.push({ pageNumber: pageText.pageNumber, ...bounds, shape: 'polygon', points: corners, origin });
+      return;
+    }
+    // Join pieces of the same line, such as the words of a phrase drawn as separate runs
+    const previous = areas[areas.length - 1];
+    const gap = JOIN_GAP * fontSizeOf(run.transform);
+    if (
+      previous && previous.shape === undefined &&
+      Math.abs(previous.y - bounds.y) < 0.5 && Math.abs(previous.height - bounds.height) < 0.5 &&
+      bounds.x <= previous.x + previous.width + gap && previous.x <= bounds.x + bounds.width + gap
+    ) {
+      const joined = boundsOfPoints([
+        { x: previous.x, y: previous.y },
+        { x: previous.x + previous.width, y: previous.y + previous.height },
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height }
+      ]);
+      areas[areas.length - 1] = { ...previous, ...joined };
+      return;
+    }
+    areas.push({ pageNumber: pageText.pageNumber, ...bounds, origin });
+  });
+  return areas;
+};
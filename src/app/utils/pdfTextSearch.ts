@@ -0,0 +1,75 @@
+import { RedactionArea, RedactionAreaOrigin, TextMatch, TextSearchOptions } from '../types/pdf';
+import { REDACTION_SETTINGS } from '../constants/pdf';
+import { PageText, textRangeAreas } from './pdfTextIndex';
+
+// Letters, digits and connectors, which a whole-word match may not touch
+export const WORD_CHARACTER = '[\\p{L}\\p{N}_]';
+
+/**
+ * Regular expression for a phrase. Runs of whitespace in the phrase match any
+ * whitespace, so that a phrase broken across lines is still found. Returns
+ * null for a phrase without any text.
+ */
+export const buildSearchPattern = (phrase: string, options: TextSearchOptions): RegExp | null => {
+  const words = phrase.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  let source = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  if (options.wholeWord) {
+    source = `(?<!${WORD_CHARACTER})${source}(?!${WORD_CHARACTER})`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+};
+
+/**
+ * The text around a range of a page, on one line
+ */
+export const matchContext = (text: string, start: number, end: number): string => {
+  const length = REDACTION_SETTINGS.searchContextLength;
+  const before = text.slice(Math.max(0, start - length), start);
+  const after = text.slice(end, end + length);
+  return `${start > length ? '…' : ''}${before}${text.slice(start, end)}${after}${end + length < text.length ? '…' : ''}`
+    .replace(/\s+/g, ' ');
+};
+
+/**
+ * Every occurrence of a pattern in the text of the pages, in page order
+ */
+export const findPatternMatches = (pages: PageText[], pattern: RegExp): TextMatch[] => {
+  const matches: TextMatch[] = [];
+  const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+  for (const page of pages) {
+    for (const match of page.text.matchAll(global)) {
+      if (match[0].length === 0 || match.index === undefined) continue;
+      const start = match.index;
+      const end = start + match[0].length;
+      matches.push({
+        pageNumber: page.pageNumber,
+        start,
+        end,
+        text: match[0],
+        context: matchContext(page.text, start, end)
+      });
+    }
+  }
+  return matches;
+};
+
+/**
+ * Every occurrence of a phrase in the text of the pages, in page order
+ */
+export const findTextMatches = (pages: PageText[], phrase: string, options: TextSearchOptions): TextMatch[] => {
+  const pattern = buildSearchPattern(phrase, options);
+  return pattern ? findPatternMatches(pages, pattern) : [];
+};
+
+/**
+ * Redaction areas covering the glyphs of a match
+ */
+export const matchAreas = (
+  pages: PageText[],
+  match: TextMatch,
+  origin: RedactionAreaOrigin = 'search'
+): RedactionArea[] => {
+  const page = pages.find(candidate => candidate.pageNumber === match.pageNumber);
+  return page ? textRangeAreas(page, match.start, match.end, origin) : [];
+};